@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { resolveTempIds } from './batch';
+
+const ids = new Map([['card', '1:2'], ['primary', '1:3'], ['secondary', '1:4']]);
+
+describe('resolveTempIds', () => {
+  it('resolves tempIds in single node ID fields', () => {
+    expect(resolveTempIds({ parentId: 'card', name: 'Title' }, ids, new Set())).toEqual({ parentId: '1:2', name: 'Title' });
+    expect(resolveTempIds({ componentSetId: 'card', ancestorId: 'primary' }, ids, new Set()))
+      .toEqual({ componentSetId: '1:2', ancestorId: '1:3' });
+  });
+
+  it('resolves tempIds in node ID lists, so created components can be combined', () => {
+    expect(resolveTempIds({ componentIds: ['primary', 'secondary'], name: 'Button' }, ids, new Set()))
+      .toEqual({ componentIds: ['1:3', '1:4'], name: 'Button' });
+    expect(resolveTempIds({ nodeIds: ['card', '9:9'] }, ids, new Set())).toEqual({ nodeIds: ['1:2', '9:9'] });
+  });
+
+  it('leaves real node IDs and other params alone', () => {
+    const params = { nodeId: '5:6', characters: 'card', fills: [{ type: 'SOLID' }] };
+    expect(resolveTempIds(params, ids, new Set())).toEqual(params);
+  });
+
+  it('rejects references to failed items', () => {
+    expect(() => resolveTempIds({ parentId: 'broken' }, ids, new Set(['broken'])))
+      .toThrow('Depends on failed batch item: broken');
+    expect(() => resolveTempIds({ componentIds: ['primary', 'broken'] }, ids, new Set(['broken'])))
+      .toThrow('Depends on failed batch item: broken');
+  });
+});
@@ -0,0 +1,36 @@
+// Params naming nodes; inside a BATCH they may hold the tempId of an earlier item
+const NODE_ID_FIELDS = ['parentId', 'nodeId', 'componentId', 'componentSetId', 'pageId', 'ancestorId'];
+const NODE_ID_LIST_FIELDS = ['nodeIds', 'componentIds', 'linkedNodeIds'];
+
+/**
+ * Replaces tempIds in a batch item's params with the IDs of the nodes created
+ * for them. Referencing an item that failed, in this chunk or an earlier one,
+ * throws so the dependent item fails with a clear reason.
+ */
+export function resolveTempIds(
+  params: Record<string, unknown>,
+  ids: Map<string, string>,
+  failed: Set<string>
+): Record<string, unknown> {
+  const resolve = (ref: string) => {
+    if (failed.has(ref)) {
+      throw new Error(`Depends on failed batch item: ${ref}`);
+    }
+    return ids.get(ref) ?? ref;
+  };
+  
+  const resolved = { ...params };
+  for (const field of NODE_ID_FIELDS) {
+    const value = resolved[field];
+    if (typeof value === 'string') {
+      resolved[field] = resolve(value);
+    }
+  }
+  for (const field of NODE_ID_LIST_FIELDS) {
+    const value = resolved[field];
+    if (Array.isArray(value)) {
+      resolved[field] = value.map(ref => typeof ref === 'string' ? resolve(ref) : ref);
+    }
+  }
+  return resolved;
+}
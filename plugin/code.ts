@@ -1,7 +1,10 @@
+import { resolveTempIds } from './batch';
+
 interface PluginCommand {
   id: string;
   type: string;
   timestamp: number;
+  sessionId?: string; // MCP session that issued the command
   params: Record<string, unknown>;
 }
 
@@ -18,13 +21,114 @@ figma.showUI(__html__, {
   themeColors: true,
 });
 
-figma.ui.onmessage = async (msg: { type: string; command?: PluginCommand }) => {
+// Must match PLUGIN_PROTOCOL_VERSION on the server
+const PROTOCOL_VERSION = 1;
+const PAIRING_TOKEN_KEY = 'pairingToken';
+
+figma.ui.onmessage = async (msg: { type: string; command?: PluginCommand; token?: string }) => {
   if (msg.type === 'command' && msg.command) {
     const response = await handleCommand(msg.command);
     figma.ui.postMessage({ type: 'response', response });
+  } else if (msg.type === 'hello') {
+    const token = msg.token ?? '';
+    await figma.clientStorage.setAsync(PAIRING_TOKEN_KEY, token);
+    figma.ui.postMessage({ type: 'hello', hello: createHello(token) });
   }
 };
 
+figma.clientStorage.getAsync(PAIRING_TOKEN_KEY).then((token) => {
+  figma.ui.postMessage({ type: 'settings', token: token ?? '' });
+});
+
+// Sent on every (re)connect so the server can authenticate the plugin and
+// route commands per file
+function createHello(token: string) {
+  const user = figma.currentUser;
+  return {
+    protocolVersion: PROTOCOL_VERSION,
+    token,
+    capabilities: SUPPORTED_COMMANDS,
+    fileKey: figma.fileKey,
+    fileName: figma.root.name,
+    user: user ? { id: user.id, name: user.name } : undefined,
+  };
+}
+
+// Events are pushed to the server unprompted; document changes are coalesced
+// because a single batch command can touch hundreds of nodes
+const DOCUMENT_CHANGE_FLUSH_MS = 250;
+const MAX_EVENT_NODE_IDS = 200;
+
+interface PendingDocumentChange {
+  created: Set<string>;
+  deleted: Set<string>;
+  changed: Map<string, Set<string>>;
+  styleChanges: number;
+  remote: boolean;
+}
+
+let pendingDocumentChange: PendingDocumentChange | null = null;
+
+function postEvent(event: Record<string, unknown>) {
+  figma.ui.postMessage({ type: 'event', event });
+}
+
+figma.on('selectionchange', () => {
+  postEvent({
+    type: 'SELECTION_CHANGE',
+    pageId: figma.currentPage.id,
+    nodeIds: figma.currentPage.selection.map(node => node.id),
+  });
+});
+
+figma.on('currentpagechange', () => {
+  postEvent({
+    type: 'PAGE_CHANGE',
+    pageId: figma.currentPage.id,
+    pageName: figma.currentPage.name,
+  });
+});
+
+figma.on('documentchange', (event) => {
+  if (!pendingDocumentChange) {
+    pendingDocumentChange = { created: new Set(), deleted: new Set(), changed: new Map(), styleChanges: 0, remote: false };
+    setTimeout(flushDocumentChange, DOCUMENT_CHANGE_FLUSH_MS);
+  }
+  
+  const pending = pendingDocumentChange;
+  for (const change of event.documentChanges) {
+    if (change.origin === 'REMOTE') pending.remote = true;
+    if (change.type === 'CREATE') {
+      pending.created.add(change.id);
+    } else if (change.type === 'DELETE') {
+      pending.deleted.add(change.id);
+    } else if (change.type === 'PROPERTY_CHANGE') {
+      const properties = pending.changed.get(change.id) ?? new Set<string>();
+      change.properties.forEach(property => properties.add(property));
+      pending.changed.set(change.id, properties);
+    } else {
+      pending.styleChanges++;
+    }
+  }
+});
+
+function flushDocumentChange() {
+  const pending = pendingDocumentChange;
+  pendingDocumentChange = null;
+  if (!pending) return;
+  
+  const changed = [...pending.changed].map(([nodeId, properties]) => ({ nodeId, properties: [...properties] }));
+  postEvent({
+    type: 'DOCUMENT_CHANGE',
+    created: [...pending.created].slice(0, MAX_EVENT_NODE_IDS),
+    deleted: [...pending.deleted].slice(0, MAX_EVENT_NODE_IDS),
+    changed: changed.slice(0, MAX_EVENT_NODE_IDS),
+    styleChanges: pending.styleChanges,
+    remote: pending.remote,
+    truncated: Math.max(pending.created.size, pending.deleted.size, changed.length) > MAX_EVENT_NODE_IDS,
+  });
+}
+
 async function handleCommand(command: PluginCommand): Promise<PluginResponse> {
   try {
     const result = await executeCommand(command);
@@ -35,7 +139,35 @@ async function handleCommand(command: PluginCommand): Promise<PluginResponse> {
   }
 }
 
+// Reported to the server as capabilities; keep in sync with dispatchCommand
+const SUPPORTED_COMMANDS = [
+  'CREATE_FRAME', 'CREATE_RECTANGLE', 'CREATE_ELLIPSE', 'CREATE_TEXT', 'CREATE_LINE',
+  'CREATE_NODE_FROM_SVG', 'CREATE_VECTOR', 'CREATE_COMPONENT', 'CREATE_INSTANCE',
+  'COMBINE_AS_VARIANTS', 'ADD_VARIANT_PROPERTY', 'RENAME_VARIANT_PROPERTY', 'SET_VARIANT_PROPERTIES',
+  'ADD_COMPONENT_PROPERTY', 'EDIT_COMPONENT_PROPERTY', 'DELETE_COMPONENT_PROPERTY', 'SET_INSTANCE_PROPERTIES',
+  'GET_LOCAL_VARIABLES', 'CREATE_VARIABLE_COLLECTION', 'UPDATE_VARIABLE_COLLECTION', 'DELETE_VARIABLE_COLLECTION',
+  'CREATE_VARIABLE', 'UPDATE_VARIABLE', 'DELETE_VARIABLE', 'SET_BOUND_VARIABLES', 'CREATE_IMAGE',
+  'GET_LOCAL_STYLES', 'CREATE_STYLE', 'UPDATE_STYLE', 'APPLY_STYLE',
+  'UPDATE_NODE', 'DELETE_NODE', 'SET_FILLS', 'SET_STROKES', 'SET_EFFECTS', 'APPLY_AUTO_LAYOUT',
+  'GROUP_NODES', 'BOOLEAN_OPERATION', 'FLATTEN_NODES', 'SET_MASK', 'SET_CONSTRAINTS',
+  'GET_SELECTION', 'SET_SELECTION', 'GET_CURRENT_PAGE', 'CREATE_PAGE',
+  'MOVE_NODE', 'RESIZE_NODE', 'CLONE_NODE', 'GET_NODE', 'GET_PAGE_TREE', 'FIND_NODES', 'BATCH',
+  'BEGIN_TRANSACTION', 'COMMIT_TRANSACTION', 'ROLLBACK_TRANSACTION',
+];
+
 async function executeCommand(command: PluginCommand): Promise<unknown> {
+  const transaction = activeTransactions.get(command.sessionId ?? '');
+  if (!transaction || !JOURNALED_COMMANDS.has(command.type)) {
+    return dispatchCommand(command);
+  }
+  
+  journalTouchedNodes(transaction, command.params);
+  const result = await dispatchCommand(command);
+  journalCreatedNode(transaction, result, consumedNodeIds(command));
+  return result;
+}
+
+async function dispatchCommand(command: PluginCommand): Promise<unknown> {
   const { type, params } = command;
 
   switch (type) {
@@ -49,6 +181,56 @@ async function executeCommand(command: PluginCommand): Promise<unknown> {
       return createText(params as CreateTextParams);
     case 'CREATE_LINE':
       return createLine(params as CreateLineParams);
+    case 'CREATE_NODE_FROM_SVG':
+      return createNodeFromSvg(params as CreateNodeFromSvgParams);
+    case 'CREATE_VECTOR':
+      return createVector(params as CreateVectorParams);
+    case 'CREATE_COMPONENT':
+      return createComponent(params as CreateComponentParams);
+    case 'CREATE_INSTANCE':
+      return createInstance(params as CreateInstanceParams);
+    case 'COMBINE_AS_VARIANTS':
+      return combineAsVariants(params as CombineAsVariantsParams);
+    case 'ADD_VARIANT_PROPERTY':
+      return addVariantProperty(params as AddVariantPropertyParams);
+    case 'RENAME_VARIANT_PROPERTY':
+      return renameVariantProperty(params as RenameVariantPropertyParams);
+    case 'SET_VARIANT_PROPERTIES':
+      return setVariantProperties(params as SetVariantPropertiesParams);
+    case 'ADD_COMPONENT_PROPERTY':
+      return addComponentProperty(params as AddComponentPropertyParams);
+    case 'EDIT_COMPONENT_PROPERTY':
+      return editComponentProperty(params as EditComponentPropertyParams);
+    case 'DELETE_COMPONENT_PROPERTY':
+      return deleteComponentProperty(params as DeleteComponentPropertyParams);
+    case 'SET_INSTANCE_PROPERTIES':
+      return setInstanceProperties(params as SetInstancePropertiesParams);
+    case 'GET_LOCAL_VARIABLES':
+      return getLocalVariables();
+    case 'CREATE_VARIABLE_COLLECTION':
+      return createVariableCollection(params as CreateVariableCollectionParams);
+    case 'UPDATE_VARIABLE_COLLECTION':
+      return updateVariableCollection(params as UpdateVariableCollectionParams);
+    case 'DELETE_VARIABLE_COLLECTION':
+      return deleteVariableCollection(params as DeleteVariableCollectionParams);
+    case 'CREATE_VARIABLE':
+      return createVariable(params as CreateVariableParams);
+    case 'UPDATE_VARIABLE':
+      return updateVariable(params as UpdateVariableParams);
+    case 'DELETE_VARIABLE':
+      return deleteVariable(params as DeleteVariableParams);
+    case 'SET_BOUND_VARIABLES':
+      return setBoundVariables(params as SetBoundVariablesParams);
+    case 'CREATE_IMAGE':
+      return createImage(params as CreateImageParams);
+    case 'GET_LOCAL_STYLES':
+      return getLocalStyles();
+    case 'CREATE_STYLE':
+      return createStyle(params as CreateStyleParams);
+    case 'UPDATE_STYLE':
+      return updateStyle(params as UpdateStyleParams);
+    case 'APPLY_STYLE':
+      return applyStyle(params as ApplyStyleParams);
     case 'UPDATE_NODE':
       return updateNode(params as UpdateNodeParams);
     case 'DELETE_NODE':
@@ -63,6 +245,14 @@ async function executeCommand(command: PluginCommand): Promise<unknown> {
       return applyAutoLayout(params as ApplyAutoLayoutParams);
     case 'GROUP_NODES':
       return groupNodes(params as GroupNodesParams);
+    case 'BOOLEAN_OPERATION':
+      return booleanOperation(params as BooleanOperationParams);
+    case 'FLATTEN_NODES':
+      return flattenNodes(params as FlattenNodesParams);
+    case 'SET_MASK':
+      return setMask(params as SetMaskParams);
+    case 'SET_CONSTRAINTS':
+      return setConstraints(params as SetConstraintsParams);
     case 'GET_SELECTION':
       return getSelection();
     case 'SET_SELECTION':
@@ -77,16 +267,422 @@ async function executeCommand(command: PluginCommand): Promise<unknown> {
       return resizeNode(params as ResizeNodeParams);
     case 'CLONE_NODE':
       return cloneNode(params as CloneNodeParams);
+    case 'GET_NODE':
+      return getNode(params as GetNodeParams);
+    case 'GET_PAGE_TREE':
+      return getPageTree(params as GetPageTreeParams);
+    case 'FIND_NODES':
+      return findNodes(params as FindNodesParams);
+    case 'BATCH':
+      return executeBatch(command, params as BatchParams);
+    case 'BEGIN_TRANSACTION':
+      return beginTransaction(params as BeginTransactionParams, command.sessionId ?? '');
+    case 'COMMIT_TRANSACTION':
+      return commitTransaction(params as CommitTransactionParams, command.sessionId ?? '');
+    case 'ROLLBACK_TRANSACTION':
+      return rollbackTransaction(params as RollbackTransactionParams, command.sessionId ?? '');
     default:
       throw new Error(`Unknown command type: ${type}`);
   }
 }
 
+interface BatchItem {
+  type: string;
+  tempId?: string;
+  params: Record<string, unknown>;
+}
+
+interface BatchParams {
+  commands: BatchItem[];
+  ids?: Record<string, string>;
+  failed?: string[];
+  stopOnError?: boolean;
+}
+
+interface BatchItemResult {
+  tempId?: string;
+  success: boolean;
+  result?: unknown;
+  error?: string;
+}
+
+async function executeBatch(command: PluginCommand, params: BatchParams) {
+  const ids = new Map(Object.entries(params.ids ?? {}));
+  const failed = new Set(params.failed ?? []);
+  const results: BatchItemResult[] = [];
+  
+  for (const item of params.commands) {
+    if (params.stopOnError && results.some(r => !r.success)) {
+      break;
+    }
+    
+    try {
+      if (item.type === 'BATCH') {
+        throw new Error('Nested batches are not supported');
+      }
+      
+      const result = await executeCommand({
+        id: command.id,
+        timestamp: command.timestamp,
+        sessionId: command.sessionId,
+        type: item.type,
+        params: resolveTempIds(item.params, ids, failed),
+      });
+      
+      const nodeId = (result as { nodeId?: string } | undefined)?.nodeId;
+      if (item.tempId && nodeId) {
+        ids.set(item.tempId, nodeId);
+      }
+      results.push({ tempId: item.tempId, success: true, result });
+    } catch (error) {
+      if (item.tempId) failed.add(item.tempId);
+      const message = error instanceof Error ? error.message : String(error);
+      results.push({ tempId: item.tempId, success: false, error: message });
+    }
+  }
+  
+  return { results, ids: Object.fromEntries(ids) };
+}
+
+// Transactions journal the nodes agent commands create and the prior state of
+// the nodes they modify, so a whole agent action can be rolled back. Figma's
+// undo history gets one step per transaction.
+const MAX_TRANSACTION_HISTORY = 20;
+
+const JOURNALED_COMMANDS = new Set([
+  'CREATE_FRAME', 'CREATE_RECTANGLE', 'CREATE_ELLIPSE', 'CREATE_TEXT', 'CREATE_LINE',
+  'CREATE_NODE_FROM_SVG', 'CREATE_VECTOR', 'CREATE_COMPONENT', 'CREATE_INSTANCE',
+  'COMBINE_AS_VARIANTS', 'ADD_VARIANT_PROPERTY', 'RENAME_VARIANT_PROPERTY', 'SET_VARIANT_PROPERTIES',
+  'ADD_COMPONENT_PROPERTY', 'EDIT_COMPONENT_PROPERTY', 'DELETE_COMPONENT_PROPERTY', 'SET_INSTANCE_PROPERTIES',
+  'SET_BOUND_VARIABLES', 'APPLY_STYLE', 'UPDATE_NODE', 'DELETE_NODE', 'SET_FILLS', 'SET_STROKES', 'SET_EFFECTS',
+  'APPLY_AUTO_LAYOUT', 'GROUP_NODES', 'BOOLEAN_OPERATION', 'FLATTEN_NODES', 'SET_MASK', 'SET_CONSTRAINTS',
+  'CREATE_PAGE', 'MOVE_NODE', 'RESIZE_NODE', 'CLONE_NODE',
+]);
+
+// Params naming nodes a command may change
+const TOUCHED_NODE_FIELDS = ['nodeId', 'nodeIds', 'componentIds', 'componentSetId'];
+
+// Restored in this order, so layout mode precedes padding and fonts precede text
+const SNAPSHOT_PROPERTIES = [
+  'name', 'visible', 'locked', 'opacity', 'blendMode', 'isMask', 'maskType',
+  'layoutMode', 'primaryAxisSizingMode', 'counterAxisSizingMode', 'primaryAxisAlignItems', 'counterAxisAlignItems',
+  'itemSpacing', 'paddingLeft', 'paddingRight', 'paddingTop', 'paddingBottom',
+  'layoutAlign', 'layoutGrow', 'layoutPositioning', 'constraints', 'clipsContent',
+  'x', 'y', 'rotation',
+  'fills', 'strokes', 'strokeWeight', 'strokeAlign', 'dashPattern', 'effects',
+  'cornerRadius', 'topLeftRadius', 'topRightRadius', 'bottomLeftRadius', 'bottomRightRadius',
+  'fontName', 'fontSize', 'characters', 'textAlignHorizontal', 'textAlignVertical', 'textAutoResize',
+  'fillStyleId', 'strokeStyleId', 'effectStyleId', 'textStyleId',
+];
+
+const STYLE_ID_SETTERS: Record<string, string> = {
+  fillStyleId: 'setFillStyleIdAsync',
+  strokeStyleId: 'setStrokeStyleIdAsync',
+  effectStyleId: 'setEffectStyleIdAsync',
+  textStyleId: 'setTextStyleIdAsync',
+};
+
+interface NodeSnapshot {
+  parentId: string | null;
+  index: number;
+  width?: number;
+  height?: number;
+  properties: Record<string, unknown>;
+  boundVariables: Record<string, string>;
+  componentProperties?: Record<string, string | boolean>;
+}
+
+interface Transaction {
+  id: string;
+  sessionId: string; // MCP session that opened it; '' for the stdio client
+  label?: string;
+  depth: number; // Nested begins join the open transaction
+  startedAt: number;
+  created: Set<string>;
+  modified: Map<string, NodeSnapshot>;
+  converted: Map<string, string[]>; // Result node -> pre-existing nodes it replaced
+}
+
+// Several MCP sessions can share this plugin, so each has its own open
+// transaction and never joins or, by default, rolls back another's
+const activeTransactions = new Map<string, Transaction>();
+let transactionCount = 0;
+const transactionHistory: Transaction[] = [];
+
+function snapshotNode(node: SceneNode): NodeSnapshot {
+  const record = node as unknown as Record<string, unknown>;
+  const properties: Record<string, unknown> = {};
+  for (const property of SNAPSHOT_PROPERTIES) {
+    if (property in node && record[property] !== figma.mixed) {
+      properties[property] = record[property];
+    }
+  }
+  
+  const boundVariables: Record<string, string> = {};
+  for (const [field, alias] of Object.entries(('boundVariables' in node && node.boundVariables) || {})) {
+    if (alias && !Array.isArray(alias)) {
+      boundVariables[field] = (alias as VariableAlias).id;
+    }
+  }
+  
+  const parent = node.parent;
+  return {
+    parentId: parent ? parent.id : null,
+    index: parent ? parent.children.indexOf(node) : 0,
+    width: 'resize' in node ? node.width : undefined,
+    height: 'resize' in node ? node.height : undefined,
+    properties,
+    boundVariables,
+    componentProperties: node.type === 'INSTANCE'
+      ? Object.fromEntries(Object.entries(node.componentProperties).map(([name, prop]) => [name, prop.value]))
+      : undefined,
+  };
+}
+
+function journalTouchedNodes(transaction: Transaction, params: Record<string, unknown>) {
+  for (const field of TOUCHED_NODE_FIELDS) {
+    const value = params[field];
+    const ids = Array.isArray(value) ? value : typeof value === 'string' ? [value] : [];
+    for (const id of ids as string[]) {
+      if (transaction.created.has(id) || transaction.modified.has(id)) continue;
+      const node = figma.getNodeById(id);
+      if (node && node.type !== 'DOCUMENT' && node.type !== 'PAGE') {
+        transaction.modified.set(id, snapshotNode(node as SceneNode));
+      }
+    }
+  }
+}
+
+// Nodes a command turns into its result; they no longer exist afterwards
+function consumedNodeIds(command: PluginCommand): string[] {
+  const { nodeId, nodeIds } = command.params as { nodeId?: string; nodeIds?: string[] };
+  if (command.type === 'FLATTEN_NODES') return nodeIds ?? [];
+  if (command.type === 'CREATE_COMPONENT' && nodeId) return [nodeId];
+  return [];
+}
+
+function journalCreatedNode(transaction: Transaction, result: unknown, consumed: string[]) {
+  const { nodeId, page } = (result ?? {}) as { nodeId?: string; page?: { id: string } };
+  const id = nodeId ?? page?.id;
+  if (!id || transaction.modified.has(id)) return;
+  
+  // A result that replaced pre-existing nodes holds the only copy of their
+  // content, so rollback must keep it rather than delete it as a new node
+  const replaced = consumed.filter(source => !transaction.created.has(source));
+  if (replaced.length) {
+    transaction.converted.set(id, replaced);
+  } else {
+    transaction.created.add(id);
+  }
+}
+
+async function restoreSnapshot(node: SceneNode, snapshot: NodeSnapshot) {
+  const parent = snapshot.parentId ? figma.getNodeById(snapshot.parentId) : null;
+  if (parent && 'insertChild' in parent) {
+    const container = parent as BaseNode & ChildrenMixin;
+    if (node.parent !== container || container.children.indexOf(node) !== snapshot.index) {
+      container.insertChild(Math.min(snapshot.index, container.children.length), node);
+    }
+  }
+  
+  if (node.type === 'TEXT') {
+    const fonts = node.characters.length ? node.getRangeAllFontNames(0, node.characters.length) : [];
+    if (snapshot.properties.fontName) fonts.push(snapshot.properties.fontName as FontName);
+    await Promise.all(fonts.map(font => figma.loadFontAsync(font)));
+  }
+  
+  const record = node as unknown as Record<string, unknown>;
+  for (const [property, value] of Object.entries(snapshot.properties)) {
+    if (JSON.stringify(record[property]) === JSON.stringify(value)) continue;
+    const setter = STYLE_ID_SETTERS[property];
+    if (setter) {
+      await (record[setter] as (id: string) => Promise<void>).call(node, value as string);
+    } else {
+      record[property] = value;
+    }
+  }
+  
+  if ('resize' in node && snapshot.width !== undefined && snapshot.height !== undefined
+    && (node.width !== snapshot.width || node.height !== snapshot.height)) {
+    (node as FrameNode).resize(snapshot.width, snapshot.height);
+  }
+  
+  if ('setBoundVariable' in node) {
+    const current = Object.entries(node.boundVariables ?? {}).filter(([, alias]) => alias && !Array.isArray(alias));
+    for (const [field] of current) {
+      if (!(field in snapshot.boundVariables)) {
+        node.setBoundVariable(field as VariableBindableNodeField, null);
+      }
+    }
+    for (const [field, variableId] of Object.entries(snapshot.boundVariables)) {
+      const variable = await figma.variables.getVariableByIdAsync(variableId);
+      if (variable) node.setBoundVariable(field as VariableBindableNodeField, variable);
+    }
+  }
+  
+  if (node.type === 'INSTANCE' && snapshot.componentProperties) {
+    node.setProperties(snapshot.componentProperties);
+  }
+}
+
+function findTransaction(sessionId: string, transactionId?: string): Transaction {
+  if (!transactionId) {
+    const latest = activeTransactions.get(sessionId)
+      ?? [...transactionHistory].reverse().find(t => t.sessionId === sessionId);
+    if (!latest) throw new Error('No transaction of this session to roll back; pass a transactionId');
+    return latest;
+  }
+  
+  const open = [...activeTransactions.values()].find(t => t.id === transactionId);
+  if (open && open.sessionId !== sessionId) {
+    throw new Error(`Transaction ${transactionId} is still open in another session`);
+  }
+  const transaction = open ?? transactionHistory.find(t => t.id === transactionId);
+  if (!transaction) {
+    throw new Error(`Transaction not found: ${transactionId}. Only the last ${MAX_TRANSACTION_HISTORY} transactions of this plugin session can be rolled back`);
+  }
+  return transaction;
+}
+
+interface BeginTransactionParams {
+  label?: string;
+}
+
+async function beginTransaction(params: BeginTransactionParams, sessionId: string) {
+  const open = activeTransactions.get(sessionId);
+  if (open) {
+    open.depth++;
+    return { transactionId: open.id, nested: true };
+  }
+  
+  // Keeps earlier edits out of this transaction's undo step
+  figma.commitUndo();
+  const transaction: Transaction = {
+    id: `txn-${Date.now().toString(36)}-${++transactionCount}`,
+    sessionId,
+    label: params.label,
+    depth: 1,
+    startedAt: Date.now(),
+    created: new Set(),
+    modified: new Map(),
+    converted: new Map(),
+  };
+  activeTransactions.set(sessionId, transaction);
+  return { transactionId: transaction.id, nested: false };
+}
+
+interface CommitTransactionParams {
+  transactionId?: string;
+}
+
+async function commitTransaction(params: CommitTransactionParams, sessionId: string) {
+  const transaction = activeTransactions.get(sessionId);
+  if (!transaction) {
+    throw new Error('No open transaction');
+  }
+  if (params.transactionId && params.transactionId !== transaction.id) {
+    throw new Error(`Transaction ${params.transactionId} is not open; the open transaction is ${transaction.id}`);
+  }
+  
+  transaction.depth--;
+  if (transaction.depth === 0) {
+    activeTransactions.delete(sessionId);
+    transactionHistory.push(transaction);
+    if (transactionHistory.length > MAX_TRANSACTION_HISTORY) {
+      transactionHistory.shift();
+    }
+    figma.commitUndo();
+  }
+  
+  return {
+    transactionId: transaction.id,
+    committed: transaction.depth === 0,
+    created: transaction.created.size,
+    modified: transaction.modified.size,
+  };
+}
+
+interface RollbackTransactionParams {
+  transactionId?: string;
+}
+
+async function rollbackTransaction(params: RollbackTransactionParams, sessionId: string) {
+  const transaction = findTransaction(sessionId, params.transactionId);
+  if (activeTransactions.get(transaction.sessionId) === transaction) {
+    activeTransactions.delete(transaction.sessionId);
+  } else {
+    transactionHistory.splice(transactionHistory.indexOf(transaction), 1);
+  }
+  
+  const restored: string[] = [];
+  const deleted: string[] = [];
+  const skipped: { nodeId: string; reason: string }[] = [];
+  const replacedBy = new Map<string, string>();
+  for (const [resultId, sources] of transaction.converted) {
+    for (const source of sources) replacedBy.set(source, resultId);
+  }
+  
+  // Modified nodes first, so nodes moved into created frames are moved back out
+  for (const [nodeId, snapshot] of [...transaction.modified].reverse()) {
+    const node = figma.getNodeById(nodeId);
+    if (!node || node.removed) {
+      const resultId = replacedBy.get(nodeId);
+      skipped.push({
+        nodeId,
+        reason: resultId
+          ? `Node was converted into ${resultId}, which was kept`
+          : 'Node was deleted or replaced and cannot be restored',
+      });
+      continue;
+    }
+    try {
+      await restoreSnapshot(node as SceneNode, snapshot);
+      restored.push(nodeId);
+    } catch (error) {
+      skipped.push({ nodeId, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  
+  for (const nodeId of [...transaction.created].reverse()) {
+    const node = figma.getNodeById(nodeId);
+    if (!node || node.removed) continue;
+    try {
+      node.remove();
+      deleted.push(nodeId);
+    } catch (error) {
+      skipped.push({ nodeId, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  
+  for (const [nodeId, sources] of transaction.converted) {
+    const node = figma.getNodeById(nodeId);
+    if (!node || node.removed) continue;
+    skipped.push({
+      nodeId,
+      reason: `Kept because it replaced ${sources.join(', ')}; deleting it would lose their content`,
+    });
+  }
+  
+  figma.commitUndo();
+  return { transactionId: transaction.id, label: transaction.label, restored, deleted, skipped };
+}
+
+type PaintTransform = [[number, number, number], [number, number, number]];
+
 interface PaintParam {
-  type: 'SOLID' | 'GRADIENT_LINEAR' | 'GRADIENT_RADIAL' | 'IMAGE';
+  type: 'SOLID' | 'GRADIENT_LINEAR' | 'GRADIENT_RADIAL' | 'GRADIENT_ANGULAR' | 'GRADIENT_DIAMOND' | 'IMAGE';
   color?: { r: number; g: number; b: number; a?: number };
   opacity?: number;
   visible?: boolean;
+  gradientStops?: { position: number; color: { r: number; g: number; b: number; a?: number } }[];
+  gradientAngle?: number;
+  gradientHandlePositions?: { x: number; y: number }[];
+  gradientTransform?: PaintTransform;
+  imageHash?: string;
+  scaleMode?: 'FILL' | 'FIT' | 'CROP' | 'TILE';
+  scalingFactor?: number;
+  imageTransform?: PaintTransform;
+  rotation?: number;
 }
 
 interface EffectParam {
@@ -100,7 +696,10 @@ interface EffectParam {
 
 function convertPaints(paints: PaintParam[]): Paint[] {
   return paints.map(p => {
-    if (p.type === 'SOLID' && p.color) {
+    if (p.type === 'SOLID') {
+      if (!p.color) {
+        throw new Error('SOLID paints need a color');
+      }
       return {
         type: 'SOLID',
         color: { r: p.color.r, g: p.color.g, b: p.color.b },
@@ -108,14 +707,82 @@ function convertPaints(paints: PaintParam[]): Paint[] {
         visible: p.visible ?? true,
       } as SolidPaint;
     }
-    return {
-      type: 'SOLID',
-      color: { r: 0.5, g: 0.5, b: 0.5 },
-      visible: true,
-    } as SolidPaint;
+    
+    if (p.type.startsWith('GRADIENT_')) {
+      if (!p.gradientStops || p.gradientStops.length < 2) {
+        throw new Error(`${p.type} paints need at least two gradientStops`);
+      }
+      return {
+        type: p.type,
+        gradientTransform: getGradientTransform(p),
+        gradientStops: p.gradientStops.map(stop => ({
+          position: stop.position,
+          color: { r: stop.color.r, g: stop.color.g, b: stop.color.b, a: stop.color.a ?? 1 },
+        })),
+        opacity: p.opacity ?? 1,
+        visible: p.visible ?? true,
+      } as GradientPaint;
+    }
+    
+    if (p.type === 'IMAGE') {
+      if (!p.imageHash) {
+        throw new Error('IMAGE paints need an imageUrl or imageHash');
+      }
+      const scaleMode = p.scaleMode ?? 'FILL';
+      return {
+        type: 'IMAGE',
+        imageHash: p.imageHash,
+        scaleMode,
+        ...(scaleMode === 'TILE' && p.scalingFactor !== undefined ? { scalingFactor: p.scalingFactor } : {}),
+        ...(scaleMode === 'CROP' && p.imageTransform ? { imageTransform: p.imageTransform } : {}),
+        ...(p.rotation !== undefined ? { rotation: p.rotation } : {}),
+        opacity: p.opacity ?? 1,
+        visible: p.visible ?? true,
+      } as ImagePaint;
+    }
+    
+    throw new Error(`Unsupported paint type: ${p.type}`);
   });
 }
 
+// Gradient transforms map the node's unit square onto gradient space, where linear
+// gradients run from (0, 0.5) to (1, 0.5) and the others are centered on (0.5, 0.5)
+function getGradientTransform(p: PaintParam): Transform {
+  if (p.gradientTransform) {
+    return p.gradientTransform;
+  }
+  
+  const handles = p.gradientHandlePositions;
+  if (handles && handles.length >= 3) {
+    const [start, end, width] = handles;
+    const linear = p.type === 'GRADIENT_LINEAR';
+    // Affine map from gradient space to node space, built from the three handles
+    const a = linear ? end.x - start.x : 2 * (end.x - start.x);
+    const b = 2 * (width.x - start.x);
+    const c = linear ? start.x - b / 2 : start.x - a / 2 - b / 2;
+    const d = linear ? end.y - start.y : 2 * (end.y - start.y);
+    const e = 2 * (width.y - start.y);
+    const f = linear ? start.y - e / 2 : start.y - d / 2 - e / 2;
+    const det = a * e - b * d;
+    if (det === 0) {
+      throw new Error('gradientHandlePositions must not be collinear');
+    }
+    return [
+      [e / det, -b / det, (b * f - e * c) / det],
+      [-d / det, a / det, (d * c - a * f) / det],
+    ];
+  }
+  
+  // Rotate around the center; 0deg runs left to right, 90deg top to bottom
+  const radians = ((p.gradientAngle ?? 0) * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return [
+    [cos, sin, 0.5 - 0.5 * cos - 0.5 * sin],
+    [-sin, cos, 0.5 + 0.5 * sin - 0.5 * cos],
+  ];
+}
+
 function convertEffects(effects: EffectParam[]): Effect[] {
   return effects.map(e => {
     const color = e.color 
@@ -168,22 +835,30 @@ interface CreateFrameParams {
   y?: number;
   parentId?: string;
   fills?: PaintParam[];
+  boundVariables?: VariableBindings;
 }
 
 async function createFrame(params: CreateFrameParams) {
+  // Validated before the node exists, so a bad fill or parent leaves nothing behind
+  const fills = params.fills && convertPaints(params.fills);
+  const parent = getParent(params.parentId);
+  
   const frame = figma.createFrame();
   frame.name = params.name;
   frame.resize(params.width, params.height);
   frame.x = params.x ?? 0;
   frame.y = params.y ?? 0;
   
-  if (params.fills) {
-    frame.fills = convertPaints(params.fills);
+  if (fills) {
+    frame.fills = fills;
   }
   
-  const parent = getParent(params.parentId);
   parent.appendChild(frame);
   
+  if (params.boundVariables) {
+    await applyVariableBindings(frame, params.boundVariables);
+  }
+  
   return { nodeId: frame.id };
 }
 
@@ -196,26 +871,33 @@ interface CreateRectangleParams {
   parentId?: string;
   fills?: PaintParam[];
   cornerRadius?: number;
+  boundVariables?: VariableBindings;
 }
 
 async function createRectangle(params: CreateRectangleParams) {
+  const fills = params.fills && convertPaints(params.fills);
+  const parent = getParent(params.parentId);
+  
   const rect = figma.createRectangle();
   if (params.name) rect.name = params.name;
   rect.resize(params.width, params.height);
   rect.x = params.x ?? 0;
   rect.y = params.y ?? 0;
   
-  if (params.fills) {
-    rect.fills = convertPaints(params.fills);
+  if (fills) {
+    rect.fills = fills;
   }
   
   if (params.cornerRadius !== undefined) {
     rect.cornerRadius = params.cornerRadius;
   }
   
-  const parent = getParent(params.parentId);
   parent.appendChild(rect);
   
+  if (params.boundVariables) {
+    await applyVariableBindings(rect, params.boundVariables);
+  }
+  
   return { nodeId: rect.id };
 }
 
@@ -230,17 +912,19 @@ interface CreateEllipseParams {
 }
 
 async function createEllipse(params: CreateEllipseParams) {
+  const fills = params.fills && convertPaints(params.fills);
+  const parent = getParent(params.parentId);
+  
   const ellipse = figma.createEllipse();
   if (params.name) ellipse.name = params.name;
   ellipse.resize(params.width, params.height);
   ellipse.x = params.x ?? 0;
   ellipse.y = params.y ?? 0;
   
-  if (params.fills) {
-    ellipse.fills = convertPaints(params.fills);
+  if (fills) {
+    ellipse.fills = fills;
   }
   
-  const parent = getParent(params.parentId);
   parent.appendChild(ellipse);
   
   return { nodeId: ellipse.id };
@@ -248,6 +932,7 @@ async function createEllipse(params: CreateEllipseParams) {
 
 interface CreateTextParams {
   characters: string;
+  name?: string;
   x?: number;
   y?: number;
   parentId?: string;
@@ -259,9 +944,13 @@ interface CreateTextParams {
   textAlignVertical?: 'TOP' | 'CENTER' | 'BOTTOM';
   width?: number;
   height?: number;
+  boundVariables?: VariableBindings;
 }
 
 async function createText(params: CreateTextParams) {
+  const fills = params.fills && convertPaints(params.fills);
+  const parent = getParent(params.parentId);
+  
   const text = figma.createText();
   text.x = params.x ?? 0;
   text.y = params.y ?? 0;
@@ -276,13 +965,14 @@ async function createText(params: CreateTextParams) {
   });
   
   text.characters = params.characters;
+  if (params.name) text.name = params.name;
   
   if (params.fontSize) {
     text.fontSize = params.fontSize;
   }
   
-  if (params.fills) {
-    text.fills = convertPaints(params.fills);
+  if (fills) {
+    text.fills = fills;
   }
   
   if (params.textAlignHorizontal) {
@@ -298,9 +988,12 @@ async function createText(params: CreateTextParams) {
     text.textAutoResize = 'HEIGHT';
   }
   
-  const parent = getParent(params.parentId);
   parent.appendChild(text);
   
+  if (params.boundVariables) {
+    await applyVariableBindings(text, params.boundVariables);
+  }
+  
   return { nodeId: text.id };
 }
 
@@ -316,95 +1009,452 @@ interface CreateLineParams {
 }
 
 async function createLine(params: CreateLineParams) {
+  const strokes = params.strokes && convertPaints(params.strokes);
+  const parent = getParent(params.parentId);
+  
   const line = figma.createLine();
   if (params.name) line.name = params.name;
   
+  const dx = params.x2 - params.x1;
+  const dy = params.y2 - params.y1;
+  
   line.x = params.x1;
   line.y = params.y1;
-  line.resize(Math.abs(params.x2 - params.x1), 0);
-  line.rotation = Math.atan2(params.y2 - params.y1, params.x2 - params.x1) * (180 / Math.PI);
+  line.resize(Math.max(Math.hypot(dx, dy), 0.01), 0);
+  // Figma rotates counter-clockwise while canvas y points down
+  line.rotation = -Math.atan2(dy, dx) * (180 / Math.PI);
   
-  if (params.strokes) {
-    line.strokes = convertPaints(params.strokes);
+  if (strokes) {
+    line.strokes = strokes;
   }
   
   if (params.strokeWeight !== undefined) {
     line.strokeWeight = params.strokeWeight;
   }
   
-  const parent = getParent(params.parentId);
   parent.appendChild(line);
   
   return { nodeId: line.id };
 }
 
-interface UpdateNodeParams {
-  nodeId: string;
-  properties: {
-    name?: string;
-    visible?: boolean;
-    locked?: boolean;
-    opacity?: number;
-    x?: number;
-    y?: number;
-    width?: number;
-    height?: number;
-    rotation?: number;
-    cornerRadius?: number;
-    characters?: string;
-    fontSize?: number;
-    fontFamily?: string;
-    fontWeight?: number;
-    textAlignHorizontal?: 'LEFT' | 'CENTER' | 'RIGHT' | 'JUSTIFIED';
-    textAlignVertical?: 'TOP' | 'CENTER' | 'BOTTOM';
-  };
+interface CreateComponentParams {
+  name: string;
+  nodeId?: string;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  parentId?: string;
+  fills?: PaintParam[];
+  description?: string;
+  variantProperties?: Record<string, string>;
 }
 
-async function updateNode(params: UpdateNodeParams) {
-  const node = findNodeById(params.nodeId);
-  const props = params.properties;
-  
-  if (props.name !== undefined) node.name = props.name;
-  if (props.visible !== undefined) node.visible = props.visible;
-  if (props.locked !== undefined) node.locked = props.locked;
+async function createComponent(params: CreateComponentParams) {
+  const fills = params.fills && convertPaints(params.fills);
+  let component: ComponentNode;
   
-  if ('opacity' in node && props.opacity !== undefined) {
-    (node as FrameNode).opacity = props.opacity;
+  if (params.nodeId) {
+    const node = findNodeById(params.nodeId);
+    if (node.type === 'COMPONENT' || node.type === 'COMPONENT_SET' || node.type === 'INSTANCE') {
+      throw new Error(`Node ${params.nodeId} is already a ${node.type.toLowerCase()}`);
+    }
+    component = figma.createComponentFromNode(node);
+  } else {
+    const parent = getParent(params.parentId);
+    component = figma.createComponent();
+    component.resize(params.width ?? 100, params.height ?? 100);
+    parent.appendChild(component);
   }
   
-  if (props.x !== undefined) node.x = props.x;
-  if (props.y !== undefined) node.y = props.y;
+  component.name = params.variantProperties
+    ? formatVariantName(params.variantProperties)
+    : params.name;
+  if (params.x !== undefined) component.x = params.x;
+  if (params.y !== undefined) component.y = params.y;
   
-  if (props.width !== undefined && props.height !== undefined && 'resize' in node) {
-    (node as FrameNode).resize(props.width, props.height);
-  } else if (props.width !== undefined && 'resize' in node) {
-    (node as FrameNode).resize(props.width, (node as FrameNode).height);
-  } else if (props.height !== undefined && 'resize' in node) {
-    (node as FrameNode).resize((node as FrameNode).width, props.height);
+  if (params.nodeId && (params.width !== undefined || params.height !== undefined)) {
+    component.resize(params.width ?? component.width, params.height ?? component.height);
   }
   
-  if (props.rotation !== undefined && 'rotation' in node) {
-    (node as FrameNode).rotation = props.rotation;
+  if (fills) {
+    component.fills = fills;
   }
   
-  if (props.cornerRadius !== undefined && 'cornerRadius' in node) {
-    (node as RectangleNode).cornerRadius = props.cornerRadius;
+  if (params.description !== undefined) {
+    component.description = params.description;
   }
   
-  if (node.type === 'TEXT') {
-    const textNode = node as TextNode;
-    
-    if (props.characters !== undefined || props.fontSize !== undefined || props.fontFamily !== undefined) {
-      const fontFamily = props.fontFamily || 'Inter';
-      const fontWeight = props.fontWeight || 400;
-      const fontStyle = fontWeight >= 700 ? 'Bold' : fontWeight >= 500 ? 'Medium' : 'Regular';
-      
-      await figma.loadFontAsync({ family: fontFamily, style: fontStyle }).catch(() => {
-        return figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
-      });
-      
-      if (props.characters !== undefined) textNode.characters = props.characters;
-      if (props.fontSize !== undefined) textNode.fontSize = props.fontSize;
+  return { nodeId: component.id, key: component.key };
+}
+
+interface CreateInstanceParams {
+  componentId?: string;
+  componentKey?: string;
+  name?: string;
+  x?: number;
+  y?: number;
+  parentId?: string;
+}
+
+async function createInstance(params: CreateInstanceParams) {
+  let component: ComponentNode;
+  
+  if (params.componentId) {
+    const node = figma.getNodeById(params.componentId);
+    if (!node || node.type !== 'COMPONENT') {
+      throw new Error(`Component not found: ${params.componentId}`);
+    }
+    component = node as ComponentNode;
+  } else if (params.componentKey) {
+    component = await figma.importComponentByKeyAsync(params.componentKey);
+  } else {
+    throw new Error('Either componentId or componentKey is required');
+  }
+  
+  const parent = getParent(params.parentId);
+  const instance = component.createInstance();
+  if (params.name) instance.name = params.name;
+  instance.x = params.x ?? 0;
+  instance.y = params.y ?? 0;
+  
+  parent.appendChild(instance);
+  
+  return { nodeId: instance.id, componentId: component.id };
+}
+
+function formatVariantName(properties: Record<string, string>): string {
+  return Object.entries(properties)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(', ');
+}
+
+function findComponentSet(id: string): ComponentSetNode {
+  const node = findNodeById(id);
+  if (node.type !== 'COMPONENT_SET') {
+    throw new Error(`Node ${id} is not a component set, got ${node.type}`);
+  }
+  return node as ComponentSetNode;
+}
+
+function getVariantGroups(componentSet: ComponentSetNode): Record<string, string[]> {
+  const groups: Record<string, string[]> = {};
+  for (const [name, definition] of Object.entries(componentSet.componentPropertyDefinitions)) {
+    if (definition.type === 'VARIANT') {
+      groups[name] = definition.variantOptions ?? [];
+    }
+  }
+  return groups;
+}
+
+interface CombineAsVariantsParams {
+  componentIds: string[];
+  name?: string;
+  parentId?: string;
+}
+
+async function combineAsVariants(params: CombineAsVariantsParams) {
+  if (params.componentIds.length === 0) {
+    throw new Error('At least one component is required');
+  }
+  
+  const components = params.componentIds.map(id => {
+    const node = findNodeById(id);
+    if (node.type !== 'COMPONENT') {
+      throw new Error(`Node ${id} is not a component, got ${node.type}`);
+    }
+    return node as ComponentNode;
+  });
+  
+  const parent = params.parentId
+    ? getParent(params.parentId)
+    : (components[0].parent as BaseNode & ChildrenMixin | null) ?? figma.currentPage;
+  
+  const componentSet = figma.combineAsVariants(components, parent);
+  if (params.name) componentSet.name = params.name;
+  
+  return {
+    nodeId: componentSet.id,
+    key: componentSet.key,
+    variantGroups: getVariantGroups(componentSet),
+  };
+}
+
+interface AddVariantPropertyParams {
+  componentSetId: string;
+  name: string;
+  defaultValue: string;
+}
+
+async function addVariantProperty(params: AddVariantPropertyParams) {
+  const componentSet = findComponentSet(params.componentSetId);
+  componentSet.addComponentProperty(params.name, 'VARIANT', params.defaultValue);
+  return {
+    nodeId: componentSet.id,
+    variantGroups: getVariantGroups(componentSet),
+  };
+}
+
+interface RenameVariantPropertyParams {
+  componentSetId: string;
+  name: string;
+  newName: string;
+}
+
+async function renameVariantProperty(params: RenameVariantPropertyParams) {
+  const componentSet = findComponentSet(params.componentSetId);
+  const definition = componentSet.componentPropertyDefinitions[params.name];
+  if (!definition || definition.type !== 'VARIANT') {
+    throw new Error(`Variant property not found: ${params.name}`);
+  }
+  componentSet.editComponentProperty(params.name, { name: params.newName });
+  return {
+    nodeId: componentSet.id,
+    variantGroups: getVariantGroups(componentSet),
+  };
+}
+
+interface SetVariantPropertiesParams {
+  nodeId: string;
+  properties: Record<string, string>;
+}
+
+async function setVariantProperties(params: SetVariantPropertiesParams) {
+  const node = findNodeById(params.nodeId);
+  
+  if (node.type === 'INSTANCE') {
+    const instance = node as InstanceNode;
+    instance.setProperties(params.properties);
+    return {
+      nodeId: instance.id,
+      variantProperties: instance.variantProperties ?? {},
+    };
+  }
+  
+  if (node.type === 'COMPONENT' && node.parent?.type === 'COMPONENT_SET') {
+    const component = node as ComponentNode;
+    component.name = formatVariantName({
+      ...(component.variantProperties ?? {}),
+      ...params.properties,
+    });
+    return {
+      nodeId: component.id,
+      variantProperties: component.variantProperties ?? {},
+    };
+  }
+  
+  throw new Error(`Node ${params.nodeId} must be an instance or a variant inside a component set, got ${node.type}`);
+}
+
+function findComponentOrSet(id: string): ComponentNode | ComponentSetNode {
+  const node = findNodeById(id);
+  if (node.type === 'COMPONENT' && node.parent?.type === 'COMPONENT_SET') {
+    return node.parent as ComponentSetNode;
+  }
+  if (node.type !== 'COMPONENT' && node.type !== 'COMPONENT_SET') {
+    throw new Error(`Node ${id} is not a component or component set, got ${node.type}`);
+  }
+  return node as ComponentNode | ComponentSetNode;
+}
+
+const PROPERTY_REFERENCE_FIELDS: Record<string, 'visible' | 'characters' | 'mainComponent'> = {
+  BOOLEAN: 'visible',
+  TEXT: 'characters',
+  INSTANCE_SWAP: 'mainComponent',
+};
+
+interface AddComponentPropertyParams {
+  nodeId: string;
+  name: string;
+  type: 'BOOLEAN' | 'TEXT' | 'INSTANCE_SWAP' | 'VARIANT';
+  defaultValue: string | boolean;
+  preferredValues?: { type: 'COMPONENT' | 'COMPONENT_SET'; key: string }[];
+  linkedNodeIds?: string[];
+}
+
+async function addComponentProperty(params: AddComponentPropertyParams) {
+  const component = findComponentOrSet(params.nodeId);
+  const propertyName = component.addComponentProperty(
+    params.name,
+    params.type,
+    params.defaultValue,
+    params.preferredValues ? { preferredValues: params.preferredValues } : undefined
+  );
+  
+  if (params.linkedNodeIds?.length) {
+    const field = PROPERTY_REFERENCE_FIELDS[params.type];
+    if (!field) {
+      throw new Error(`${params.type} properties cannot be linked to layers`);
+    }
+    for (const id of params.linkedNodeIds) {
+      const layer = findNodeById(id);
+      layer.componentPropertyReferences = {
+        ...(layer.componentPropertyReferences ?? {}),
+        [field]: propertyName,
+      };
+    }
+  }
+  
+  return {
+    nodeId: component.id,
+    propertyName,
+    definitions: component.componentPropertyDefinitions,
+  };
+}
+
+interface EditComponentPropertyParams {
+  nodeId: string;
+  propertyName: string;
+  name?: string;
+  defaultValue?: string | boolean;
+  preferredValues?: { type: 'COMPONENT' | 'COMPONENT_SET'; key: string }[];
+}
+
+async function editComponentProperty(params: EditComponentPropertyParams) {
+  const component = findComponentOrSet(params.nodeId);
+  const propertyName = component.editComponentProperty(params.propertyName, {
+    name: params.name,
+    defaultValue: params.defaultValue,
+    preferredValues: params.preferredValues,
+  });
+  return {
+    nodeId: component.id,
+    propertyName,
+    definitions: component.componentPropertyDefinitions,
+  };
+}
+
+interface DeleteComponentPropertyParams {
+  nodeId: string;
+  propertyName: string;
+}
+
+async function deleteComponentProperty(params: DeleteComponentPropertyParams) {
+  const component = findComponentOrSet(params.nodeId);
+  component.deleteComponentProperty(params.propertyName);
+  return {
+    nodeId: component.id,
+    definitions: component.componentPropertyDefinitions,
+  };
+}
+
+interface SetInstancePropertiesParams {
+  nodeId: string;
+  properties: Record<string, string | boolean>;
+}
+
+async function setInstanceProperties(params: SetInstancePropertiesParams) {
+  const node = findNodeById(params.nodeId);
+  if (node.type !== 'INSTANCE') {
+    throw new Error(`Node ${params.nodeId} is not an instance, got ${node.type}`);
+  }
+  const instance = node as InstanceNode;
+  
+  const definitions = instance.componentProperties;
+  const resolved: Record<string, string | boolean> = {};
+  for (const [name, value] of Object.entries(params.properties)) {
+    // Accept bare names ("Label") for properties Figma suffixes with an ID ("Label#12:0")
+    const match = name in definitions
+      ? name
+      : Object.keys(definitions).find(key => key.split('#')[0] === name);
+    if (!match) {
+      throw new Error(`Component property not found on instance: ${name}`);
+    }
+    resolved[match] = value;
+  }
+  
+  instance.setProperties(resolved);
+  return {
+    nodeId: instance.id,
+    properties: serializeComponentProperties(instance.componentProperties),
+  };
+}
+
+function serializeComponentProperties(properties: ComponentProperties) {
+  const result: Record<string, { type: ComponentPropertyType; value: string | boolean }> = {};
+  for (const [name, property] of Object.entries(properties)) {
+    result[name] = { type: property.type, value: property.value };
+  }
+  return result;
+}
+
+function describeComponentProperties(node: SceneNode) {
+  if (node.type === 'INSTANCE') {
+    return { componentProperties: serializeComponentProperties((node as InstanceNode).componentProperties) };
+  }
+  if (node.type === 'COMPONENT_SET' || (node.type === 'COMPONENT' && node.parent?.type !== 'COMPONENT_SET')) {
+    return { componentPropertyDefinitions: (node as ComponentNode | ComponentSetNode).componentPropertyDefinitions };
+  }
+  return {};
+}
+
+interface UpdateNodeParams {
+  nodeId: string;
+  properties: {
+    name?: string;
+    visible?: boolean;
+    locked?: boolean;
+    opacity?: number;
+    x?: number;
+    y?: number;
+    width?: number;
+    height?: number;
+    rotation?: number;
+    cornerRadius?: number;
+    characters?: string;
+    fontSize?: number;
+    fontFamily?: string;
+    fontWeight?: number;
+    textAlignHorizontal?: 'LEFT' | 'CENTER' | 'RIGHT' | 'JUSTIFIED';
+    textAlignVertical?: 'TOP' | 'CENTER' | 'BOTTOM';
+  };
+}
+
+async function updateNode(params: UpdateNodeParams) {
+  const node = findNodeById(params.nodeId);
+  const props = params.properties;
+  
+  if (props.name !== undefined) node.name = props.name;
+  if (props.visible !== undefined) node.visible = props.visible;
+  if (props.locked !== undefined) node.locked = props.locked;
+  
+  if ('opacity' in node && props.opacity !== undefined) {
+    (node as FrameNode).opacity = props.opacity;
+  }
+  
+  if (props.x !== undefined) node.x = props.x;
+  if (props.y !== undefined) node.y = props.y;
+  
+  if (props.width !== undefined && props.height !== undefined && 'resize' in node) {
+    (node as FrameNode).resize(props.width, props.height);
+  } else if (props.width !== undefined && 'resize' in node) {
+    (node as FrameNode).resize(props.width, (node as FrameNode).height);
+  } else if (props.height !== undefined && 'resize' in node) {
+    (node as FrameNode).resize((node as FrameNode).width, props.height);
+  }
+  
+  if (props.rotation !== undefined && 'rotation' in node) {
+    (node as FrameNode).rotation = props.rotation;
+  }
+  
+  if (props.cornerRadius !== undefined && 'cornerRadius' in node) {
+    (node as RectangleNode).cornerRadius = props.cornerRadius;
+  }
+  
+  if (node.type === 'TEXT') {
+    const textNode = node as TextNode;
+    
+    if (props.characters !== undefined || props.fontSize !== undefined || props.fontFamily !== undefined) {
+      const fontFamily = props.fontFamily || 'Inter';
+      const fontWeight = props.fontWeight || 400;
+      const fontStyle = fontWeight >= 700 ? 'Bold' : fontWeight >= 500 ? 'Medium' : 'Regular';
+      
+      await figma.loadFontAsync({ family: fontFamily, style: fontStyle }).catch(() => {
+        return figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
+      });
+      
+      if (props.characters !== undefined) textNode.characters = props.characters;
+      if (props.fontSize !== undefined) textNode.fontSize = props.fontSize;
     }
     
     if (props.textAlignHorizontal !== undefined) textNode.textAlignHorizontal = props.textAlignHorizontal;
@@ -483,6 +1533,7 @@ interface ApplyAutoLayoutParams {
   counterAxisSizing?: 'FIXED' | 'AUTO';
   primaryAxisAlign?: 'MIN' | 'CENTER' | 'MAX' | 'SPACE_BETWEEN';
   counterAxisAlign?: 'MIN' | 'CENTER' | 'MAX' | 'BASELINE';
+  boundVariables?: VariableBindings;
 }
 
 async function applyAutoLayout(params: ApplyAutoLayoutParams) {
@@ -504,6 +1555,10 @@ async function applyAutoLayout(params: ApplyAutoLayoutParams) {
   if (params.primaryAxisAlign !== undefined) frame.primaryAxisAlignItems = params.primaryAxisAlign;
   if (params.counterAxisAlign !== undefined) frame.counterAxisAlignItems = params.counterAxisAlign;
   
+  if (params.boundVariables) {
+    await applyVariableBindings(frame, params.boundVariables);
+  }
+  
   return { nodeId: frame.id };
 }
 
@@ -519,15 +1574,130 @@ async function groupNodes(params: GroupNodesParams) {
   return { nodeId: group.id };
 }
 
+// Boolean results and flattened vectors stay where the first node was unless a parent is given
+function getOperationParent(nodes: SceneNode[], parentId?: string): BaseNode & ChildrenMixin {
+  if (parentId) {
+    return getParent(parentId);
+  }
+  const parent = nodes[0].parent;
+  if (!parent || !('appendChild' in parent)) {
+    return figma.currentPage;
+  }
+  return parent as BaseNode & ChildrenMixin;
+}
+
+interface BooleanOperationParams {
+  operation: 'UNION' | 'SUBTRACT' | 'INTERSECT' | 'EXCLUDE';
+  nodeIds: string[];
+  name?: string;
+  parentId?: string;
+}
+
+async function booleanOperation(params: BooleanOperationParams) {
+  if (params.nodeIds.length < 2) {
+    throw new Error('Boolean operations need at least two nodes');
+  }
+  
+  const nodes = params.nodeIds.map(id => findNodeById(id));
+  const parent = getOperationParent(nodes, params.parentId);
+  
+  let result: BooleanOperationNode;
+  switch (params.operation) {
+    case 'UNION':
+      result = figma.union(nodes, parent);
+      break;
+    case 'SUBTRACT':
+      result = figma.subtract(nodes, parent);
+      break;
+    case 'INTERSECT':
+      result = figma.intersect(nodes, parent);
+      break;
+    case 'EXCLUDE':
+      result = figma.exclude(nodes, parent);
+      break;
+    default:
+      throw new Error(`Unknown boolean operation: ${params.operation}`);
+  }
+  
+  if (params.name) result.name = params.name;
+  return { nodeId: result.id };
+}
+
+interface FlattenNodesParams {
+  nodeIds: string[];
+  name?: string;
+  parentId?: string;
+}
+
+async function flattenNodes(params: FlattenNodesParams) {
+  const nodes = params.nodeIds.map(id => findNodeById(id));
+  if (nodes.length === 0) {
+    throw new Error('Flatten needs at least one node');
+  }
+  
+  const vector = figma.flatten(nodes, getOperationParent(nodes, params.parentId));
+  if (params.name) vector.name = params.name;
+  return { nodeId: vector.id };
+}
+
+interface SetMaskParams {
+  nodeId: string;
+  isMask: boolean;
+  maskType?: 'ALPHA' | 'VECTOR' | 'LUMINANCE';
+}
+
+async function setMask(params: SetMaskParams) {
+  const node = findNodeById(params.nodeId);
+  if (!('isMask' in node)) {
+    throw new Error(`Node ${node.type} cannot be used as a mask`);
+  }
+  
+  node.isMask = params.isMask;
+  if (params.maskType) node.maskType = params.maskType;
+  
+  return { nodeId: node.id, isMask: node.isMask, maskType: node.maskType };
+}
+
 async function getSelection() {
   const selection = figma.currentPage.selection.map(node => ({
     id: node.id,
     name: node.name,
     type: node.type,
+    ...describeComponentProperties(node),
   }));
   return { selection };
 }
 
+interface SetConstraintsParams {
+  nodeId: string;
+  horizontal: 'LEFT' | 'RIGHT' | 'CENTER' | 'LEFT_RIGHT' | 'SCALE';
+  vertical: 'TOP' | 'BOTTOM' | 'CENTER' | 'TOP_BOTTOM' | 'SCALE';
+}
+
+const CONSTRAINT_TYPES: Record<string, ConstraintType> = {
+  LEFT: 'MIN',
+  TOP: 'MIN',
+  RIGHT: 'MAX',
+  BOTTOM: 'MAX',
+  CENTER: 'CENTER',
+  LEFT_RIGHT: 'STRETCH',
+  TOP_BOTTOM: 'STRETCH',
+  SCALE: 'SCALE',
+};
+
+async function setConstraints(params: SetConstraintsParams) {
+  const node = findNodeById(params.nodeId);
+  if (!('constraints' in node)) {
+    throw new Error(`Node ${params.nodeId} does not support constraints`);
+  }
+  
+  node.constraints = {
+    horizontal: CONSTRAINT_TYPES[params.horizontal],
+    vertical: CONSTRAINT_TYPES[params.vertical],
+  };
+  return { nodeId: node.id };
+}
+
 interface SetSelectionParams {
   nodeIds: string[];
 }
@@ -603,3 +1773,911 @@ async function cloneNode(params: CloneNodeParams) {
   if (params.y !== undefined) clone.y = params.y;
   return { nodeId: clone.id };
 }
+
+const DEFAULT_NODE_PROPERTIES = [
+  'visible', 'x', 'y', 'width', 'height', 'fills', 'strokes', 'effects',
+  'cornerRadius', 'layoutMode', 'characters', 'fontSize', 'fontName',
+];
+
+const MAX_SERIALIZED_NODES = 2000;
+
+interface SerializeOptions {
+  depth: number;
+  properties: string[];
+  budget: { remaining: number; truncated: boolean };
+}
+
+// Figma returns figma.mixed for properties that vary within a node, e.g. text ranges
+function serializeValue(value: unknown): unknown {
+  return value === figma.mixed ? 'MIXED' : value;
+}
+
+function serializeNode(node: BaseNode, depth: number, options: SerializeOptions): Record<string, unknown> {
+  options.budget.remaining--;
+  const result: Record<string, unknown> = { id: node.id, name: node.name, type: node.type };
+  
+  for (const property of options.properties) {
+    if (property === 'mainComponentId') {
+      if (node.type === 'INSTANCE') result.mainComponentId = (node as InstanceNode).mainComponent?.id ?? null;
+      continue;
+    }
+    if (!(property in node)) continue;
+    try {
+      result[property] = serializeValue((node as unknown as Record<string, unknown>)[property]);
+    } catch {
+      // Some getters throw for certain node kinds, e.g. definitions on variants
+    }
+  }
+  
+  if ('children' in node) {
+    const children = (node as BaseNode & ChildrenMixin).children;
+    result.childCount = children.length;
+    if (depth < options.depth) {
+      const serialized: Record<string, unknown>[] = [];
+      for (const child of children) {
+        if (options.budget.remaining <= 0) {
+          options.budget.truncated = true;
+          break;
+        }
+        serialized.push(serializeNode(child, depth + 1, options));
+      }
+      result.children = serialized;
+    }
+  }
+  
+  return result;
+}
+
+function serializeOptions(depth?: number, properties?: string[]): SerializeOptions {
+  return {
+    depth: depth ?? 1,
+    properties: properties ?? DEFAULT_NODE_PROPERTIES,
+    budget: { remaining: MAX_SERIALIZED_NODES, truncated: false },
+  };
+}
+
+interface GetNodeParams {
+  nodeId: string;
+  depth?: number;
+  properties?: string[];
+}
+
+async function getNode(params: GetNodeParams) {
+  const node = findNodeById(params.nodeId);
+  const options = serializeOptions(params.depth, params.properties);
+  const result = serializeNode(node, 0, options);
+  result.parentId = node.parent?.id ?? null;
+  return { node: result, truncated: options.budget.truncated };
+}
+
+interface GetPageTreeParams {
+  pageId?: string;
+  depth?: number;
+  properties?: string[];
+}
+
+async function getPageTree(params: GetPageTreeParams) {
+  let page = figma.currentPage;
+  if (params.pageId) {
+    const node = figma.getNodeById(params.pageId);
+    if (!node || node.type !== 'PAGE') {
+      throw new Error(`Page not found: ${params.pageId}`);
+    }
+    page = node as PageNode;
+    await page.loadAsync();
+  }
+  
+  const options = serializeOptions(params.depth, params.properties);
+  return { page: serializeNode(page, 0, options), truncated: options.budget.truncated };
+}
+
+interface FindNodesParams {
+  types?: NodeType[];
+  name?: string;
+  nameRegex?: string;
+  componentId?: string;
+  componentKey?: string;
+  styleId?: string;
+  variable?: string;
+  pluginDataKey?: string;
+  pluginDataValue?: string;
+  ancestorId?: string;
+  ancestorName?: string;
+  allPages?: boolean;
+  offset?: number;
+  limit?: number;
+}
+
+const STYLE_ID_FIELDS = ['fillStyleId', 'strokeStyleId', 'effectStyleId', 'textStyleId', 'gridStyleId'];
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function collectBoundVariableIds(value: unknown, ids: Set<string>) {
+  if (Array.isArray(value)) {
+    for (const item of value) collectBoundVariableIds(item, ids);
+  } else if (value && typeof value === 'object') {
+    const alias = value as { type?: string; id?: string };
+    if (alias.type === 'VARIABLE_ALIAS' && alias.id) {
+      ids.add(alias.id);
+      return;
+    }
+    for (const item of Object.values(value)) collectBoundVariableIds(item, ids);
+  }
+}
+
+function hasAncestor(node: BaseNode, predicate: (ancestor: BaseNode) => boolean): boolean {
+  for (let parent = node.parent; parent && parent.type !== 'DOCUMENT'; parent = parent.parent) {
+    if (predicate(parent)) return true;
+  }
+  return false;
+}
+
+function summarizeNode(node: SceneNode) {
+  const summary: Record<string, unknown> = {
+    id: node.id,
+    name: node.name,
+    type: node.type,
+    parentId: node.parent?.id ?? null,
+    x: node.x,
+    y: node.y,
+    width: node.width,
+    height: node.height,
+  };
+  if (node.type === 'TEXT') {
+    summary.characters = node.characters.length > 80 ? `${node.characters.substring(0, 77)}...` : node.characters;
+  }
+  if (node.type === 'INSTANCE') {
+    summary.mainComponentId = node.mainComponent?.id ?? null;
+  }
+  return summary;
+}
+
+async function findNodes(params: FindNodesParams) {
+  let roots: (BaseNode & ChildrenMixin)[] = [figma.currentPage];
+  if (params.ancestorId) {
+    const ancestor = figma.getNodeById(params.ancestorId);
+    if (!ancestor || !('findAll' in ancestor)) {
+      throw new Error(`Invalid ancestor: ${params.ancestorId}`);
+    }
+    roots = [ancestor as BaseNode & ChildrenMixin];
+  } else if (params.allPages) {
+    await figma.loadAllPagesAsync();
+    roots = [...figma.root.children];
+  }
+  
+  const criteria: FindAllCriteria<NodeType[]> = {};
+  if (params.types?.length) criteria.types = params.types;
+  if (params.pluginDataKey) criteria.pluginData = { keys: [params.pluginDataKey] };
+  const useCriteria = Object.keys(criteria).length > 0;
+  
+  const filters: ((node: SceneNode) => boolean)[] = [];
+  if (params.name) {
+    const pattern = globToRegExp(params.name);
+    filters.push(node => pattern.test(node.name));
+  }
+  if (params.nameRegex) {
+    const pattern = new RegExp(params.nameRegex);
+    filters.push(node => pattern.test(node.name));
+  }
+  if (params.componentId || params.componentKey) {
+    filters.push(node => {
+      if (node.type !== 'INSTANCE') return false;
+      const main = node.mainComponent;
+      const set = main?.parent?.type === 'COMPONENT_SET' ? main.parent : null;
+      if (params.componentId && main?.id !== params.componentId && set?.id !== params.componentId) return false;
+      if (params.componentKey && main?.key !== params.componentKey && set?.key !== params.componentKey) return false;
+      return true;
+    });
+  }
+  if (params.styleId) {
+    filters.push(node => STYLE_ID_FIELDS.some(field =>
+      field in node && (node as unknown as Record<string, unknown>)[field] === params.styleId
+    ));
+  }
+  if (params.variable) {
+    const variable = await findVariableByIdOrName(params.variable);
+    filters.push(node => {
+      if (!('boundVariables' in node) || !node.boundVariables) return false;
+      const ids = new Set<string>();
+      collectBoundVariableIds(node.boundVariables, ids);
+      return ids.has(variable.id);
+    });
+  }
+  if (params.pluginDataKey && params.pluginDataValue !== undefined) {
+    filters.push(node => node.getPluginData(params.pluginDataKey!) === params.pluginDataValue);
+  }
+  if (params.ancestorName) {
+    const pattern = globToRegExp(params.ancestorName);
+    filters.push(node => hasAncestor(node, ancestor => pattern.test(ancestor.name)));
+  }
+  
+  const matches: SceneNode[] = [];
+  for (const root of roots) {
+    const candidates = useCriteria
+      ? (root as ChildrenMixin).findAllWithCriteria(criteria)
+      : (root as ChildrenMixin).findAll();
+    for (const node of candidates) {
+      if (filters.every(filter => filter(node))) matches.push(node);
+    }
+  }
+  
+  const offset = params.offset ?? 0;
+  const limit = params.limit ?? 50;
+  const page = matches.slice(offset, offset + limit);
+  
+  return {
+    nodes: page.map(summarizeNode),
+    total: matches.length,
+    offset,
+    limit,
+    hasMore: offset + page.length < matches.length,
+  };
+}
+
+type VariableValueParam =
+  | boolean
+  | number
+  | string
+  | { r: number; g: number; b: number; a?: number }
+  | { type: 'VARIABLE_ALIAS'; id: string };
+
+async function findVariableCollection(id: string): Promise<VariableCollection> {
+  const collection = await figma.variables.getVariableCollectionByIdAsync(id);
+  if (!collection) {
+    throw new Error(`Variable collection not found: ${id}`);
+  }
+  return collection;
+}
+
+async function findVariable(id: string): Promise<Variable> {
+  const variable = await figma.variables.getVariableByIdAsync(id);
+  if (!variable) {
+    throw new Error(`Variable not found: ${id}`);
+  }
+  return variable;
+}
+
+function resolveModeId(collection: VariableCollection, modeIdOrName: string): string {
+  const mode = collection.modes.find(m => m.modeId === modeIdOrName || m.name === modeIdOrName);
+  if (!mode) {
+    throw new Error(`Mode not found in collection ${collection.name}: ${modeIdOrName}`);
+  }
+  return mode.modeId;
+}
+
+function parseHexColor(hex: string): RGBA {
+  const cleaned = hex.replace('#', '');
+  const full = cleaned.length === 3 || cleaned.length === 4
+    ? cleaned.split('').map(c => c + c).join('')
+    : cleaned;
+  return {
+    r: parseInt(full.substring(0, 2), 16) / 255,
+    g: parseInt(full.substring(2, 4), 16) / 255,
+    b: parseInt(full.substring(4, 6), 16) / 255,
+    a: full.length === 8 ? parseInt(full.substring(6, 8), 16) / 255 : 1,
+  };
+}
+
+function convertVariableValue(value: VariableValueParam, resolvedType: VariableResolvedDataType): VariableValue {
+  if (typeof value === 'object' && 'type' in value) {
+    return { type: 'VARIABLE_ALIAS', id: value.id };
+  }
+  if (resolvedType === 'COLOR') {
+    if (typeof value === 'string') {
+      if (!/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value)) {
+        throw new Error(`Invalid color value: ${value}`);
+      }
+      return parseHexColor(value);
+    }
+    if (typeof value === 'object') {
+      return { r: value.r, g: value.g, b: value.b, a: value.a ?? 1 };
+    }
+  }
+  if (resolvedType === 'FLOAT' && typeof value === 'number') return value;
+  if (resolvedType === 'STRING' && typeof value === 'string') return value;
+  if (resolvedType === 'BOOLEAN' && typeof value === 'boolean') return value;
+  throw new Error(`Value ${JSON.stringify(value)} does not match variable type ${resolvedType}`);
+}
+
+function setVariableValues(
+  variable: Variable,
+  collection: VariableCollection,
+  valuesByMode: Record<string, VariableValueParam>
+) {
+  for (const [modeKey, value] of Object.entries(valuesByMode)) {
+    const modeId = resolveModeId(collection, modeKey);
+    variable.setValueForMode(modeId, convertVariableValue(value, variable.resolvedType));
+  }
+}
+
+function serializeVariableCollection(collection: VariableCollection) {
+  return {
+    id: collection.id,
+    name: collection.name,
+    key: collection.key,
+    modes: collection.modes,
+    defaultModeId: collection.defaultModeId,
+    variableIds: collection.variableIds,
+  };
+}
+
+function serializeVariable(variable: Variable) {
+  return {
+    id: variable.id,
+    name: variable.name,
+    key: variable.key,
+    collectionId: variable.variableCollectionId,
+    resolvedType: variable.resolvedType,
+    description: variable.description,
+    scopes: variable.scopes,
+    valuesByMode: variable.valuesByMode,
+  };
+}
+
+async function getLocalVariables() {
+  const collections = await figma.variables.getLocalVariableCollectionsAsync();
+  const variables = await figma.variables.getLocalVariablesAsync();
+  return {
+    collections: collections.map(serializeVariableCollection),
+    variables: variables.map(serializeVariable),
+  };
+}
+
+interface CreateVariableCollectionParams {
+  name: string;
+  modes?: string[];
+}
+
+async function createVariableCollection(params: CreateVariableCollectionParams) {
+  const collection = figma.variables.createVariableCollection(params.name);
+  
+  if (params.modes && params.modes.length > 0) {
+    collection.renameMode(collection.defaultModeId, params.modes[0]);
+    for (const modeName of params.modes.slice(1)) {
+      collection.addMode(modeName);
+    }
+  }
+  
+  return { collection: serializeVariableCollection(collection) };
+}
+
+interface UpdateVariableCollectionParams {
+  collectionId: string;
+  name?: string;
+  addModes?: string[];
+  renameModes?: Record<string, string>;
+  removeModes?: string[];
+}
+
+async function updateVariableCollection(params: UpdateVariableCollectionParams) {
+  const collection = await findVariableCollection(params.collectionId);
+  
+  if (params.name !== undefined) collection.name = params.name;
+  
+  if (params.renameModes) {
+    for (const [modeKey, newName] of Object.entries(params.renameModes)) {
+      collection.renameMode(resolveModeId(collection, modeKey), newName);
+    }
+  }
+  
+  if (params.addModes) {
+    for (const modeName of params.addModes) {
+      collection.addMode(modeName);
+    }
+  }
+  
+  if (params.removeModes) {
+    for (const modeKey of params.removeModes) {
+      collection.removeMode(resolveModeId(collection, modeKey));
+    }
+  }
+  
+  return { collection: serializeVariableCollection(collection) };
+}
+
+interface DeleteVariableCollectionParams {
+  collectionId: string;
+}
+
+async function deleteVariableCollection(params: DeleteVariableCollectionParams) {
+  const collection = await findVariableCollection(params.collectionId);
+  collection.remove();
+  return { collectionId: params.collectionId };
+}
+
+interface CreateVariableParams {
+  collectionId: string;
+  name: string;
+  resolvedType: VariableResolvedDataType;
+  valuesByMode?: Record<string, VariableValueParam>;
+  description?: string;
+  scopes?: VariableScope[];
+}
+
+async function createVariable(params: CreateVariableParams) {
+  const collection = await findVariableCollection(params.collectionId);
+  const variable = figma.variables.createVariable(params.name, collection, params.resolvedType);
+  
+  if (params.description !== undefined) variable.description = params.description;
+  if (params.scopes) variable.scopes = params.scopes;
+  if (params.valuesByMode) setVariableValues(variable, collection, params.valuesByMode);
+  
+  return { variable: serializeVariable(variable) };
+}
+
+interface UpdateVariableParams {
+  variableId: string;
+  name?: string;
+  description?: string;
+  valuesByMode?: Record<string, VariableValueParam>;
+  scopes?: VariableScope[];
+}
+
+async function updateVariable(params: UpdateVariableParams) {
+  const variable = await findVariable(params.variableId);
+  
+  if (params.name !== undefined) variable.name = params.name;
+  if (params.description !== undefined) variable.description = params.description;
+  if (params.scopes) variable.scopes = params.scopes;
+  
+  if (params.valuesByMode) {
+    const collection = await findVariableCollection(variable.variableCollectionId);
+    setVariableValues(variable, collection, params.valuesByMode);
+  }
+  
+  return { variable: serializeVariable(variable) };
+}
+
+interface DeleteVariableParams {
+  variableId: string;
+}
+
+async function deleteVariable(params: DeleteVariableParams) {
+  const variable = await findVariable(params.variableId);
+  variable.remove();
+  return { variableId: params.variableId };
+}
+
+type VariableBindingField =
+  | VariableBindableNodeField
+  | VariableBindableTextField
+  | 'fills'
+  | 'strokes'
+  | 'cornerRadius';
+
+type VariableBindings = { [field in VariableBindingField]?: string | null };
+
+const TEXT_BINDABLE_FIELDS: string[] = [
+  'fontFamily', 'fontSize', 'fontStyle', 'fontWeight',
+  'letterSpacing', 'lineHeight', 'paragraphSpacing', 'paragraphIndent',
+];
+
+const CORNER_RADIUS_FIELDS: VariableBindableNodeField[] = [
+  'topLeftRadius', 'topRightRadius', 'bottomLeftRadius', 'bottomRightRadius',
+];
+
+async function findVariableByIdOrName(ref: string): Promise<Variable> {
+  const byId = await figma.variables.getVariableByIdAsync(ref).catch(() => null);
+  if (byId) return byId;
+  
+  const locals = await figma.variables.getLocalVariablesAsync();
+  const byName = locals.filter(v => v.name === ref);
+  if (byName.length > 1) {
+    throw new Error(`Variable name "${ref}" is ambiguous; use the variable ID`);
+  }
+  if (byName.length === 0) {
+    throw new Error(`Variable not found: ${ref}`);
+  }
+  return byName[0];
+}
+
+function bindPaintVariable(
+  node: SceneNode,
+  field: 'fills' | 'strokes',
+  variable: Variable | null,
+  paintIndex: number
+) {
+  if (!(field in node)) {
+    throw new Error(`Node ${node.id} does not support ${field}`);
+  }
+  
+  const current = (node as GeometryMixin)[field];
+  if (current === figma.mixed) {
+    throw new Error(`Node ${node.id} has mixed ${field}; set them before binding`);
+  }
+  
+  const paints = [...current];
+  let paint = paints[paintIndex];
+  if (!paint || paint.type !== 'SOLID') {
+    if (!variable) return;
+    paint = { type: 'SOLID', color: { r: 0, g: 0, b: 0 } };
+  }
+  
+  paints[paintIndex] = figma.variables.setBoundVariableForPaint(paint as SolidPaint, 'color', variable);
+  (node as GeometryMixin)[field] = paints;
+}
+
+async function applyVariableBindings(node: SceneNode, bindings: VariableBindings, paintIndex = 0) {
+  const bound: string[] = [];
+  
+  const needsFonts = node.type === 'TEXT'
+    && Object.keys(bindings).some(field => field === 'characters' || TEXT_BINDABLE_FIELDS.includes(field));
+  if (needsFonts) {
+    const text = node as TextNode;
+    const fonts = text.characters.length > 0
+      ? text.getRangeAllFontNames(0, text.characters.length)
+      : [text.fontName as FontName];
+    await Promise.all(fonts.map(font => figma.loadFontAsync(font)));
+  }
+  
+  for (const [field, ref] of Object.entries(bindings)) {
+    if (ref === undefined) continue;
+    const variable = ref === null ? null : await findVariableByIdOrName(ref);
+    
+    if (field === 'fills' || field === 'strokes') {
+      bindPaintVariable(node, field, variable, paintIndex);
+    } else if (field === 'cornerRadius') {
+      if (!('topLeftRadius' in node)) {
+        throw new Error(`Node ${node.id} does not support corner radius`);
+      }
+      for (const corner of CORNER_RADIUS_FIELDS) {
+        node.setBoundVariable(corner, variable);
+      }
+    } else if (TEXT_BINDABLE_FIELDS.includes(field)) {
+      if (node.type !== 'TEXT') {
+        throw new Error(`${field} can only be bound on text nodes, got ${node.type}`);
+      }
+      node.setRangeBoundVariable(0, node.characters.length, field as VariableBindableTextField, variable);
+    } else {
+      if (!(field in node)) {
+        throw new Error(`Node ${node.id} (${node.type}) does not support ${field}`);
+      }
+      node.setBoundVariable(field as VariableBindableNodeField, variable);
+    }
+    
+    bound.push(field);
+  }
+  
+  return bound;
+}
+
+interface SetBoundVariablesParams {
+  nodeId: string;
+  bindings: VariableBindings;
+  paintIndex?: number;
+}
+
+async function setBoundVariables(params: SetBoundVariablesParams) {
+  const node = findNodeById(params.nodeId);
+  const fields = await applyVariableBindings(node, params.bindings, params.paintIndex ?? 0);
+  return { nodeId: node.id, fields };
+}
+
+type StyleTypeParam = 'PAINT' | 'TEXT' | 'EFFECT' | 'GRID';
+
+interface TextStyleParam {
+  fontFamily?: string;
+  fontWeight?: number;
+  fontStyle?: string;
+  fontSize?: number;
+  lineHeight?: number | { value: number; unit: 'PIXELS' | 'PERCENT' } | { unit: 'AUTO' };
+  letterSpacing?: number | { value: number; unit: 'PIXELS' | 'PERCENT' };
+  paragraphSpacing?: number;
+  textCase?: 'ORIGINAL' | 'UPPER' | 'LOWER' | 'TITLE';
+  textDecoration?: 'NONE' | 'UNDERLINE' | 'STRIKETHROUGH';
+}
+
+interface LayoutGridParam {
+  pattern: 'COLUMNS' | 'ROWS' | 'GRID';
+  sectionSize?: number;
+  count?: number;
+  gutterSize?: number;
+  offset?: number;
+  alignment?: 'MIN' | 'MAX' | 'CENTER' | 'STRETCH';
+  color?: { r: number; g: number; b: number; a?: number };
+  visible?: boolean;
+}
+
+interface StylePropertiesParams {
+  name?: string;
+  description?: string;
+  paints?: PaintParam[];
+  text?: TextStyleParam;
+  effects?: EffectParam[];
+  layoutGrids?: LayoutGridParam[];
+}
+
+function convertLayoutGrids(grids: LayoutGridParam[]): LayoutGrid[] {
+  return grids.map(g => {
+    const color = g.color
+      ? { r: g.color.r, g: g.color.g, b: g.color.b, a: g.color.a ?? 0.1 }
+      : { r: 1, g: 0, b: 0, a: 0.1 };
+    
+    if (g.pattern === 'GRID') {
+      return { pattern: 'GRID', sectionSize: g.sectionSize ?? 8, color, visible: g.visible ?? true };
+    }
+    
+    const alignment = g.alignment ?? 'STRETCH';
+    return {
+      pattern: g.pattern,
+      alignment,
+      gutterSize: g.gutterSize ?? 20,
+      count: g.count ?? 12,
+      ...(alignment !== 'STRETCH' ? { sectionSize: g.sectionSize ?? 60 } : {}),
+      ...(alignment !== 'CENTER' ? { offset: g.offset ?? 0 } : {}),
+      color,
+      visible: g.visible ?? true,
+    } as RowsColsLayoutGrid;
+  });
+}
+
+async function applyTextStyleParams(style: TextStyle, text: TextStyleParam) {
+  const current = style.fontName;
+  const fontWeight = text.fontWeight;
+  const fontName: FontName = {
+    family: text.fontFamily ?? current.family,
+    style: text.fontStyle
+      ?? (fontWeight !== undefined
+        ? (fontWeight >= 700 ? 'Bold' : fontWeight >= 500 ? 'Medium' : 'Regular')
+        : current.style),
+  };
+  
+  await figma.loadFontAsync(fontName);
+  style.fontName = fontName;
+  
+  if (text.fontSize !== undefined) style.fontSize = text.fontSize;
+  if (text.lineHeight !== undefined) {
+    style.lineHeight = typeof text.lineHeight === 'number'
+      ? { value: text.lineHeight, unit: 'PIXELS' }
+      : text.lineHeight;
+  }
+  if (text.letterSpacing !== undefined) {
+    style.letterSpacing = typeof text.letterSpacing === 'number'
+      ? { value: text.letterSpacing, unit: 'PIXELS' }
+      : text.letterSpacing;
+  }
+  if (text.paragraphSpacing !== undefined) style.paragraphSpacing = text.paragraphSpacing;
+  if (text.textCase !== undefined) style.textCase = text.textCase;
+  if (text.textDecoration !== undefined) style.textDecoration = text.textDecoration;
+}
+
+async function applyStyleProperties(style: BaseStyle, params: StylePropertiesParams) {
+  if (params.name !== undefined) style.name = params.name;
+  if (params.description !== undefined) style.description = params.description;
+  
+  if (style.type === 'PAINT' && params.paints) {
+    (style as PaintStyle).paints = convertPaints(params.paints);
+  } else if (style.type === 'TEXT' && params.text) {
+    await applyTextStyleParams(style as TextStyle, params.text);
+  } else if (style.type === 'EFFECT' && params.effects) {
+    (style as EffectStyle).effects = convertEffects(params.effects);
+  } else if (style.type === 'GRID' && params.layoutGrids) {
+    (style as GridStyle).layoutGrids = convertLayoutGrids(params.layoutGrids);
+  }
+}
+
+function serializeStyle(style: BaseStyle) {
+  return {
+    id: style.id,
+    key: style.key,
+    name: style.name,
+    type: style.type,
+    description: style.description,
+    remote: style.remote,
+  };
+}
+
+async function findStyle(styleId?: string, styleKey?: string): Promise<BaseStyle> {
+  if (styleId) {
+    const style = await figma.getStyleByIdAsync(styleId);
+    if (!style) {
+      throw new Error(`Style not found: ${styleId}`);
+    }
+    return style;
+  }
+  if (styleKey) {
+    return figma.importStyleByKeyAsync(styleKey);
+  }
+  throw new Error('Either styleId or styleKey is required');
+}
+
+async function getLocalStyles() {
+  const [paints, texts, effects, grids] = await Promise.all([
+    figma.getLocalPaintStylesAsync(),
+    figma.getLocalTextStylesAsync(),
+    figma.getLocalEffectStylesAsync(),
+    figma.getLocalGridStylesAsync(),
+  ]);
+  
+  return {
+    styles: [...paints, ...texts, ...effects, ...grids].map(serializeStyle),
+  };
+}
+
+interface CreateStyleParams extends StylePropertiesParams {
+  styleType: StyleTypeParam;
+  name: string;
+}
+
+async function createStyle(params: CreateStyleParams) {
+  let style: BaseStyle;
+  switch (params.styleType) {
+    case 'PAINT':
+      style = figma.createPaintStyle();
+      break;
+    case 'TEXT':
+      style = figma.createTextStyle();
+      break;
+    case 'EFFECT':
+      style = figma.createEffectStyle();
+      break;
+    case 'GRID':
+      style = figma.createGridStyle();
+      break;
+    default:
+      throw new Error(`Unknown style type: ${params.styleType}`);
+  }
+  
+  try {
+    await applyStyleProperties(style, params);
+  } catch (error) {
+    style.remove();
+    throw error;
+  }
+  
+  return { style: serializeStyle(style) };
+}
+
+interface UpdateStyleParams extends StylePropertiesParams {
+  styleId: string;
+}
+
+async function updateStyle(params: UpdateStyleParams) {
+  const style = await findStyle(params.styleId);
+  if (style.remote) {
+    throw new Error(`Style ${style.name} is from a library and cannot be edited`);
+  }
+  
+  await applyStyleProperties(style, params);
+  return { style: serializeStyle(style) };
+}
+
+interface ApplyStyleParams {
+  nodeId: string;
+  styleId?: string;
+  styleKey?: string;
+  target?: 'fill' | 'stroke' | 'text' | 'effect' | 'grid';
+}
+
+async function applyStyle(params: ApplyStyleParams) {
+  const node = findNodeById(params.nodeId);
+  const style = await findStyle(params.styleId, params.styleKey);
+  
+  const defaultTargets: Record<StyleType, NonNullable<ApplyStyleParams['target']>> = {
+    PAINT: 'fill',
+    TEXT: 'text',
+    EFFECT: 'effect',
+    GRID: 'grid',
+  };
+  const target = params.target ?? defaultTargets[style.type];
+  
+  if ((target === 'fill' || target === 'stroke') && style.type !== 'PAINT') {
+    throw new Error(`A ${style.type} style cannot be used as a ${target} style`);
+  }
+  
+  if (target === 'fill' && 'setFillStyleIdAsync' in node) {
+    await node.setFillStyleIdAsync(style.id);
+  } else if (target === 'stroke' && 'setStrokeStyleIdAsync' in node) {
+    await node.setStrokeStyleIdAsync(style.id);
+  } else if (target === 'text' && node.type === 'TEXT' && style.type === 'TEXT') {
+    await figma.loadFontAsync((style as TextStyle).fontName);
+    await node.setTextStyleIdAsync(style.id);
+  } else if (target === 'effect' && 'setEffectStyleIdAsync' in node && style.type === 'EFFECT') {
+    await node.setEffectStyleIdAsync(style.id);
+  } else if (target === 'grid' && 'setGridStyleIdAsync' in node && style.type === 'GRID') {
+    await node.setGridStyleIdAsync(style.id);
+  } else {
+    throw new Error(`Cannot apply ${style.type} style as ${target} style to ${node.type} node`);
+  }
+  
+  return { nodeId: node.id, styleId: style.id };
+}
+
+interface CreateImageParams {
+  bytes: string;
+}
+
+async function createImage(params: CreateImageParams) {
+  const image = figma.createImage(figma.base64Decode(params.bytes));
+  const { width, height } = await image.getSizeAsync();
+  return { imageHash: image.hash, width, height };
+}
+
+interface CreateNodeFromSvgParams {
+  svg: string;
+  name?: string;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  parentId?: string;
+}
+
+async function createNodeFromSvg(params: CreateNodeFromSvgParams) {
+  const parent = getParent(params.parentId);
+  let frame: FrameNode;
+  try {
+    frame = figma.createNodeFromSvg(params.svg);
+  } catch (error) {
+    throw new Error(`Invalid SVG: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  
+  if (params.name) frame.name = params.name;
+  
+  // Scale uniformly to fit the requested box so strokes and paths stay proportional
+  if (params.width !== undefined || params.height !== undefined) {
+    const scaleX = params.width !== undefined ? params.width / frame.width : Infinity;
+    const scaleY = params.height !== undefined ? params.height / frame.height : Infinity;
+    const scale = Math.min(scaleX, scaleY);
+    if (isFinite(scale) && scale > 0 && scale !== 1) {
+      frame.rescale(scale);
+    }
+  }
+  
+  frame.x = params.x ?? 0;
+  frame.y = params.y ?? 0;
+  
+  parent.appendChild(frame);
+  
+  return { nodeId: frame.id, width: frame.width, height: frame.height };
+}
+
+interface CreateVectorParams {
+  name?: string;
+  x?: number;
+  y?: number;
+  parentId?: string;
+  vectorPaths?: { windingRule: 'NONZERO' | 'EVENODD' | 'NONE'; data: string }[];
+  vectorNetwork?: VectorNetwork;
+  fills?: PaintParam[];
+  strokes?: PaintParam[];
+  strokeWeight?: number;
+}
+
+async function createVector(params: CreateVectorParams) {
+  if (!params.vectorPaths && !params.vectorNetwork) {
+    throw new Error('Either vectorPaths or vectorNetwork is required');
+  }
+  
+  const fills = params.fills && convertPaints(params.fills);
+  const strokes = params.strokes && convertPaints(params.strokes);
+  const parent = getParent(params.parentId);
+  
+  const vector = figma.createVector();
+  if (params.name) vector.name = params.name;
+  
+  try {
+    if (params.vectorNetwork) {
+      await vector.setVectorNetworkAsync(params.vectorNetwork);
+    } else if (params.vectorPaths) {
+      vector.vectorPaths = params.vectorPaths;
+    }
+  } catch (error) {
+    vector.remove();
+    throw new Error(`Invalid vector geometry: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  
+  vector.x = params.x ?? 0;
+  vector.y = params.y ?? 0;
+  
+  if (fills) vector.fills = fills;
+  if (strokes) vector.strokes = strokes;
+  if (params.strokeWeight !== undefined) vector.strokeWeight = params.strokeWeight;
+  
+  parent.appendChild(vector);
+  
+  return { nodeId: vector.id, width: vector.width, height: vector.height };
+}
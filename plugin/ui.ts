@@ -15,17 +15,27 @@ interface PluginResponse {
 let ws: WebSocket | null = null;
 let isConnected = false;
 
+// Reconnects with exponential backoff until the user disconnects or the
+// server rejects the pairing token or protocol version
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+let autoReconnect = false;
+let reconnectAttempts = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
 const statusDot = document.getElementById('statusDot') as HTMLDivElement;
 const statusText = document.getElementById('statusText') as HTMLSpanElement;
 const wsUrlInput = document.getElementById('wsUrl') as HTMLInputElement;
+const tokenInput = document.getElementById('pairingToken') as HTMLInputElement;
 const connectBtn = document.getElementById('connectBtn') as HTMLButtonElement;
 const logDiv = document.getElementById('log') as HTMLDivElement;
 
 function updateStatus(connected: boolean) {
   isConnected = connected;
   statusDot.classList.toggle('connected', connected);
-  statusText.textContent = connected ? 'Connected' : 'Disconnected';
-  connectBtn.textContent = connected ? 'Disconnect' : 'Connect';
+  statusText.textContent = connected ? 'Connected' : autoReconnect ? 'Connecting...' : 'Disconnected';
+  connectBtn.textContent = connected || autoReconnect ? 'Disconnect' : 'Connect';
 }
 
 function addLog(type: 'cmd' | 'success' | 'error', message: string) {
@@ -42,39 +52,90 @@ function addLog(type: 'cmd' | 'success' | 'error', message: string) {
   }
 }
 
-function connect() {
+function toggleConnection() {
+  if (ws || autoReconnect) {
+    disconnect();
+  } else {
+    autoReconnect = true;
+    reconnectAttempts = 0;
+    connect();
+  }
+}
+
+function disconnect() {
+  autoReconnect = false;
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
   if (ws) {
-    ws.close();
+    const socket = ws;
     ws = null;
-    updateStatus(false);
-    return;
+    socket.close();
+    addLog('error', 'Disconnected');
   }
+  updateStatus(false);
+}
+
+function scheduleReconnect() {
+  if (!autoReconnect || reconnectTimer) return;
+  
+  const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+  reconnectAttempts++;
+  addLog('cmd', `Reconnecting in ${Math.round(delay / 1000)}s...`);
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    connect();
+  }, delay);
+}
 
+function connect() {
   const url = wsUrlInput.value;
   addLog('cmd', `Connecting to ${url}...`);
+  updateStatus(false);
 
   try {
-    ws = new WebSocket(url);
+    const socket = new WebSocket(url);
+    ws = socket;
 
-    ws.onopen = () => {
-      updateStatus(true);
-      addLog('success', 'Connected to MCP server');
+    socket.onopen = () => {
+      addLog('cmd', 'Pairing with MCP server...');
+      parent.postMessage({ pluginMessage: { type: 'hello', token: tokenInput.value.trim() } }, '*');
     };
 
-    ws.onclose = () => {
+    // Ignores sockets replaced by a newer connection or closed by disconnect()
+    socket.onclose = () => {
+      if (ws !== socket) return;
+      ws = null;
       updateStatus(false);
       addLog('error', 'Disconnected');
-      ws = null;
+      scheduleReconnect();
     };
 
-    ws.onerror = (error) => {
+    socket.onerror = (error) => {
       addLog('error', 'Connection error');
       console.error('WebSocket error:', error);
     };
 
-    ws.onmessage = (event) => {
+    socket.onmessage = (event) => {
       try {
-        const command = JSON.parse(event.data) as PluginCommand;
+        const message = JSON.parse(event.data);
+        if (message.type === 'welcome') {
+          reconnectAttempts = 0;
+          updateStatus(true);
+          addLog('success', `Paired with MCP server (protocol v${message.protocolVersion})`);
+          return;
+        }
+        if (message.type === 'handshake_error') {
+          addLog('error', message.message);
+          // Retrying cannot fix a wrong token or an incompatible build
+          if (message.code !== 'HANDSHAKE_TIMEOUT') {
+            autoReconnect = false;
+          }
+          return;
+        }
+        
+        const command = message as PluginCommand;
         addLog('cmd', `← ${command.type}`);
         
         parent.postMessage({ pluginMessage: { type: 'command', command } }, '*');
@@ -83,15 +144,43 @@ function connect() {
       }
     };
   } catch (error) {
+    ws = null;
     addLog('error', `Failed to connect: ${error}`);
+    scheduleReconnect();
   }
 }
 
-connectBtn.addEventListener('click', connect);
+connectBtn.addEventListener('click', toggleConnection);
 
 onmessage = (event) => {
   const msg = event.data.pluginMessage;
   
+  // Auto-connects once the saved pairing token is known
+  if (msg?.type === 'settings') {
+    tokenInput.value = msg.token;
+    if (msg.token && !ws) {
+      autoReconnect = true;
+      connect();
+    } else if (!msg.token) {
+      addLog('cmd', 'Enter the pairing token printed by the MCP server, then Connect');
+    }
+    return;
+  }
+  
+  if (msg?.type === 'hello' && msg.hello) {
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type: 'hello', ...msg.hello }));
+    }
+    return;
+  }
+  
+  if (msg?.type === 'event' && msg.event) {
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type: 'event', event: msg.event }));
+    }
+    return;
+  }
+  
   if (msg?.type === 'response' && msg.response) {
     const response = msg.response as PluginResponse;
     
@@ -107,4 +196,3 @@ onmessage = (event) => {
   }
 };
 
-setTimeout(connect, 500);
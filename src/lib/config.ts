@@ -1,8 +1,19 @@
 import 'dotenv/config';
 
+export type McpTransport = 'stdio' | 'http';
+
 export interface Config {
   figmaAccessToken: string;
+  transport: McpTransport;
+  httpPort: number;
+  httpHost: string;
+  httpToken?: string;
   pluginBridgePort: number;
+  pluginBridgeHost: string;
+  pluginBridgeToken?: string;
+  pluginBridgeAllowedOrigins: string[];
+  pluginCommandTimeoutMs: number;
+  pluginReconnectGraceMs: number;
   debug: boolean;
   captureDir: string;
 }
@@ -32,6 +43,18 @@ function getEnvNumber(key: string, defaultValue: number): number {
   return isNaN(parsed) ? defaultValue : parsed;
 }
 
+function getEnvList(key: string): string[] {
+  return (process.env[key] ?? '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function getEnvTransport(key: string): McpTransport {
+  const value = getEnvOrDefault(key, 'stdio').toLowerCase();
+  if (value !== 'stdio' && value !== 'http') {
+    throw new Error(`Invalid ${key}: ${value} (expected stdio or http)`);
+  }
+  return value;
+}
+
 let config: Config | null = null;
 
 export function getConfig(): Config {
@@ -39,7 +62,16 @@ export function getConfig(): Config {
   
   config = {
     figmaAccessToken: getEnvOrThrow('FIGMA_ACCESS_TOKEN'),
+    transport: getEnvTransport('MCP_TRANSPORT'),
+    httpPort: getEnvNumber('MCP_HTTP_PORT', 3845),
+    httpHost: getEnvOrDefault('MCP_HTTP_HOST', '127.0.0.1'),
+    httpToken: process.env.MCP_HTTP_TOKEN || undefined,
     pluginBridgePort: getEnvNumber('PLUGIN_BRIDGE_PORT', 9001),
+    pluginBridgeHost: getEnvOrDefault('PLUGIN_BRIDGE_HOST', '127.0.0.1'),
+    pluginBridgeToken: process.env.PLUGIN_BRIDGE_TOKEN || undefined,
+    pluginBridgeAllowedOrigins: getEnvList('PLUGIN_BRIDGE_ALLOWED_ORIGINS'),
+    pluginCommandTimeoutMs: getEnvNumber('PLUGIN_COMMAND_TIMEOUT_MS', 30000),
+    pluginReconnectGraceMs: getEnvNumber('PLUGIN_RECONNECT_GRACE_MS', 15000),
     debug: getEnvBool('DEBUG', false),
     captureDir: getEnvOrDefault('CAPTURE_DIR', './captures'),
   };
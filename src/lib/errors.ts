@@ -31,6 +31,20 @@ export class PluginNotConnectedError extends PluginBridgeError {
   }
 }
 
+export class PluginConnectionNotFoundError extends PluginBridgeError {
+  constructor(target: string) {
+    super(`No Figma plugin connected for ${target}. Use list_plugin_connections to see the open files.`);
+    this.name = 'PluginConnectionNotFoundError';
+  }
+}
+
+export class PluginCommandUnsupportedError extends PluginBridgeError {
+  constructor(commandType: string, fileName?: string) {
+    super(`The Figma plugin${fileName ? ` in "${fileName}"` : ''} does not support '${commandType}'. Rebuild and reopen the plugin.`);
+    this.name = 'PluginCommandUnsupportedError';
+  }
+}
+
 export class PluginTimeoutError extends PluginBridgeError {
   constructor(commandType: string, timeoutMs: number) {
     super(`Plugin command '${commandType}' timed out after ${timeoutMs}ms`);
@@ -45,6 +59,20 @@ export class CaptureError extends FigmadError {
   }
 }
 
+export class ImageLoadError extends FigmadError {
+  constructor(message: string, details?: unknown) {
+    super(message, 'IMAGE_LOAD_ERROR', undefined, details);
+    this.name = 'ImageLoadError';
+  }
+}
+
+export class OperationCancelledError extends FigmadError {
+  constructor() {
+    super('Operation cancelled by the client', 'CANCELLED');
+    this.name = 'OperationCancelledError';
+  }
+}
+
 export class ValidationError extends FigmadError {
   constructor(message: string, details?: unknown) {
     super(message, 'VALIDATION_ERROR', 400, details);
@@ -1,4 +1,5 @@
-export { getConfig, isDebug, type Config } from './config.js';
+export { getConfig, isDebug, type Config, type McpTransport } from './config.js';
 export { logger, createLogger } from './logger.js';
 export * from './errors.js';
 export * from './utils.js';
+export { throwIfCancelled, type ToolContext } from './progress.js';
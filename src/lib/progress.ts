@@ -0,0 +1,17 @@
+import { OperationCancelledError } from './errors.js';
+
+/**
+ * Per-call hooks handed to long-running tools: the MCP request's abort signal
+ * and a progress callback, which is undefined when the client sent no progress
+ * token, so callers invoke it as reportProgress?.().
+ */
+export interface ToolContext {
+  signal?: AbortSignal;
+  reportProgress?: (progress: number, total?: number, message?: string) => void;
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new OperationCancelledError();
+  }
+}
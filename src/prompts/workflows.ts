@@ -0,0 +1,112 @@
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+
+// Numbers the steps that apply, skipping those switched off by missing arguments
+function workflowPrompt(task: string, steps: (string | false | undefined)[]): GetPromptResult {
+  const text = [task, '', ...steps.filter(step => typeof step === 'string').map((step, i) => `${i + 1}. ${step}`)].join('\n');
+  return {
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
+
+/**
+ * Registers prompts for the multi-step workflows designers run most often.
+ * Each prompt expands into numbered figmad tool calls, so clients can offer
+ * them as slash-commands.
+ */
+export function registerWorkflowPrompts(server: McpServer): void {
+  server.registerPrompt(
+    'rebuild_webpage',
+    {
+      title: 'Rebuild a webpage in Figma',
+      description: 'Capture a URL and rebuild it in the open Figma file, swapping detected elements for your components',
+      argsSchema: {
+        url: z.string().describe('Page URL to capture'),
+        fileKey: z.string().optional().describe('Figma file key whose published components to reuse'),
+        codebasePath: z.string().optional().describe('Codebase path to pull component names and design tokens from'),
+        frameName: z.string().optional().describe('Name for the rebuilt root frame'),
+      },
+    },
+    ({ url, fileKey, codebasePath, frameName }) => workflowPrompt(
+      `Rebuild ${url} in the open Figma file using our components.`,
+      [
+        `Call capture_webpage with url "${url}" and note the captureId and detected components.`,
+        codebasePath && `Call analyze_codebase with path "${codebasePath}" to learn our component names, props and tokens.`,
+        fileKey
+          ? `Call get_components with fileKey "${fileKey}" to list the published components.`
+          : 'Call find_nodes with types ["COMPONENT", "COMPONENT_SET"] to list the local components.',
+        `Call reconstruct_page with the captureId${frameName ? ` and frameName "${frameName}"` : ''}. It runs in a transaction; keep the returned transactionId.`,
+        'Call read_live_node on the rebuilt root frame and match its detected buttons, inputs, cards and navigation against the components listed earlier.',
+        'For each match, create_instance (componentId or componentKey) with the same parent and position, then delete_node the placeholder. Wrap these edits in begin_transaction/commit_transaction.',
+        'Report which elements were swapped, which had no matching component, and the transaction IDs so the rebuild can be undone with rollback_transaction.',
+      ]
+    )
+  );
+  
+  server.registerPrompt(
+    'audit_frame_tokens',
+    {
+      title: 'Audit a frame against design tokens',
+      description: 'List fills, strokes, text and spacing in a frame that are not bound to variables or styles',
+      argsSchema: {
+        fileKey: z.string().describe('Figma file key'),
+        frameId: z.string().describe('Node ID of the frame to audit, e.g. "12:34"'),
+        codebasePath: z.string().optional().describe('Codebase path whose tokens should be the source of truth'),
+      },
+    },
+    ({ fileKey, frameId, codebasePath }) => workflowPrompt(
+      `Audit frame ${frameId} in Figma file ${fileKey} against our design tokens. Do not change anything yet.`,
+      [
+        `Call get_node with fileKey "${fileKey}" and nodeIds ["${frameId}"] to read the frame subtree.`,
+        'Call get_local_variables and get_local_styles to collect the tokens defined in the file.',
+        codebasePath && `Call analyze_codebase with path "${codebasePath}" and note the analysisId.`,
+        codebasePath && `Call sync_design_tokens with direction "compare", figmaFileKey "${fileKey}" and the analysisId to find tokens missing on either side.`,
+        'Walk the subtree and list every fill, stroke, effect, corner radius, gap, padding and text style that is a raw value instead of a bound variable or applied style.',
+        'For each finding, give the node ID, the property, the raw value and the closest existing token.',
+        'Propose the bind_variables and apply_style calls that would fix them, and wait for confirmation before running them.',
+      ]
+    )
+  );
+  
+  server.registerPrompt(
+    'sync_code_tokens',
+    {
+      title: 'Push code tokens to Figma',
+      description: 'Compare codebase design tokens with a Figma file, then create or update the Figma variables and styles',
+      argsSchema: {
+        codebasePath: z.string().describe('Path to the codebase'),
+        fileKey: z.string().describe('Figma file key open in the plugin'),
+      },
+    },
+    ({ codebasePath, fileKey }) => workflowPrompt(
+      `Bring the Figma file ${fileKey} in line with the design tokens in ${codebasePath}.`,
+      [
+        `Call analyze_codebase with path "${codebasePath}" and note the analysisId.`,
+        `Call sync_design_tokens with direction "compare", figmaFileKey "${fileKey}" and the analysisId. Summarize what is missing or different.`,
+        'After confirmation, call sync_design_tokens with direction "code-to-figma", the analysisId and apply: true.',
+        'Report the variables and styles that were created or updated.',
+      ]
+    )
+  );
+  
+  server.registerPrompt(
+    'document_components',
+    {
+      title: 'Document components',
+      description: 'Summarize the components of a Figma file with their variants and properties',
+      argsSchema: {
+        fileKey: z.string().describe('Figma file key'),
+      },
+    },
+    ({ fileKey }) => workflowPrompt(
+      `Write documentation for the components in Figma file ${fileKey}.`,
+      [
+        `Call get_components with fileKey "${fileKey}".`,
+        'For component sets, call get_node on the set to read its variant and component properties.',
+        `Call export_image with fileKey "${fileKey}" for each component set to show its variants.`,
+        'Write one section per component: purpose, variants, properties with their defaults, and usage notes.',
+      ]
+    )
+  );
+}
@@ -0,0 +1,71 @@
+import { ResourceTemplate, type McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getAnalysisById, listAnalyses } from '../tools/orchestrated/index.js';
+import type { FileResource } from '../types/mcp.js';
+
+export const ANALYSIS_TOKENS_URI = 'analysis://{id}/tokens.json';
+export const ANALYSIS_COMPONENTS_URI = 'analysis://{id}/components.json';
+
+function findAnalysis(id: string | string[]) {
+  const analysis = getAnalysisById(String(id));
+  if (!analysis) {
+    throw new Error(`Analysis not found: ${id}`);
+  }
+  return analysis;
+}
+
+/**
+ * Registers the design tokens and component definitions of each
+ * analyze_codebase result as resources.
+ */
+export function registerAnalysisResources(server: McpServer): void {
+  const completeId = (value: string) => listAnalyses().map(a => a.id).filter(id => id.startsWith(value));
+  
+  server.resource(
+    'analysis-tokens',
+    new ResourceTemplate(ANALYSIS_TOKENS_URI, {
+      list: async () => ({
+        resources: listAnalyses().map(({ id, path }): FileResource => ({
+          uri: `analysis://${id}/tokens.json`,
+          name: `Design tokens of ${path}`,
+          description: `Colors, spacing, typography, shadows and radii from analysis ${id}`,
+          mimeType: 'application/json',
+        })),
+      }),
+      complete: { id: completeId },
+    }),
+    { description: 'Design tokens extracted by analyze_codebase', mimeType: 'application/json' },
+    async (uri, { id }) => ({
+      contents: [{
+        uri: uri.href,
+        mimeType: 'application/json',
+        text: JSON.stringify(findAnalysis(id).designTokens, null, 2),
+      }],
+    })
+  );
+  
+  server.resource(
+    'analysis-components',
+    new ResourceTemplate(ANALYSIS_COMPONENTS_URI, {
+      list: async () => ({
+        resources: listAnalyses().map(({ id, path, framework }): FileResource => ({
+          uri: `analysis://${id}/components.json`,
+          name: `Components of ${path}`,
+          description: `${framework} component definitions from analysis ${id}`,
+          mimeType: 'application/json',
+        })),
+      }),
+      complete: { id: completeId },
+    }),
+    { description: 'Component definitions found by analyze_codebase', mimeType: 'application/json' },
+    async (uri, { id }) => {
+      const analysis = findAnalysis(id);
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: 'application/json',
+          text: JSON.stringify({ framework: analysis.framework, components: analysis.components }, null, 2),
+        }],
+      };
+    }
+  );
+}
@@ -0,0 +1,80 @@
+import { ResourceTemplate, type McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getCaptureById, listCaptures } from '../tools/orchestrated/index.js';
+import type { FileResource } from '../types/mcp.js';
+
+export const CAPTURE_SCREENSHOT_URI = 'capture://{id}/screenshot.png';
+export const CAPTURE_DOM_URI = 'capture://{id}/dom.json';
+
+function captureResources(): FileResource[] {
+  return listCaptures().flatMap(({ id, url }) => [
+    {
+      uri: `capture://${id}/screenshot.png`,
+      name: `Screenshot of ${url}`,
+      description: `Page screenshot from capture ${id}`,
+      mimeType: 'image/png',
+    },
+    {
+      uri: `capture://${id}/dom.json`,
+      name: `DOM of ${url}`,
+      description: `Captured DOM tree and detected components from capture ${id}`,
+      mimeType: 'application/json',
+    },
+  ]);
+}
+
+function findCapture(id: string | string[]) {
+  const capture = getCaptureById(String(id));
+  if (!capture) {
+    throw new Error(`Capture not found: ${id}`);
+  }
+  return capture;
+}
+
+/**
+ * Registers the screenshot and DOM of each capture_webpage result as
+ * resources. Captures live in memory, so they are listed until the server exits.
+ */
+export function registerCaptureResources(server: McpServer): void {
+  const completeId = (value: string) => listCaptures().map(c => c.id).filter(id => id.startsWith(value));
+  
+  server.resource(
+    'capture-screenshot',
+    new ResourceTemplate(CAPTURE_SCREENSHOT_URI, {
+      list: async () => ({ resources: captureResources().filter(r => r.mimeType === 'image/png') }),
+      complete: { id: completeId },
+    }),
+    { description: 'Screenshot taken by capture_webpage', mimeType: 'image/png' },
+    async (uri, { id }) => ({
+      contents: [{
+        uri: uri.href,
+        mimeType: 'image/png',
+        blob: findCapture(id).screenshot.toString('base64'),
+      }],
+    })
+  );
+  
+  server.resource(
+    'capture-dom',
+    new ResourceTemplate(CAPTURE_DOM_URI, {
+      list: async () => ({ resources: captureResources().filter(r => r.mimeType === 'application/json') }),
+      complete: { id: completeId },
+    }),
+    { description: 'DOM tree and detected components captured by capture_webpage', mimeType: 'application/json' },
+    async (uri, { id }) => {
+      const capture = findCapture(id);
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: 'application/json',
+          text: JSON.stringify({
+            id: capture.id,
+            url: capture.url,
+            viewport: capture.viewport,
+            dom: capture.dom,
+            components: capture.components,
+          }, null, 2),
+        }],
+      };
+    }
+  );
+}
@@ -0,0 +1,53 @@
+import { ResourceTemplate, type McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getFigmaClient } from '../services/figma-api/index.js';
+
+export const FIGMA_FILE_URI = 'figma://file/{fileKey}';
+export const FIGMA_NODE_URI = 'figma://file/{fileKey}/node/{nodeId}';
+
+// Node IDs contain ':' which clients may percent-encode
+function variable(value: string | string[]): string {
+  return decodeURIComponent(String(value));
+}
+
+/**
+ * Registers Figma file and node templates backed by the REST API. Files are
+ * not enumerable, so these templates have no list.
+ */
+export function registerFigmaFileResources(server: McpServer): void {
+  server.resource(
+    'figma-file',
+    new ResourceTemplate(FIGMA_FILE_URI, { list: undefined }),
+    { description: 'Figma file name, pages and top-level frames (REST API, depth 2)', mimeType: 'application/json' },
+    async (uri, { fileKey }) => {
+      const file = await getFigmaClient().getFile(variable(fileKey), { depth: 2 });
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: 'application/json',
+          text: JSON.stringify(file, null, 2),
+        }],
+      };
+    }
+  );
+  
+  server.resource(
+    'figma-node',
+    new ResourceTemplate(FIGMA_NODE_URI, { list: undefined }),
+    { description: 'A Figma node subtree from the REST API', mimeType: 'application/json' },
+    async (uri, { fileKey, nodeId }) => {
+      const id = variable(nodeId);
+      const { nodes } = await getFigmaClient().getFileNodes(variable(fileKey), [id]);
+      const node = nodes[id];
+      if (!node) {
+        throw new Error(`Node not found: ${id}`);
+      }
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: 'application/json',
+          text: JSON.stringify(node.document, null, 2),
+        }],
+      };
+    }
+  );
+}
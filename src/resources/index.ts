@@ -0,0 +1,4 @@
+export { registerPluginEventResources, PLUGIN_EVENTS_URI, PLUGIN_SELECTION_URI } from './plugin-events.js';
+export { registerFigmaFileResources, FIGMA_FILE_URI, FIGMA_NODE_URI } from './figma-files.js';
+export { registerCaptureResources, CAPTURE_SCREENSHOT_URI, CAPTURE_DOM_URI } from './captures.js';
+export { registerAnalysisResources, ANALYSIS_TOKENS_URI, ANALYSIS_COMPONENTS_URI } from './analyses.js';
@@ -0,0 +1,78 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { getPluginBridge } from '../services/plugin-bridge/index.js';
+import { createLogger } from '../lib/index.js';
+
+const logger = createLogger('resources:plugin-events');
+
+export const PLUGIN_EVENTS_URI = 'figma://plugin/events';
+export const PLUGIN_SELECTION_URI = 'figma://plugin/selection';
+
+/**
+ * Registers the plugin event resources and resource subscriptions. Subscribed
+ * clients receive notifications/resources/updated whenever the plugin pushes
+ * a matching event.
+ */
+export function registerPluginEventResources(server: McpServer): void {
+  const bridge = getPluginBridge();
+  const subscriptions = new Set<string>();
+  
+  server.resource(
+    'plugin-events',
+    PLUGIN_EVENTS_URI,
+    { description: 'Recent selection, page and document change events from the Figma plugin', mimeType: 'application/json' },
+    async (uri) => ({
+      contents: [{
+        uri: uri.href,
+        mimeType: 'application/json',
+        text: JSON.stringify(bridge.getEvents(), null, 2),
+      }],
+    })
+  );
+  
+  server.resource(
+    'plugin-selection',
+    PLUGIN_SELECTION_URI,
+    { description: 'Nodes currently selected in Figma', mimeType: 'application/json' },
+    async (uri) => {
+      let selection: unknown = null;
+      if (bridge.isConnected()) {
+        selection = (await bridge.getSelection()).selection;
+      } else {
+        const [latest] = bridge.getEvents({ types: ['SELECTION_CHANGE'], limit: 1 }).events;
+        selection = latest?.type === 'SELECTION_CHANGE' ? latest.nodeIds.map(id => ({ id })) : null;
+      }
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: 'application/json',
+          text: JSON.stringify({ connected: bridge.isConnected(), selection }, null, 2),
+        }],
+      };
+    }
+  );
+  
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+  
+  const unsubscribe = bridge.onEvent((event) => {
+    const uris = event.type === 'SELECTION_CHANGE' ? [PLUGIN_EVENTS_URI, PLUGIN_SELECTION_URI] : [PLUGIN_EVENTS_URI];
+    for (const uri of uris) {
+      if (!subscriptions.has(uri)) continue;
+      server.server.sendResourceUpdated({ uri }).catch((error) => {
+        logger.debug('Failed to send resource update', { uri, error });
+      });
+    }
+  });
+  
+  server.server.onclose = unsubscribe;
+}
@@ -1,350 +1,269 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
-import { createLogger, getConfig, formatErrorForMcp } from './lib/index.js';
-import { getPluginBridge } from './services/plugin-bridge/index.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger, getConfig, formatErrorForMcp, type ToolContext } from './lib/index.js';
+import { getPluginBridge, runWithPluginTarget } from './services/plugin-bridge/index.js';
+import { startHttpServer, MCP_PATH, SSE_PATH } from './transports/index.js';
+import type { ImageTile } from './types/mcp.js';
+import type { ToolDefinition } from './tools/registry.js';
 
 import {
-  getFile, getFileToolDefinition,
-  getNode, getNodeToolDefinition,
-  getComponents, getComponentsToolDefinition,
-  getStyles, getStylesToolDefinition,
-  getVariables, getVariablesToolDefinition,
-  exportImage, exportImageToolDefinition,
+  getFileToolDefinition,
+  getNodeToolDefinition,
+  getComponentsToolDefinition,
+  getStylesToolDefinition,
+  getVariablesToolDefinition,
+  exportImageToolDefinition,
 } from './tools/read/index.js';
 
 import {
-  createFrame, createFrameToolDefinition,
-  createRectangle, createRectangleToolDefinition,
-  createText, createTextToolDefinition,
-  updateNode, updateNodeToolDefinition,
-  applyAutoLayout, applyAutoLayoutToolDefinition,
-  setFills, setFillsToolDefinition,
-  deleteNode, deleteNodeToolDefinition,
-  getSelection, getSelectionToolDefinition,
+  createFrameToolDefinition,
+  createRectangleToolDefinition,
+  createTextToolDefinition,
+  updateNodeToolDefinition,
+  applyAutoLayoutToolDefinition,
+  setFillsToolDefinition,
+  deleteNodeToolDefinition,
+  getSelectionToolDefinition,
+  createComponentToolDefinition,
+  createInstanceToolDefinition,
+  combineAsVariantsToolDefinition,
+  addVariantPropertyToolDefinition,
+  renameVariantPropertyToolDefinition,
+  setVariantPropertiesToolDefinition,
+  addComponentPropertyToolDefinition,
+  editComponentPropertyToolDefinition,
+  deleteComponentPropertyToolDefinition,
+  setInstancePropertiesToolDefinition,
+  getLocalVariablesToolDefinition,
+  createVariableCollectionToolDefinition,
+  updateVariableCollectionToolDefinition,
+  deleteVariableCollectionToolDefinition,
+  createVariableToolDefinition,
+  updateVariableToolDefinition,
+  deleteVariableToolDefinition,
+  bindVariablesToolDefinition,
+  getLocalStylesToolDefinition,
+  createStyleToolDefinition,
+  updateStyleToolDefinition,
+  applyStyleToolDefinition,
+  createVectorFromSvgToolDefinition,
+  createVectorToolDefinition,
+  booleanOperationToolDefinition,
+  flattenNodesToolDefinition,
+  setMaskToolDefinition,
+  createEllipseToolDefinition,
+  createLineToolDefinition,
+  setStrokesToolDefinition,
+  setEffectsToolDefinition,
+  groupNodesToolDefinition,
+  setConstraintsToolDefinition,
+  moveNodeToolDefinition,
+  resizeNodeToolDefinition,
+  cloneNodeToolDefinition,
+  setSelectionToolDefinition,
+  getCurrentPageToolDefinition,
+  createPageToolDefinition,
+  createTreeToolDefinition,
+  readLiveNodeToolDefinition,
+  findNodesToolDefinition,
+  getPluginEventsToolDefinition,
+  listPluginConnectionsToolDefinition,
+  beginTransactionToolDefinition,
+  commitTransactionToolDefinition,
+  rollbackTransactionToolDefinition,
 } from './tools/write/index.js';
 
 import {
-  captureWebpageTool, captureWebpageToolDefinition,
-  reconstructPage, reconstructPageToolDefinition,
-  generateUI, generateUIToolDefinition,
-  analyzeCodebaseTool, analyzeCodebaseToolDefinition,
-  syncDesignTokens, syncDesignTokensToolDefinition,
+  captureWebpageToolDefinition,
+  reconstructPageToolDefinition,
+  generateUIToolDefinition,
+  analyzeCodebaseToolDefinition,
+  syncDesignTokensToolDefinition,
 } from './tools/orchestrated/index.js';
 
-const logger = createLogger('server');
-
-export function createServer(): McpServer {
-  const server = new McpServer({
-    name: 'figmad-mcp',
-    version: '0.1.0',
-  });
-
-  server.tool(
-    getFileToolDefinition.name,
-    getFileToolDefinition.description,
-    getFileToolDefinition.inputSchema,
-    async (params) => {
-      try {
-        const result = await getFile(params as Parameters<typeof getFile>[0]);
-        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-      } catch (error) {
-        const { code, message } = formatErrorForMcp(error);
-        return { content: [{ type: 'text', text: `Error [${code}]: ${message}` }], isError: true };
-      }
-    }
-  );
-
-  server.tool(
-    getNodeToolDefinition.name,
-    getNodeToolDefinition.description,
-    getNodeToolDefinition.inputSchema,
-    async (params) => {
-      try {
-        const result = await getNode(params as Parameters<typeof getNode>[0]);
-        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-      } catch (error) {
-        const { code, message } = formatErrorForMcp(error);
-        return { content: [{ type: 'text', text: `Error [${code}]: ${message}` }], isError: true };
-      }
-    }
-  );
-
-  server.tool(
-    getComponentsToolDefinition.name,
-    getComponentsToolDefinition.description,
-    getComponentsToolDefinition.inputSchema,
-    async (params) => {
-      try {
-        const result = await getComponents(params as Parameters<typeof getComponents>[0]);
-        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-      } catch (error) {
-        const { code, message } = formatErrorForMcp(error);
-        return { content: [{ type: 'text', text: `Error [${code}]: ${message}` }], isError: true };
-      }
-    }
-  );
-
-  server.tool(
-    getStylesToolDefinition.name,
-    getStylesToolDefinition.description,
-    getStylesToolDefinition.inputSchema,
-    async (params) => {
-      try {
-        const result = await getStyles(params as Parameters<typeof getStyles>[0]);
-        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-      } catch (error) {
-        const { code, message } = formatErrorForMcp(error);
-        return { content: [{ type: 'text', text: `Error [${code}]: ${message}` }], isError: true };
-      }
-    }
-  );
-
-  server.tool(
-    getVariablesToolDefinition.name,
-    getVariablesToolDefinition.description,
-    getVariablesToolDefinition.inputSchema,
-    async (params) => {
-      try {
-        const result = await getVariables(params as Parameters<typeof getVariables>[0]);
-        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-      } catch (error) {
-        const { code, message } = formatErrorForMcp(error);
-        return { content: [{ type: 'text', text: `Error [${code}]: ${message}` }], isError: true };
-      }
-    }
-  );
-
-  server.tool(
-    exportImageToolDefinition.name,
-    exportImageToolDefinition.description,
-    exportImageToolDefinition.inputSchema,
-    async (params) => {
-      try {
-        const result = await exportImage(params as Parameters<typeof exportImage>[0]);
-        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-      } catch (error) {
-        const { code, message } = formatErrorForMcp(error);
-        return { content: [{ type: 'text', text: `Error [${code}]: ${message}` }], isError: true };
-      }
-    }
-  );
-
-  server.tool(
-    createFrameToolDefinition.name,
-    createFrameToolDefinition.description,
-    createFrameToolDefinition.inputSchema,
-    async (params) => {
-      try {
-        const result = await createFrame(params as Parameters<typeof createFrame>[0]);
-        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-      } catch (error) {
-        const { code, message } = formatErrorForMcp(error);
-        return { content: [{ type: 'text', text: `Error [${code}]: ${message}` }], isError: true };
-      }
-    }
-  );
-
-  server.tool(
-    createRectangleToolDefinition.name,
-    createRectangleToolDefinition.description,
-    createRectangleToolDefinition.inputSchema,
-    async (params) => {
-      try {
-        const result = await createRectangle(params as Parameters<typeof createRectangle>[0]);
-        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-      } catch (error) {
-        const { code, message } = formatErrorForMcp(error);
-        return { content: [{ type: 'text', text: `Error [${code}]: ${message}` }], isError: true };
-      }
-    }
-  );
-
-  server.tool(
-    createTextToolDefinition.name,
-    createTextToolDefinition.description,
-    createTextToolDefinition.inputSchema,
-    async (params) => {
-      try {
-        const result = await createText(params as Parameters<typeof createText>[0]);
-        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-      } catch (error) {
-        const { code, message } = formatErrorForMcp(error);
-        return { content: [{ type: 'text', text: `Error [${code}]: ${message}` }], isError: true };
-      }
-    }
-  );
+import {
+  registerPluginEventResources,
+  registerFigmaFileResources,
+  registerCaptureResources,
+  registerAnalysisResources,
+} from './resources/index.js';
+import { registerWorkflowPrompts } from './prompts/index.js';
 
-  server.tool(
-    updateNodeToolDefinition.name,
-    updateNodeToolDefinition.description,
-    updateNodeToolDefinition.inputSchema,
-    async (params) => {
-      try {
-        const result = await updateNode(params as Parameters<typeof updateNode>[0]);
-        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-      } catch (error) {
-        const { code, message } = formatErrorForMcp(error);
-        return { content: [{ type: 'text', text: `Error [${code}]: ${message}` }], isError: true };
-      }
-    }
-  );
+const logger = createLogger('server');
 
-  server.tool(
-    applyAutoLayoutToolDefinition.name,
-    applyAutoLayoutToolDefinition.description,
-    applyAutoLayoutToolDefinition.inputSchema,
-    async (params) => {
-      try {
-        const result = await applyAutoLayout(params as Parameters<typeof applyAutoLayout>[0]);
-        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-      } catch (error) {
-        const { code, message } = formatErrorForMcp(error);
-        return { content: [{ type: 'text', text: `Error [${code}]: ${message}` }], isError: true };
-      }
-    }
-  );
+// Plugin-backed tools accept fileKey/connectionId to pick one of several open files
+const pluginTargetShape = {
+  fileKey: z.string().optional().describe('Send to the plugin running in this file (see list_plugin_connections)'),
+  connectionId: z.string().optional().describe('Send to this plugin connection (see list_plugin_connections)'),
+  timeoutMs: z.number().optional().describe('Timeout per plugin command in milliseconds (default: 30000)'),
+};
 
-  server.tool(
-    setFillsToolDefinition.name,
-    setFillsToolDefinition.description,
-    setFillsToolDefinition.inputSchema,
-    async (params) => {
-      try {
-        const result = await setFills(params as Parameters<typeof setFills>[0]);
-        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-      } catch (error) {
-        const { code, message } = formatErrorForMcp(error);
-        return { content: [{ type: 'text', text: `Error [${code}]: ${message}` }], isError: true };
-      }
-    }
-  );
+// Registered in this order; clients list tools as given
+const tools: ToolDefinition[] = [
+  getFileToolDefinition,
+  getNodeToolDefinition,
+  getComponentsToolDefinition,
+  getStylesToolDefinition,
+  getVariablesToolDefinition,
+  exportImageToolDefinition,
+  createFrameToolDefinition,
+  createRectangleToolDefinition,
+  createTextToolDefinition,
+  updateNodeToolDefinition,
+  applyAutoLayoutToolDefinition,
+  setFillsToolDefinition,
+  deleteNodeToolDefinition,
+  getSelectionToolDefinition,
+  createComponentToolDefinition,
+  createInstanceToolDefinition,
+  combineAsVariantsToolDefinition,
+  addVariantPropertyToolDefinition,
+  renameVariantPropertyToolDefinition,
+  setVariantPropertiesToolDefinition,
+  addComponentPropertyToolDefinition,
+  editComponentPropertyToolDefinition,
+  deleteComponentPropertyToolDefinition,
+  setInstancePropertiesToolDefinition,
+  getLocalVariablesToolDefinition,
+  createVariableCollectionToolDefinition,
+  updateVariableCollectionToolDefinition,
+  deleteVariableCollectionToolDefinition,
+  createVariableToolDefinition,
+  updateVariableToolDefinition,
+  deleteVariableToolDefinition,
+  bindVariablesToolDefinition,
+  getLocalStylesToolDefinition,
+  createStyleToolDefinition,
+  updateStyleToolDefinition,
+  applyStyleToolDefinition,
+  createVectorFromSvgToolDefinition,
+  createVectorToolDefinition,
+  booleanOperationToolDefinition,
+  flattenNodesToolDefinition,
+  setMaskToolDefinition,
+  createEllipseToolDefinition,
+  createLineToolDefinition,
+  setStrokesToolDefinition,
+  setEffectsToolDefinition,
+  groupNodesToolDefinition,
+  setConstraintsToolDefinition,
+  moveNodeToolDefinition,
+  resizeNodeToolDefinition,
+  cloneNodeToolDefinition,
+  setSelectionToolDefinition,
+  getCurrentPageToolDefinition,
+  createPageToolDefinition,
+  createTreeToolDefinition,
+  readLiveNodeToolDefinition,
+  findNodesToolDefinition,
+  getPluginEventsToolDefinition,
+  captureWebpageToolDefinition,
+  reconstructPageToolDefinition,
+  generateUIToolDefinition,
+  analyzeCodebaseToolDefinition,
+  syncDesignTokensToolDefinition,
+  beginTransactionToolDefinition,
+  commitTransactionToolDefinition,
+  rollbackTransactionToolDefinition,
+  listPluginConnectionsToolDefinition,
+];
 
-  server.tool(
-    deleteNodeToolDefinition.name,
-    deleteNodeToolDefinition.description,
-    deleteNodeToolDefinition.inputSchema,
-    async (params) => {
-      try {
-        const result = await deleteNode(params as Parameters<typeof deleteNode>[0]);
-        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-      } catch (error) {
-        const { code, message } = formatErrorForMcp(error);
-        return { content: [{ type: 'text', text: `Error [${code}]: ${message}` }], isError: true };
-      }
-    }
+function callWithPluginTarget<T>(
+  params: Record<string, unknown>,
+  sessionId: string | undefined,
+  fn: (params: Record<string, unknown>) => Promise<T>
+): Promise<T> {
+  const { fileKey, connectionId, timeoutMs, ...rest } = params;
+  return runWithPluginTarget(
+    {
+      fileKey: fileKey as string | undefined,
+      connectionId: connectionId as string | undefined,
+      timeoutMs: timeoutMs as number | undefined,
+      sessionId,
+    },
+    () => fn(rest)
   );
+}
 
-  server.tool(
-    getSelectionToolDefinition.name,
-    getSelectionToolDefinition.description,
-    getSelectionToolDefinition.inputSchema,
-    async () => {
-      try {
-        const result = await getSelection();
-        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-      } catch (error) {
-        const { code, message } = formatErrorForMcp(error);
-        return { content: [{ type: 'text', text: `Error [${code}]: ${message}` }], isError: true };
-      }
-    }
-  );
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
 
-  server.tool(
-    captureWebpageToolDefinition.name,
-    captureWebpageToolDefinition.description,
-    captureWebpageToolDefinition.inputSchema,
-    async (params) => {
-      try {
-        const result = await captureWebpageTool(params as Parameters<typeof captureWebpageTool>[0]);
-        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-      } catch (error) {
-        const { code, message } = formatErrorForMcp(error);
-        return { content: [{ type: 'text', text: `Error [${code}]: ${message}` }], isError: true };
-      }
-    }
-  );
+// Progress is only sent when the client asked for it with a progress token
+function createToolContext(extra: ToolExtra): ToolContext {
+  const progressToken = extra._meta?.progressToken;
+  return {
+    signal: extra.signal,
+    reportProgress: progressToken === undefined
+      ? undefined
+      : (progress, total, message) => {
+          extra.sendNotification({
+            method: 'notifications/progress',
+            params: { progressToken, progress, total, message },
+          }).catch((error) => logger.debug('Failed to send progress notification', { error: String(error) }));
+        },
+  };
+}
 
-  server.tool(
-    reconstructPageToolDefinition.name,
-    reconstructPageToolDefinition.description,
-    reconstructPageToolDefinition.inputSchema,
-    async (params) => {
-      try {
-        const result = await reconstructPage(params as Parameters<typeof reconstructPage>[0]);
-        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-      } catch (error) {
-        const { code, message } = formatErrorForMcp(error);
-        return { content: [{ type: 'text', text: `Error [${code}]: ${message}` }], isError: true };
-      }
-    }
-  );
+// structuredContent carries the result as plain JSON; images are sent as image
+// content and keep only their size and region there
+function toToolResult(result: Record<string, unknown>): CallToolResult {
+  const { images, ...rest } = result as { images?: ImageTile[] };
+  const structuredContent = JSON.parse(JSON.stringify(
+    images ? { ...rest, images: images.map(({ data: _data, ...tile }) => tile) } : rest
+  )) as Record<string, unknown>;
+  return {
+    content: [
+      { type: 'text', text: JSON.stringify(structuredContent, null, 2) },
+      ...(images ?? []).map(({ data, mimeType }) => ({ type: 'image' as const, data, mimeType })),
+    ],
+    structuredContent,
+  };
+}
 
-  server.tool(
-    generateUIToolDefinition.name,
-    generateUIToolDefinition.description,
-    generateUIToolDefinition.inputSchema,
-    async (params) => {
+// The SDK validates arguments against inputSchema before the handler runs and
+// the returned structuredContent against outputSchema
+function registerTool(server: McpServer, tool: ToolDefinition): void {
+  server.registerTool(
+    tool.name,
+    {
+      title: tool.annotations.title,
+      description: tool.description,
+      inputSchema: tool.pluginTarget ? tool.inputSchema.extend(pluginTargetShape) : tool.inputSchema,
+      outputSchema: tool.outputSchema,
+      annotations: tool.annotations,
+    },
+    async (params, extra) => {
       try {
-        const result = await generateUI(params as Parameters<typeof generateUI>[0]);
-        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+        const context = createToolContext(extra);
+        const result = tool.pluginTarget
+          ? await callWithPluginTarget(params, extra.sessionId, (rest) => tool.handler(rest, context))
+          : await tool.handler(params, context);
+        return toToolResult(result);
       } catch (error) {
         const { code, message } = formatErrorForMcp(error);
         return { content: [{ type: 'text', text: `Error [${code}]: ${message}` }], isError: true };
       }
     }
   );
+}
 
-  server.tool(
-    analyzeCodebaseToolDefinition.name,
-    analyzeCodebaseToolDefinition.description,
-    analyzeCodebaseToolDefinition.inputSchema,
-    async (params) => {
-      try {
-        const result = await analyzeCodebaseTool(params as Parameters<typeof analyzeCodebaseTool>[0]);
-        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-      } catch (error) {
-        const { code, message } = formatErrorForMcp(error);
-        return { content: [{ type: 'text', text: `Error [${code}]: ${message}` }], isError: true };
-      }
-    }
-  );
+export function createServer(): McpServer {
+  const server = new McpServer({
+    name: 'figmad-mcp',
+    version: '0.1.0',
+  });
 
-  server.tool(
-    syncDesignTokensToolDefinition.name,
-    syncDesignTokensToolDefinition.description,
-    syncDesignTokensToolDefinition.inputSchema,
-    async (params) => {
-      try {
-        const result = await syncDesignTokens(params as Parameters<typeof syncDesignTokens>[0]);
-        return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-      } catch (error) {
-        const { code, message } = formatErrorForMcp(error);
-        return { content: [{ type: 'text', text: `Error [${code}]: ${message}` }], isError: true };
-      }
-    }
-  );
+  for (const tool of tools) {
+    registerTool(server, tool);
+  }
 
-  server.tool(
-    'plugin_status',
-    'Check if the Figma plugin is connected. Write operations require the plugin.',
-    { type: 'object', properties: {}, required: [] },
-    async () => {
-      const bridge = getPluginBridge();
-      const connected = bridge.isConnected();
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify({
-            connected,
-            message: connected 
-              ? 'Figma plugin is connected. Write operations are available.'
-              : 'Figma plugin is not connected. Please open Figma and run the figmad plugin. Read operations (get_file, export_image, etc.) still work.',
-          }, null, 2),
-        }],
-      };
-    }
-  );
+  registerPluginEventResources(server);
+  registerFigmaFileResources(server);
+  registerCaptureResources(server);
+  registerAnalysisResources(server);
+  registerWorkflowPrompts(server);
 
   return server;
 }
@@ -354,15 +273,32 @@ export async function startServer(): Promise<void> {
     const config = getConfig();
     logger.info('Starting figmad-mcp server');
     
-    const bridge = getPluginBridge(config.pluginBridgePort);
+    const bridge = getPluginBridge({
+      port: config.pluginBridgePort,
+      host: config.pluginBridgeHost,
+      token: config.pluginBridgeToken,
+      allowedOrigins: config.pluginBridgeAllowedOrigins,
+      commandTimeoutMs: config.pluginCommandTimeoutMs,
+      reconnectGraceMs: config.pluginReconnectGraceMs,
+    });
     await bridge.start();
     
-    const server = createServer();
-    const transport = new StdioServerTransport();
-    
-    await server.connect(transport);
-    
-    logger.info('Server running on stdio');
+    if (config.transport === 'http') {
+      await startHttpServer(createServer, {
+        port: config.httpPort,
+        host: config.httpHost,
+        token: config.httpToken,
+      });
+      const baseUrl = `http://${config.httpHost}:${config.httpPort}`;
+      logger.info(`Server running on ${baseUrl}${MCP_PATH} (legacy SSE: ${baseUrl}${SSE_PATH})`);
+    } else {
+      const server = createServer();
+      const transport = new StdioServerTransport();
+      
+      await server.connect(transport);
+      
+      logger.info('Server running on stdio');
+    }
     logger.info(`Plugin bridge listening on port ${config.pluginBridgePort}`);
   } catch (error) {
     logger.error('Failed to start server', error);
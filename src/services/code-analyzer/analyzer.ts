@@ -1,21 +1,25 @@
 import { readFile, readdir, stat } from 'fs/promises';
 import { join, extname, basename } from 'path';
-import { createLogger } from '../../lib/index.js';
+import { createLogger, throwIfCancelled, type ToolContext } from '../../lib/index.js';
 import type { CodeAnalysis, ComponentDefinition, DesignTokens, PropDefinition } from '../../types/mcp.js';
 import { generateId } from '../../lib/utils.js';
 
 const logger = createLogger('code-analyzer');
 
+const PROGRESS_INTERVAL_FILES = 50;
+
 export async function analyzeCodebase(
   rootPath: string,
-  options: { framework?: string; includeTokens?: boolean } = {}
+  options: { framework?: string; includeTokens?: boolean } = {},
+  context: ToolContext = {}
 ): Promise<CodeAnalysis> {
   const { includeTokens = true } = options;
   
   logger.info('Analyzing codebase', { rootPath });
   
   const framework = options.framework || await detectFramework(rootPath);
-  const components = await findComponents(rootPath, framework);
+  const components = await findComponents(rootPath, framework, context);
+  throwIfCancelled(context.signal);
   const designTokens = includeTokens ? await extractDesignTokens(rootPath) : createEmptyTokens();
   
   const analysis: CodeAnalysis = {
@@ -53,12 +57,19 @@ async function detectFramework(rootPath: string): Promise<string> {
   return 'html';
 }
 
-async function findComponents(rootPath: string, framework: string): Promise<ComponentDefinition[]> {
+async function findComponents(
+  rootPath: string,
+  framework: string,
+  context: ToolContext = {}
+): Promise<ComponentDefinition[]> {
   const components: ComponentDefinition[] = [];
   const extensions = getExtensionsForFramework(framework);
   const excludeDirs = ['node_modules', '.git', 'dist', 'build', '.next', '.nuxt', '.svelte-kit'];
+  let scanned = 0;
   
   async function scanDir(dirPath: string): Promise<void> {
+    // Outside the try so cancellation is not swallowed with read errors
+    throwIfCancelled(context.signal);
     try {
       const entries = await readdir(dirPath, { withFileTypes: true });
       
@@ -70,6 +81,9 @@ async function findComponents(rootPath: string, framework: string): Promise<Comp
             await scanDir(fullPath);
           }
         } else if (entry.isFile()) {
+          if (++scanned % PROGRESS_INTERVAL_FILES === 0) {
+            context.reportProgress?.(scanned, undefined, `Scanned ${scanned} files, found ${components.length} components`);
+          }
           const ext = extname(entry.name);
           if (extensions.includes(ext)) {
             const component = await parseComponentFile(fullPath, framework);
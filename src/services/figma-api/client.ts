@@ -3,6 +3,7 @@ import type {
   FigmaFile, 
   FigmaNode, 
   ComponentMetadata, 
+  ComponentSetMetadata,
   StyleMetadata,
   FigmaVariable,
   FigmaVariableCollection,
@@ -103,6 +104,10 @@ export class FigmaApiClient {
     return this.requestWithRetry(`/v1/files/${fileKey}/components`);
   }
 
+  async getComponentSets(fileKey: string): Promise<{ meta: { component_sets: ComponentSetMetadata[] } }> {
+    return this.requestWithRetry(`/v1/files/${fileKey}/component_sets`);
+  }
+
   async getStyles(fileKey: string): Promise<{ meta: { styles: StyleMetadata[] } }> {
     return this.requestWithRetry(`/v1/files/${fileKey}/styles`);
   }
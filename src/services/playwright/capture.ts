@@ -1,5 +1,12 @@
 import { chromium, type Page, type Browser } from 'playwright';
-import { createLogger, generateId, CaptureError } from '../../lib/index.js';
+import {
+  createLogger,
+  generateId,
+  CaptureError,
+  OperationCancelledError,
+  throwIfCancelled,
+  type ToolContext,
+} from '../../lib/index.js';
 import type { 
   WebCapture, 
   CapturedElement, 
@@ -28,7 +35,10 @@ export async function closeBrowser(): Promise<void> {
   }
 }
 
-export async function captureWebpage(options: CaptureOptions): Promise<WebCapture> {
+// Steps reported as progress: load, screenshot, DOM, components
+const CAPTURE_STEPS = 4;
+
+export async function captureWebpage(options: CaptureOptions, toolContext: ToolContext = {}): Promise<WebCapture> {
   const {
     url,
     viewport = { width: 1440, height: 900 },
@@ -52,8 +62,10 @@ export async function captureWebpage(options: CaptureOptions): Promise<WebCaptur
   }
 
   const page = await context.newPage();
+  const { signal, reportProgress } = toolContext;
 
   try {
+    reportProgress?.(0, CAPTURE_STEPS, `Loading ${url}`);
     await page.goto(url, { waitUntil: 'networkidle', timeout: 30000 });
 
     if (waitForSelector) {
@@ -68,17 +80,24 @@ export async function captureWebpage(options: CaptureOptions): Promise<WebCaptur
       await autoScroll(page);
     }
 
+    throwIfCancelled(signal);
+    reportProgress?.(1, CAPTURE_STEPS, 'Taking screenshot');
     const screenshot = await page.screenshot({ fullPage, type: 'png' });
 
     let dom = { elements: [], rootElement: {} as CapturedElement, stylesheets: [] as string[] };
     if (captureDom) {
+      throwIfCancelled(signal);
+      reportProgress?.(2, CAPTURE_STEPS, 'Extracting DOM');
       dom = await extractDOM(page);
     }
 
     let components: DetectedComponent[] = [];
     if (detectComponents && captureDom) {
+      throwIfCancelled(signal);
+      reportProgress?.(3, CAPTURE_STEPS, `Detecting components in ${dom.elements.length} elements`);
       components = detectUIComponents(dom.rootElement);
     }
+    reportProgress?.(CAPTURE_STEPS, CAPTURE_STEPS, 'Capture complete');
 
     const capture: WebCapture = {
       id: generateId(),
@@ -98,6 +117,7 @@ export async function captureWebpage(options: CaptureOptions): Promise<WebCaptur
 
     return capture;
   } catch (error) {
+    if (error instanceof OperationCancelledError) throw error;
     throw new CaptureError(`Failed to capture ${url}: ${error instanceof Error ? error.message : String(error)}`);
   } finally {
     await context.close();
@@ -184,10 +204,30 @@ async function extractDOM(page: Page): Promise<{ elements: CapturedElement[]; ro
         attributes[attr.name] = attr.value;
       }
 
+      const isSvg = el.tagName.toLowerCase() === 'svg';
+
+      // Inline SVGs are kept as markup and imported whole, so their shapes are not walked
       const children: CapturedElement[] = [];
-      for (const child of el.children) {
-        const extracted = extractElement(child, depth + 1);
-        if (extracted) children.push(extracted);
+      if (!isSvg) {
+        for (const child of el.children) {
+          const extracted = extractElement(child, depth + 1);
+          if (extracted) children.push(extracted);
+        }
+      }
+
+      let svgMarkup: string | undefined;
+      if (isSvg) {
+        const clone = el.cloneNode(true);
+        clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+        if (!clone.hasAttribute('width')) clone.setAttribute('width', String(rect.width));
+        if (!clone.hasAttribute('height')) clone.setAttribute('height', String(rect.height));
+        // Resolved from the page's globals: the server tsconfig has no DOM lib
+        const { XMLSerializer: Serializer } = globalThis as unknown as {
+          XMLSerializer: new () => { serializeToString(node: unknown): string };
+        };
+        svgMarkup = new Serializer()
+          .serializeToString(clone)
+          .replace(/currentColor/g, computed.color);
       }
 
       let textContent: string | undefined;
@@ -203,7 +243,7 @@ async function extractDOM(page: Page): Promise<{ elements: CapturedElement[]; ro
       return {
         tagName: el.tagName.toLowerCase(),
         id: el.id || undefined,
-        className: el.className || undefined,
+        className: (typeof el.className === 'string' ? el.className : el.getAttribute('class')) || undefined,
         boundingBox: {
           x: rect.x,
           y: rect.y,
@@ -213,6 +253,7 @@ async function extractDOM(page: Page): Promise<{ elements: CapturedElement[]; ro
         computedStyles: getComputedStylesForElement(el) as unknown as ComputedStyles,
         children,
         textContent,
+        svgMarkup,
         attributes,
         isVisible: true,
         zIndex: parseInt(computed.zIndex) || 0,
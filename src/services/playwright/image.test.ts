@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { fitImage, planTiles, readJpegSize } from './image.js';
+
+// SOI, a JFIF APP0 segment, a restart marker, fill bytes, then the frame header
+function jpeg(width: number, height: number, sofMarker = 0xc0): Buffer {
+  const app0 = [0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00];
+  const sof = [0xff, sofMarker, 0x00, 0x11, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff, 0x03, ...new Array(9).fill(0)];
+  return Buffer.from([0xff, 0xd8, ...app0, 0xff, 0xd0, 0xff, 0xff, ...sof, 0xff, 0xd9]);
+}
+
+function png(width: number, height: number): Buffer {
+  const bytes = Buffer.alloc(33);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(bytes);
+  bytes.writeUInt32BE(13, 8);
+  bytes.write('IHDR', 12, 'ascii');
+  bytes.writeUInt32BE(width, 16);
+  bytes.writeUInt32BE(height, 20);
+  return bytes;
+}
+
+describe('readJpegSize', () => {
+  it('reads the size from baseline and progressive frame headers', () => {
+    expect(readJpegSize(jpeg(720, 477))).toEqual({ width: 720, height: 477 });
+    expect(readJpegSize(jpeg(4000, 3000, 0xc2))).toEqual({ width: 4000, height: 3000 });
+  });
+
+  it('does not mistake a Huffman table for a frame header', () => {
+    const dht = [0xff, 0xc4, 0x00, 0x05, 0x00, 0x00, 0x00];
+    const bytes = jpeg(10, 20);
+    expect(readJpegSize(Buffer.concat([bytes.subarray(0, 2), Buffer.from(dht), bytes.subarray(2)]))).toEqual({ width: 10, height: 20 });
+  });
+
+  it('gives up on truncated or frameless data', () => {
+    expect(readJpegSize(jpeg(720, 477).subarray(0, 30))).toBeUndefined();
+    expect(readJpegSize(Buffer.from([0xff, 0xd8, 0xff, 0xd9]))).toBeUndefined();
+  });
+});
+
+describe('planTiles', () => {
+  it('keeps images that fit as a single unscaled tile', () => {
+    expect(planTiles(800, 600, 1568, 4)).toEqual({ scale: 1, regions: [{ x: 0, y: 0, width: 800, height: 600 }] });
+  });
+
+  it('fits the width, then cuts tall images into tiles', () => {
+    const { scale, regions } = planTiles(3136, 6000, 1568, 4);
+    expect(scale).toBe(0.5);
+    expect(regions).toHaveLength(2);
+    expect(regions.map(r => r.height).reduce((a, b) => a + b)).toBe(6000);
+  });
+
+  it('shrinks further when more than maxTiles would be needed', () => {
+    const { scale, regions } = planTiles(1000, 20000, 1000, 4);
+    expect(scale).toBe(0.2);
+    expect(regions).toHaveLength(4);
+    expect(regions[3]).toEqual({ x: 0, y: 15000, width: 1000, height: 5000 });
+  });
+});
+
+describe('fitImage', () => {
+  it('passes small PNGs and JPEGs through without a browser', async () => {
+    const [pngTile] = await fitImage(png(100, 50));
+    expect(pngTile).toMatchObject({ mimeType: 'image/png', width: 100, height: 50 });
+
+    const [jpegTile] = await fitImage(jpeg(640, 480));
+    expect(jpegTile).toMatchObject({ mimeType: 'image/jpeg', width: 640, height: 480 });
+    expect(jpegTile.data).toBe(jpeg(640, 480).toString('base64'));
+  });
+});
@@ -0,0 +1,148 @@
+import { createLogger, ImageLoadError } from '../../lib/index.js';
+import type { ImageTile } from '../../types/mcp.js';
+import { getBrowser } from './capture.js';
+
+const logger = createLogger('playwright:image');
+
+// Longest edge vision models take without resampling the image themselves
+export const DEFAULT_MAX_IMAGE_DIMENSION = 1568;
+export const DEFAULT_MAX_IMAGE_TILES = 4;
+// Keeps each tile under the common 5MB limit once base64 encoded
+const MAX_TILE_BYTES = 3.5 * 1024 * 1024;
+
+export interface FitImageOptions {
+  maxDimension?: number;
+  maxTiles?: number; // Tall images are cut into up to this many top-to-bottom tiles
+}
+
+interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Downscales a PNG or JPEG so no edge exceeds maxDimension, cutting tall
+ * images such as full-page screenshots into tiles instead of shrinking them
+ * to an unreadable strip. Images that already fit are returned unchanged;
+ * the rest are rendered at the target size in the shared headless browser.
+ */
+export async function fitImage(bytes: Buffer, options: FitImageOptions = {}): Promise<ImageTile[]> {
+  const { maxDimension = DEFAULT_MAX_IMAGE_DIMENSION, maxTiles = DEFAULT_MAX_IMAGE_TILES } = options;
+  const mimeType = detectMimeType(bytes);
+
+  const size = mimeType === 'image/png' ? readPngSize(bytes) : readJpegSize(bytes);
+  if (size && size.width <= maxDimension && size.height <= maxDimension && bytes.length <= MAX_TILE_BYTES) {
+    return [{
+      data: bytes.toString('base64'),
+      mimeType,
+      width: size.width,
+      height: size.height,
+      region: { x: 0, y: 0, ...size },
+    }];
+  }
+
+  const browser = await getBrowser();
+  const page = await browser.newPage({ deviceScaleFactor: 1 });
+  try {
+    // setContent resolves after the load event, so the image is decoded
+    await page.setContent(
+      `<style>body { margin: 0 } img { display: block }</style><img src="data:${mimeType};base64,${bytes.toString('base64')}">`
+    );
+    const natural = await page.locator('img').boundingBox();
+    if (!natural) {
+      throw new ImageLoadError('Image could not be decoded');
+    }
+
+    const { scale, regions } = planTiles(natural.width, natural.height, maxDimension, maxTiles);
+    const scaledWidth = Math.max(1, Math.round(natural.width * scale));
+    logger.debug('Fitting image', { width: natural.width, height: natural.height, scale, tiles: regions.length });
+
+    await page.addStyleTag({ content: `img { width: ${scaledWidth}px }` });
+
+    const tiles: ImageTile[] = [];
+    for (const region of regions) {
+      const clip = {
+        x: 0,
+        y: Math.round(region.y * scale),
+        width: scaledWidth,
+        height: Math.max(1, Math.round(region.height * scale)),
+      };
+      // Busy screenshots compress poorly as PNG; fall back to JPEG for those
+      let tile = await page.screenshot({ clip, fullPage: true, type: 'png' });
+      let tileType: ImageTile['mimeType'] = 'image/png';
+      if (tile.length > MAX_TILE_BYTES) {
+        tile = await page.screenshot({ clip, fullPage: true, type: 'jpeg', quality: 85 });
+        tileType = 'image/jpeg';
+      }
+      tiles.push({ data: tile.toString('base64'), mimeType: tileType, width: clip.width, height: clip.height, region });
+    }
+    return tiles;
+  } catch (error) {
+    if (error instanceof ImageLoadError) throw error;
+    throw new ImageLoadError('Failed to resize image', error);
+  } finally {
+    await page.close();
+  }
+}
+
+// Fits the width first, then cuts the height into tiles; shrinks further only
+// when more than maxTiles would be needed
+export function planTiles(width: number, height: number, maxDimension: number, maxTiles: number): { scale: number; regions: Region[] } {
+  let scale = Math.min(1, maxDimension / width);
+  let tileCount = Math.ceil((height * scale) / maxDimension);
+  if (tileCount > maxTiles) {
+    scale = (maxTiles * maxDimension) / height;
+    tileCount = maxTiles;
+  }
+
+  const tileHeight = Math.ceil(height / tileCount);
+  const regions: Region[] = [];
+  for (let y = 0; y < height; y += tileHeight) {
+    regions.push({ x: 0, y, width, height: Math.min(tileHeight, height - y) });
+  }
+  return { scale, regions };
+}
+
+function detectMimeType(bytes: Buffer): ImageTile['mimeType'] {
+  if (bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return 'image/jpeg';
+  }
+  throw new ImageLoadError('Only PNG and JPEG images can be returned as image content');
+}
+
+// Width and height are the first fields of the IHDR chunk
+function readPngSize(bytes: Buffer): { width: number; height: number } | undefined {
+  if (bytes.length < 24) return undefined;
+  return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+}
+
+// Walks the marker segments up to the first start-of-frame (SOFn), which holds
+// height then width after the sample precision byte
+export function readJpegSize(bytes: Buffer): { width: number; height: number } | undefined {
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return undefined;
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++; // Fill byte
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2; // Standalone markers carry no length
+      continue;
+    }
+    const isSof = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isSof) {
+      if (offset + 9 > bytes.length) return undefined;
+      return { width: bytes.readUInt16BE(offset + 7), height: bytes.readUInt16BE(offset + 5) };
+    }
+    if (marker === 0xd9 || marker === 0xda) return undefined; // End of image or scan data before any frame
+    offset += 2 + bytes.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
@@ -1 +1,2 @@
 export { captureWebpage, closeBrowser, getBrowser } from './capture.js';
+export { fitImage, DEFAULT_MAX_IMAGE_DIMENSION, DEFAULT_MAX_IMAGE_TILES, type FitImageOptions } from './image.js';
@@ -0,0 +1,104 @@
+import { readFile, realpath } from 'fs/promises';
+import { isAbsolute, relative, resolve, sep } from 'path';
+import { createLogger, getConfig, ImageLoadError } from '../../lib/index.js';
+
+const logger = createLogger('plugin-bridge:images');
+
+// Figma rejects images larger than this
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 30000;
+
+export async function loadImageBytes(source: string): Promise<Buffer> {
+  let bytes: Buffer;
+  
+  if (source.startsWith('data:')) {
+    const match = source.match(/^data:[^;,]*(;base64)?,(.*)$/s);
+    if (!match) {
+      throw new ImageLoadError('Malformed data URL');
+    }
+    bytes = match[1]
+      ? Buffer.from(match[2], 'base64')
+      : Buffer.from(decodeURIComponent(match[2]), 'utf8');
+  } else if (/^https?:\/\//.test(source)) {
+    bytes = await fetchImage(source);
+  } else {
+    const path = await resolveLocalPath(source.replace(/^file:\/\//, ''));
+    try {
+      bytes = await readFile(path);
+    } catch (error) {
+      throw new ImageLoadError(`Failed to read image file ${path}`, error);
+    }
+  }
+  
+  if (bytes.length > MAX_IMAGE_BYTES) {
+    throw new ImageLoadError(`Image ${source.substring(0, 80)} exceeds ${MAX_IMAGE_BYTES / 1024 / 1024}MB`);
+  }
+  
+  return bytes;
+}
+
+async function fetchImage(url: string): Promise<Buffer> {
+  logger.debug('Fetching image', { url });
+  let response: Response;
+  try {
+    response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  } catch (error) {
+    throw new ImageLoadError(`Failed to fetch image ${url}`, error);
+  }
+  if (!response.ok) {
+    throw new ImageLoadError(`Failed to fetch image ${url}: HTTP ${response.status}`);
+  }
+  
+  const tooLarge = () => new ImageLoadError(`Image ${url.substring(0, 80)} exceeds ${MAX_IMAGE_BYTES / 1024 / 1024}MB`);
+  if (Number(response.headers.get('content-length')) > MAX_IMAGE_BYTES) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+  if (!response.body) return Buffer.alloc(0);
+  
+  // Read incrementally so a server that lies about or omits content-length
+  // cannot make us buffer more than the limit
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.length;
+      if (size > MAX_IMAGE_BYTES) {
+        await reader.cancel();
+        throw tooLarge();
+      }
+      chunks.push(value);
+    }
+  } catch (error) {
+    if (error instanceof ImageLoadError) throw error;
+    throw new ImageLoadError(`Failed to fetch image ${url}`, error);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Over HTTP the caller may be another machine, so local reads are confined to
+// the capture directory; a stdio client already runs as the local user
+async function resolveLocalPath(source: string): Promise<string> {
+  const path = resolve(source);
+  const config = getConfig();
+  if (config.transport !== 'http') return path;
+  
+  const baseDir = await realpath(resolve(config.captureDir)).catch(() => resolve(config.captureDir));
+  const target = await realpath(path).catch(() => path);
+  const rel = relative(baseDir, target);
+  if (rel === '..' || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+    throw new ImageLoadError(`Local image ${source} is outside ${config.captureDir}; use an http(s) or data URL instead`);
+  }
+  return target;
+}
+
+export async function loadSvgMarkup(source: string): Promise<string> {
+  const markup = (await loadImageBytes(source)).toString('utf8');
+  if (!/<svg[\s>]/i.test(markup)) {
+    throw new ImageLoadError(`${source.substring(0, 80)} does not contain SVG markup`);
+  }
+  return markup;
+}
@@ -1 +1,8 @@
-export { PluginBridge, getPluginBridge } from './server.js';
+export {
+  PluginBridge,
+  getPluginBridge,
+  runWithPluginTarget,
+  PLUGIN_PROTOCOL_VERSION,
+  type PluginBridgeOptions,
+} from './server.js';
+export { loadImageBytes, loadSvgMarkup } from './images.js';
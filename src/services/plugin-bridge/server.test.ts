@@ -0,0 +1,179 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import WebSocket from 'ws';
+import { PluginBridge, PLUGIN_PROTOCOL_VERSION, runWithPluginTarget, type PluginBridgeOptions } from './server.js';
+import { PluginNotConnectedError } from '../../lib/index.js';
+import type { PluginCommand } from '../../types/index.js';
+
+const TOKEN = 'test-token';
+const CAPABILITIES = ['GET_SELECTION', 'BATCH', 'CREATE_FRAME', 'CREATE_RECTANGLE'];
+
+let nextPort = 39400;
+let bridge: PluginBridge | null = null;
+const sockets: WebSocket[] = [];
+
+async function startBridge(options: PluginBridgeOptions = {}): Promise<{ bridge: PluginBridge; port: number }> {
+  const port = nextPort++;
+  bridge = new PluginBridge({ port, token: TOKEN, ...options });
+  await bridge.start();
+  return { bridge, port };
+}
+
+// A fake plugin that pairs and answers each command with handle's result,
+// unless that is undefined
+async function connectPlugin(
+  port: number,
+  handle: (command: PluginCommand) => unknown = () => ({}),
+  token = TOKEN
+): Promise<{ socket: WebSocket; connectionId: string }> {
+  const socket = new WebSocket(`ws://127.0.0.1:${port}`);
+  sockets.push(socket);
+  await new Promise((resolve, reject) => {
+    socket.once('open', resolve);
+    socket.once('error', reject);
+  });
+
+  socket.on('message', (data) => {
+    const message = JSON.parse(data.toString());
+    if (!('params' in message)) return;
+    const result = handle(message as PluginCommand);
+    if (result !== undefined) {
+      socket.send(JSON.stringify({ id: message.id, success: true, result }));
+    }
+  });
+  socket.send(JSON.stringify({
+    type: 'hello',
+    protocolVersion: PLUGIN_PROTOCOL_VERSION,
+    token,
+    capabilities: CAPABILITIES,
+    fileName: 'Test file',
+  }));
+
+  const connectionId = await new Promise<string>((resolve, reject) => {
+    socket.on('message', (data) => {
+      const message = JSON.parse(data.toString());
+      if (message.type === 'welcome') resolve(message.connectionId);
+      if (message.type === 'handshake_error') reject(new Error(message.code));
+    });
+    socket.once('close', () => reject(new Error('closed')));
+  });
+  return { socket, connectionId };
+}
+
+function closed(socket: WebSocket): Promise<void> {
+  return new Promise(resolve => {
+    socket.once('close', () => setTimeout(resolve, 20));
+    socket.close();
+  });
+}
+
+afterEach(() => {
+  for (const socket of sockets.splice(0)) socket.terminate();
+  bridge?.stop();
+  bridge = null;
+});
+
+describe('PluginBridge reconnect grace', () => {
+  it('fails right away when no plugin has connected', async () => {
+    const { bridge } = await startBridge({ reconnectGraceMs: 5000 });
+    const started = Date.now();
+
+    await expect(bridge.sendCommand({ type: 'GET_SELECTION', params: {} })).rejects.toBeInstanceOf(PluginNotConnectedError);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('holds commands issued after a drop until the plugin reconnects', async () => {
+    const { bridge, port } = await startBridge({ reconnectGraceMs: 5000 });
+    await closed((await connectPlugin(port)).socket);
+
+    const pending = bridge.sendCommand({ type: 'GET_SELECTION', params: {} });
+    await connectPlugin(port, () => ({ nodes: [] }));
+
+    await expect(pending).resolves.toEqual({ nodes: [] });
+  });
+
+  it('fails right away once the grace period after a drop has passed', async () => {
+    const { bridge, port } = await startBridge({ reconnectGraceMs: 50 });
+    await closed((await connectPlugin(port)).socket);
+    await new Promise(resolve => setTimeout(resolve, 80));
+    const started = Date.now();
+
+    await expect(bridge.sendCommand({ type: 'GET_SELECTION', params: {} })).rejects.toBeInstanceOf(PluginNotConnectedError);
+    expect(Date.now() - started).toBeLessThan(40);
+  });
+});
+
+describe('PluginBridge pairing', () => {
+  it('rejects invalid tokens', async () => {
+    const { port } = await startBridge();
+
+    await expect(connectPlugin(port, undefined, 'wrong')).rejects.toThrow('INVALID_TOKEN');
+  });
+
+  it('still pairs the plugin while another local client is guessing tokens', async () => {
+    const { bridge, port } = await startBridge();
+    for (let i = 0; i < 5; i++) {
+      await expect(connectPlugin(port, undefined, 'wrong')).rejects.toThrow('INVALID_TOKEN');
+    }
+
+    let answered = false;
+    const guess = connectPlugin(port, undefined, 'wrong').catch(() => { answered = true; });
+    await connectPlugin(port);
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    expect(bridge.isConnected()).toBe(true);
+    expect(answered).toBe(false); // Backed off instead of answered at once
+    sockets.forEach(socket => socket.terminate());
+    await guess;
+  });
+});
+
+describe('PluginBridge responses', () => {
+  it('ignores answers from a connection the command was not sent on', async () => {
+    const { bridge, port } = await startBridge();
+    let commandId = '';
+    const target = await connectPlugin(port, (command) => {
+      commandId = command.id; // Answered below, after the other connection's forged answer
+      return undefined;
+    });
+    const other = await connectPlugin(port);
+
+    const pending = runWithPluginTarget({ connectionId: target.connectionId }, () =>
+      bridge.sendCommand({ type: 'GET_SELECTION', params: {} })
+    );
+    await vi.waitFor(() => expect(commandId).not.toBe(''));
+    other.socket.send(JSON.stringify({ id: commandId, success: true, result: { forged: true } }));
+    await new Promise(resolve => setTimeout(resolve, 50));
+    target.socket.send(JSON.stringify({ id: commandId, success: true, result: { nodes: [] } }));
+
+    await expect(pending).resolves.toEqual({ nodes: [] });
+  });
+});
+
+describe('PluginBridge batch', () => {
+  it('carries created and failed tempIds into later chunks', async () => {
+    const { bridge, port } = await startBridge();
+    const chunks: { size: number; ids: Record<string, string>; failed: string[] }[] = [];
+    await connectPlugin(port, (command) => {
+      const params = command.params as { commands: { tempId?: string }[]; ids: Record<string, string>; failed: string[] };
+      chunks.push({ size: params.commands.length, ids: { ...params.ids }, failed: [...params.failed] });
+      const ids: Record<string, string> = {};
+      const results = params.commands.map(({ tempId }) => {
+        if (tempId === 'broken') return { tempId, success: false, error: 'Bad fill' };
+        if (tempId) ids[tempId] = `node-${tempId}`;
+        return { tempId, success: true, result: { nodeId: `node-${tempId}` } };
+      });
+      return { results, ids };
+    });
+
+    const frame = (tempId: string) => ({ type: 'CREATE_FRAME' as const, tempId, params: { name: tempId, width: 10, height: 10 } });
+    const items = [frame('root'), frame('broken'), ...Array.from({ length: 250 }, (_, i) => frame(`child-${i}`))];
+    const { results, ids } = await bridge.batch(items);
+
+    expect(chunks.map(chunk => chunk.size)).toEqual([200, 52]);
+    expect(chunks[0]).toMatchObject({ ids: {}, failed: [] });
+    expect(chunks[1].ids).toMatchObject({ root: 'node-root', 'child-197': 'node-child-197' });
+    expect(chunks[1].failed).toEqual(['broken']);
+    expect(results).toHaveLength(252);
+    expect(Object.keys(ids)).toHaveLength(251);
+  });
+});
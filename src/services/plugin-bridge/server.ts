@@ -1,26 +1,156 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomBytes, timingSafeEqual } from 'node:crypto';
 import { WebSocketServer, WebSocket } from 'ws';
-import { createLogger, PluginNotConnectedError, PluginTimeoutError, generateId } from '../../lib/index.js';
-import type { PluginCommand, PluginResponse, PluginResult } from '../../types/commands.js';
+import {
+  createLogger,
+  PluginBridgeError,
+  PluginCommandUnsupportedError,
+  PluginConnectionNotFoundError,
+  PluginNotConnectedError,
+  PluginTimeoutError,
+  OperationCancelledError,
+  generateId,
+  throwIfCancelled,
+} from '../../lib/index.js';
+import type {
+  PluginCommand,
+  PluginResponse,
+  PluginResult,
+  PluginEvent,
+  PluginEventMessage,
+  PluginHelloMessage,
+  PluginWelcomeMessage,
+  PluginHandshakeErrorMessage,
+  PluginConnectionInfo,
+  PluginTarget,
+  PluginEventType,
+  BufferedPluginEvent,
+  SelectionNode,
+  ComponentPropertyDefinition,
+  ComponentPropertyType,
+  LiveVariable,
+  LiveVariableCollection,
+  LiveStyle,
+  LiveNode,
+  NodeSummary,
+  PaintParam,
+  BatchItem,
+  BatchItemResult,
+  BatchResult,
+  RollbackResult,
+} from '../../types/commands.js';
+import { loadImageBytes } from './images.js';
 
 const logger = createLogger('plugin-bridge');
 
+// Bump when the command or message shapes change incompatibly
+export const PLUGIN_PROTOCOL_VERSION = 1;
+
 const COMMAND_TIMEOUT_MS = 30000;
+const HANDSHAKE_TIMEOUT_MS = 10000;
+const RECONNECT_GRACE_MS = 15000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+const BATCH_CHUNK_SIZE = 200;
+const BATCH_ITEM_TIMEOUT_MS = 500;
+const EVENT_BUFFER_SIZE = 500;
+const PAIRING_TOKEN_BYTES = 16;
+// Invalid tokens beyond the free attempts are answered ever more slowly; a
+// valid token is always accepted at once
+const FREE_PAIRING_ATTEMPTS = 5;
+const PAIRING_BACKOFF_BASE_MS = 1000;
+const PAIRING_BACKOFF_MAX_MS = 30000;
+const PAIRING_FAILURE_RESET_MS = 60000;
+
+// Figma plugin UIs run in a sandboxed iframe, whose WebSocket Origin is "null"
+const PLUGIN_ORIGIN = 'null';
+
+type CommandParams<T extends PluginCommand['type']> = Extract<PluginCommand, { type: T }>['params'];
 
 type PendingCommand = {
   resolve: (result: PluginResult) => void;
   reject: (error: Error) => void;
   timeout: NodeJS.Timeout;
+  connectionId: string;
+  commandType: string;
+};
+
+type PluginConnection = PluginConnectionInfo & {
+  socket: WebSocket;
+  authenticated: boolean;
+  alive: boolean; // Cleared on each heartbeat ping, set again by the pong
+  remoteAddress: string;
+  handshakeFailed: boolean; // Set while a rejected hello waits out its backoff
+};
+
+type FailedPairings = {
+  count: number;
+  lastFailedAt: number;
+};
+
+// A command waiting for a matching plugin to (re)connect
+type QueuedCommand = {
+  target: PluginTarget;
+  resolve: (connection: PluginConnection) => void;
+  reject: (error: Error) => void;
+  timeout: NodeJS.Timeout;
 };
 
+export interface PluginBridgeOptions {
+  port?: number;
+  host?: string;
+  token?: string; // Pairing token the plugin must present; generated when omitted
+  allowedOrigins?: string[]; // Browser origins accepted besides the plugin's "null" origin
+  commandTimeoutMs?: number;
+  reconnectGraceMs?: number; // How long after a plugin drops commands wait for it to reconnect; 0 fails immediately
+  heartbeatIntervalMs?: number;
+}
+
+// WebSocket close codes in the application range
+const CLOSE_HANDSHAKE_FAILED = 4001;
+
+const targetStorage = new AsyncLocalStorage<PluginTarget>();
+
+/**
+ * Runs fn with commands routed to the given plugin connection. Without a
+ * target, commands go to the most recently active connection. A timeoutMs
+ * applies to each command sent by fn.
+ */
+export function runWithPluginTarget<T>(target: PluginTarget, fn: () => Promise<T>): Promise<T> {
+  return targetStorage.run(target, fn);
+}
+
 export class PluginBridge {
   private wss: WebSocketServer | null = null;
-  private client: WebSocket | null = null;
+  private connections: Map<string, PluginConnection> = new Map();
   private pendingCommands: Map<string, PendingCommand> = new Map();
+  private queuedCommands: Set<QueuedCommand> = new Set();
+  private lastDisconnectAt: number | null = null; // When a paired plugin last dropped
+  private heartbeat: NodeJS.Timeout | null = null;
   private port: number;
+  private host: string;
+  private token: string;
+  private allowedOrigins: Set<string>;
+  private failedPairings: Map<string, FailedPairings> = new Map();
+  private commandTimeoutMs: number;
+  private reconnectGraceMs: number;
+  private heartbeatIntervalMs: number;
   private isRunning: boolean = false;
+  private events: BufferedPluginEvent[] = [];
+  private eventSeq: number = 0;
+  private eventListeners: Set<(event: BufferedPluginEvent) => void> = new Set();
+
+  constructor(options: PluginBridgeOptions = {}) {
+    this.port = options.port ?? 9001;
+    this.host = options.host ?? '127.0.0.1';
+    this.token = options.token ?? randomBytes(PAIRING_TOKEN_BYTES).toString('hex');
+    this.allowedOrigins = new Set([PLUGIN_ORIGIN, ...(options.allowedOrigins ?? [])]);
+    this.commandTimeoutMs = options.commandTimeoutMs ?? COMMAND_TIMEOUT_MS;
+    this.reconnectGraceMs = options.reconnectGraceMs ?? RECONNECT_GRACE_MS;
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? HEARTBEAT_INTERVAL_MS;
+  }
 
-  constructor(port: number = 9001) {
-    this.port = port;
+  getPairingToken(): string {
+    return this.token;
   }
 
   start(): Promise<void> {
@@ -30,11 +160,17 @@ export class PluginBridge {
         return;
       }
 
-      this.wss = new WebSocketServer({ port: this.port });
+      this.wss = new WebSocketServer({
+        host: this.host,
+        port: this.port,
+        verifyClient: ({ origin }: { origin?: string }) => this.verifyClient(origin),
+      });
 
       this.wss.on('listening', () => {
         this.isRunning = true;
-        logger.info(`Plugin bridge listening on port ${this.port}`);
+        logger.info(`Plugin bridge listening on ${this.host}:${this.port}`);
+        logger.info(`Plugin pairing token: ${this.token}`);
+        this.heartbeat = setInterval(() => this.checkHeartbeats(), this.heartbeatIntervalMs);
         resolve();
       });
 
@@ -43,18 +179,25 @@ export class PluginBridge {
         reject(error);
       });
 
-      this.wss.on('connection', (ws) => {
-        this.handleConnection(ws);
+      this.wss.on('connection', (ws, req) => {
+        this.handleConnection(ws, req.socket.remoteAddress ?? 'unknown');
       });
     });
   }
 
   stop(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
     if (this.wss) {
       this.wss.close();
       this.wss = null;
     }
-    this.client = null;
+    for (const connection of this.connections.values()) {
+      connection.socket.close();
+    }
+    this.connections.clear();
     this.isRunning = false;
     
     for (const [id, pending] of this.pendingCommands) {
@@ -63,31 +206,88 @@ export class PluginBridge {
     }
     this.pendingCommands.clear();
     
+    for (const queued of this.queuedCommands) {
+      clearTimeout(queued.timeout);
+      queued.reject(new Error('Plugin bridge stopped'));
+    }
+    this.queuedCommands.clear();
+    
     logger.info('Plugin bridge stopped');
   }
 
-  private handleConnection(ws: WebSocket): void {
-    if (this.client) {
-      logger.warn('New connection replacing existing client');
-      this.client.close();
+  // Browsers always send an Origin, so web pages other than the plugin UI are
+  // refused before the upgrade
+  private verifyClient(origin: string | undefined): boolean {
+    if (origin && !this.allowedOrigins.has(origin)) {
+      logger.warn('Refused plugin connection from disallowed origin', { origin });
+      return false;
     }
+    return true;
+  }
 
-    this.client = ws;
-    logger.info('Figma plugin connected');
+  private handleConnection(ws: WebSocket, remoteAddress: string): void {
+    const now = Date.now();
+    const connection: PluginConnection = {
+      connectionId: generateId(),
+      socket: ws,
+      connectedAt: now,
+      lastSeenAt: now,
+      authenticated: false,
+      alive: true,
+      remoteAddress,
+      handshakeFailed: false,
+    };
+    this.connections.set(connection.connectionId, connection);
+    logger.info('Figma plugin connected', { connectionId: connection.connectionId });
+    
+    const handshakeTimeout = setTimeout(() => {
+      this.rejectHandshake(connection, 'HANDSHAKE_TIMEOUT', `No hello received within ${HANDSHAKE_TIMEOUT_MS}ms`);
+    }, HANDSHAKE_TIMEOUT_MS);
 
     ws.on('message', (data) => {
       try {
-        const message = JSON.parse(data.toString()) as PluginResponse;
-        this.handleResponse(message);
+        const message = JSON.parse(data.toString()) as PluginResponse | PluginEventMessage | PluginHelloMessage;
+        if (!connection.authenticated) {
+          if (connection.handshakeFailed) return;
+          if ('type' in message && message.type === 'hello') {
+            clearTimeout(handshakeTimeout);
+            this.handleHello(connection, message);
+          } else {
+            logger.warn('Ignoring message from unpaired plugin connection', { connectionId: connection.connectionId });
+          }
+          return;
+        }
+        
+        connection.lastSeenAt = Date.now();
+        if ('type' in message && message.type === 'event') {
+          this.handleEvent(connection, message.event);
+        } else {
+          this.handleResponse(connection, message as PluginResponse);
+        }
       } catch (error) {
         logger.error('Failed to parse plugin message', error);
       }
     });
 
+    ws.on('pong', () => {
+      connection.alive = true;
+    });
+
     ws.on('close', () => {
-      if (this.client === ws) {
-        this.client = null;
-        logger.info('Figma plugin disconnected');
+      clearTimeout(handshakeTimeout);
+      this.connections.delete(connection.connectionId);
+      if (connection.authenticated) {
+        this.lastDisconnectAt = Date.now();
+      }
+      logger.info('Figma plugin disconnected', { connectionId: connection.connectionId, fileName: connection.fileName });
+      
+      for (const [id, pending] of this.pendingCommands) {
+        if (pending.connectionId !== connection.connectionId) continue;
+        clearTimeout(pending.timeout);
+        this.pendingCommands.delete(id);
+        pending.reject(new PluginBridgeError(
+          `Figma plugin disconnected before responding to ${pending.commandType}; the command may have been partially applied`
+        ));
       }
     });
 
@@ -96,12 +296,121 @@ export class PluginBridge {
     });
   }
 
-  private handleResponse(response: PluginResponse): void {
+  private handleHello(connection: PluginConnection, hello: PluginHelloMessage): void {
+    if (hello.protocolVersion !== PLUGIN_PROTOCOL_VERSION) {
+      this.rejectHandshake(
+        connection,
+        'PROTOCOL_MISMATCH',
+        `Plugin protocol version ${hello.protocolVersion ?? 'unknown'} does not match server version ${PLUGIN_PROTOCOL_VERSION}. Rebuild the plugin and the server from the same release.`
+      );
+      return;
+    }
+    if (!this.isValidToken(hello.token)) {
+      connection.handshakeFailed = true;
+      setTimeout(() => {
+        this.rejectHandshake(connection, 'INVALID_TOKEN', 'Invalid pairing token. Enter the token printed by the MCP server at startup.');
+      }, this.recordFailedPairing(connection.remoteAddress));
+      return;
+    }
+    
+    connection.authenticated = true;
+    connection.protocolVersion = hello.protocolVersion;
+    connection.capabilities = hello.capabilities ?? [];
+    connection.fileKey = hello.fileKey;
+    connection.fileName = hello.fileName;
+    connection.user = hello.user;
+    connection.lastSeenAt = Date.now();
+    
+    const welcome: PluginWelcomeMessage = {
+      type: 'welcome',
+      protocolVersion: PLUGIN_PROTOCOL_VERSION,
+      connectionId: connection.connectionId,
+    };
+    connection.socket.send(JSON.stringify(welcome));
+    logger.info('Figma plugin paired', {
+      connectionId: connection.connectionId,
+      fileKey: hello.fileKey,
+      fileName: hello.fileName,
+      capabilities: connection.capabilities.length,
+    });
+    
+    this.flushQueuedCommands();
+  }
+
+  // Terminates sockets that missed the previous ping, e.g. after the plugin
+  // was closed without a clean WebSocket shutdown
+  private checkHeartbeats(): void {
+    for (const connection of this.connections.values()) {
+      if (!connection.alive) {
+        logger.warn('Figma plugin missed heartbeat, dropping connection', { connectionId: connection.connectionId });
+        connection.socket.terminate();
+        continue;
+      }
+      connection.alive = false;
+      connection.socket.ping();
+    }
+  }
+
+  private flushQueuedCommands(): void {
+    for (const queued of this.queuedCommands) {
+      const connection = this.findConnection(queued.target);
+      if (connection) {
+        clearTimeout(queued.timeout);
+        this.queuedCommands.delete(queued);
+        queued.resolve(connection);
+      }
+    }
+  }
+
+  private isValidToken(token: unknown): boolean {
+    if (typeof token !== 'string') return false;
+    const expected = Buffer.from(this.token);
+    const actual = Buffer.from(token);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  // Returns how long to wait before answering the failed attempt. The plugin
+  // shares 127.0.0.1 with every local process, so failures only slow down
+  // further guesses and never refuse a connection outright
+  private recordFailedPairing(remoteAddress: string): number {
+    const now = Date.now();
+    const previous = this.failedPairings.get(remoteAddress);
+    const count = previous && now - previous.lastFailedAt < PAIRING_FAILURE_RESET_MS ? previous.count + 1 : 1;
+    this.failedPairings.set(remoteAddress, { count, lastFailedAt: now });
+    
+    if (count <= FREE_PAIRING_ATTEMPTS) return 0;
+    const delayMs = Math.min(PAIRING_BACKOFF_BASE_MS * 2 ** (count - FREE_PAIRING_ATTEMPTS - 1), PAIRING_BACKOFF_MAX_MS);
+    logger.warn(`Repeated invalid pairing tokens; answering in ${delayMs}ms`, { remoteAddress, failures: count });
+    return delayMs;
+  }
+
+  private rejectHandshake(
+    connection: PluginConnection,
+    code: PluginHandshakeErrorMessage['code'],
+    message: string
+  ): void {
+    logger.warn(`Plugin handshake failed: ${message}`, { connectionId: connection.connectionId, code });
+    const error: PluginHandshakeErrorMessage = { type: 'handshake_error', code, message };
+    if (connection.socket.readyState === WebSocket.OPEN) {
+      connection.socket.send(JSON.stringify(error));
+      connection.socket.close(CLOSE_HANDSHAKE_FAILED, code);
+    }
+  }
+
+  // Only the connection a command was sent on may answer it
+  private handleResponse(connection: PluginConnection, response: PluginResponse): void {
     const pending = this.pendingCommands.get(response.id);
     if (!pending) {
       logger.warn(`Received response for unknown command: ${response.id}`);
       return;
     }
+    if (pending.connectionId !== connection.connectionId) {
+      logger.warn(`Ignoring response for command ${response.id} from another plugin connection`, {
+        connectionId: connection.connectionId,
+        expectedConnectionId: pending.connectionId,
+      });
+      return;
+    }
 
     clearTimeout(pending.timeout);
     this.pendingCommands.delete(response.id);
@@ -113,58 +422,410 @@ export class PluginBridge {
     }
   }
 
+  private handleEvent(connection: PluginConnection, event: PluginEvent): void {
+    const buffered: BufferedPluginEvent = {
+      ...event,
+      seq: ++this.eventSeq,
+      receivedAt: Date.now(),
+      connectionId: connection.connectionId,
+      fileKey: connection.fileKey,
+    };
+    this.events.push(buffered);
+    if (this.events.length > EVENT_BUFFER_SIZE) {
+      this.events.splice(0, this.events.length - EVENT_BUFFER_SIZE);
+    }
+    
+    logger.debug(`Plugin event: ${event.type}`, { seq: buffered.seq });
+    for (const listener of this.eventListeners) {
+      listener(buffered);
+    }
+  }
+
+  /**
+   * Returns buffered events in order. With `since`, the oldest events after that
+   * sequence number come first so callers can page forward; without it, the
+   * most recent ones. Only the last 500 events are kept.
+   */
+  getEvents(options: { since?: number; types?: PluginEventType[]; limit?: number } = {}): {
+    events: BufferedPluginEvent[];
+    latestSeq: number;
+    hasMore: boolean;
+  } {
+    const { since, types, limit = 100 } = options;
+    const matching = this.events.filter(event =>
+      event.seq > (since ?? 0) && (!types || types.includes(event.type))
+    );
+    const events = since === undefined ? matching.slice(-limit) : matching.slice(0, limit);
+    return { events, latestSeq: this.eventSeq, hasMore: since !== undefined && matching.length > limit };
+  }
+
+  onEvent(listener: (event: BufferedPluginEvent) => void): () => void {
+    this.eventListeners.add(listener);
+    return () => this.eventListeners.delete(listener);
+  }
+
   isConnected(): boolean {
-    return this.client !== null && this.client.readyState === WebSocket.OPEN;
+    return this.getConnections().length > 0;
+  }
+
+  // Open connections, most recently active first
+  getConnections(): PluginConnectionInfo[] {
+    return [...this.connections.values()]
+      .filter(connection => connection.authenticated && connection.socket.readyState === WebSocket.OPEN)
+      .sort((a, b) => b.lastSeenAt - a.lastSeenAt)
+      .map(({ socket: _socket, authenticated: _authenticated, ...info }) => info);
+  }
+
+  private findConnection(target: PluginTarget): PluginConnection | undefined {
+    const open = this.getConnections();
+    const match = target.connectionId
+      ? open.find(c => c.connectionId === target.connectionId)
+      : target.fileKey
+        ? open.find(c => c.fileKey === target.fileKey)
+        : open[0];
+    return match && this.connections.get(match.connectionId);
+  }
+
+  private connectionError(target: PluginTarget): PluginBridgeError {
+    if (this.getConnections().length === 0) return new PluginNotConnectedError();
+    return target.connectionId
+      ? new PluginConnectionNotFoundError(`connection ${target.connectionId}`)
+      : new PluginConnectionNotFoundError(`file ${target.fileKey}`);
+  }
+
+  /**
+   * Resolves the target connection. When no matching plugin is connected but
+   * one dropped within the reconnect grace period (e.g. while it reloads), the
+   * command is held until the period ends; otherwise it fails right away.
+   */
+  private resolveConnection(target: PluginTarget): Promise<PluginConnection> {
+    const connection = this.findConnection(target);
+    if (connection) {
+      return Promise.resolve(connection);
+    }
+    const waitMs = this.lastDisconnectAt === null
+      ? 0
+      : this.lastDisconnectAt + this.reconnectGraceMs - Date.now();
+    if (waitMs <= 0) {
+      return Promise.reject(this.connectionError(target));
+    }
+    
+    logger.debug('No matching plugin connection, queueing command', { target, waitMs });
+    return new Promise((resolve, reject) => {
+      const queued: QueuedCommand = {
+        target,
+        resolve,
+        reject,
+        timeout: setTimeout(() => {
+          this.queuedCommands.delete(queued);
+          reject(this.connectionError(target));
+        }, waitMs),
+      };
+      this.queuedCommands.add(queued);
+    });
+  }
+
+  private assertSupported(connection: PluginConnection, command: Omit<PluginCommand, 'id' | 'timestamp'>): void {
+    const types = command.type === 'BATCH'
+      ? ['BATCH', ...(command.params as CommandParams<'BATCH'>).commands.map(item => item.type)]
+      : [command.type];
+    const unsupported = types.find(type => !connection.capabilities?.includes(type));
+    if (unsupported) {
+      throw new PluginCommandUnsupportedError(unsupported, connection.fileName);
+    }
+  }
+
+  // The caller's timeoutMs (see runWithPluginTarget) wins over the bridge default
+  private getCommandTimeout(): number {
+    return targetStorage.getStore()?.timeoutMs ?? this.commandTimeoutMs;
   }
 
   async sendCommand<T extends PluginResult = PluginResult>(
-    command: Omit<PluginCommand, 'id' | 'timestamp'>
+    command: Omit<PluginCommand, 'id' | 'timestamp'>,
+    timeoutMs?: number
   ): Promise<T> {
-    if (!this.isConnected()) {
-      throw new PluginNotConnectedError();
-    }
+    const target = targetStorage.getStore() ?? {};
+    const commandTimeoutMs = timeoutMs ?? this.getCommandTimeout();
+    const connection = await this.resolveConnection(target);
+    this.assertSupported(connection, command);
 
     const id = generateId();
     const fullCommand: PluginCommand = {
       ...command,
       id,
       timestamp: Date.now(),
+      sessionId: target.sessionId,
     } as PluginCommand;
 
     return new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
         this.pendingCommands.delete(id);
-        reject(new PluginTimeoutError(command.type, COMMAND_TIMEOUT_MS));
-      }, COMMAND_TIMEOUT_MS);
+        reject(new PluginTimeoutError(command.type, commandTimeoutMs));
+      }, commandTimeoutMs);
 
       this.pendingCommands.set(id, {
         resolve: resolve as (result: PluginResult) => void,
         reject,
         timeout,
+        connectionId: connection.connectionId,
+        commandType: command.type,
       });
 
-      this.client!.send(JSON.stringify(fullCommand));
-      logger.debug(`Sent command: ${command.type}`, { id });
+      connection.socket.send(JSON.stringify(fullCommand));
+      logger.debug(`Sent command: ${command.type}`, { id, connectionId: connection.connectionId });
     });
   }
 
-  async createFrame(params: PluginCommand extends { type: 'CREATE_FRAME'; params: infer P } ? P : never): Promise<{ nodeId: string }> {
-    return this.sendCommand({ type: 'CREATE_FRAME', params });
+  async createImage(bytes: Buffer): Promise<{ imageHash: string; width: number; height: number }> {
+    return this.sendCommand({ type: 'CREATE_IMAGE', params: { bytes: bytes.toString('base64') } });
+  }
+
+  // Uploads imageUrl sources so the plugin receives only image hashes
+  private async resolvePaints<T extends PaintParam[] | undefined>(paints: T): Promise<T> {
+    if (!paints?.some(p => p.type === 'IMAGE' && p.imageUrl && !p.imageHash)) {
+      return paints;
+    }
+    
+    const hashes = new Map<string, string>();
+    const resolved: PaintParam[] = [];
+    for (const paint of paints) {
+      if (paint.type !== 'IMAGE' || !paint.imageUrl || paint.imageHash) {
+        resolved.push(paint);
+        continue;
+      }
+      
+      let imageHash = hashes.get(paint.imageUrl);
+      if (!imageHash) {
+        const bytes = await loadImageBytes(paint.imageUrl);
+        imageHash = (await this.createImage(bytes)).imageHash;
+        hashes.set(paint.imageUrl, imageHash);
+      }
+      const { imageUrl: _imageUrl, ...rest } = paint;
+      resolved.push({ ...rest, imageHash });
+    }
+    return resolved as T;
+  }
+
+  /**
+   * Runs sub-commands in order within single plugin turns. Items may reference
+   * earlier tempIds; large batches are split into chunks that share the ID map.
+   * Progress is reported and cancellation checked between chunks.
+   */
+  async batch(
+    commands: BatchItem[],
+    options: {
+      stopOnError?: boolean;
+      signal?: AbortSignal;
+      onProgress?: (completed: number, total: number) => void;
+    } = {}
+  ): Promise<BatchResult> {
+    const results: BatchItemResult[] = [];
+    const ids: Record<string, string> = {};
+    const failed: string[] = [];
+    
+    for (let start = 0; start < commands.length; start += BATCH_CHUNK_SIZE) {
+      throwIfCancelled(options.signal);
+      const chunk = await Promise.all(
+        commands.slice(start, start + BATCH_CHUNK_SIZE).map(item => this.resolveBatchPaints(item))
+      );
+      const response = await this.sendCommand<BatchResult>(
+        { type: 'BATCH', params: { commands: chunk, ids, failed, stopOnError: options.stopOnError } },
+        this.getCommandTimeout() + chunk.length * BATCH_ITEM_TIMEOUT_MS
+      );
+      results.push(...response.results);
+      Object.assign(ids, response.ids);
+      // Later chunks must report dependents of these as failed, not as missing nodes
+      for (const result of response.results) {
+        if (!result.success && result.tempId) failed.push(result.tempId);
+      }
+      options.onProgress?.(results.length, commands.length);
+      
+      if (options.stopOnError && response.results.some(r => !r.success)) {
+        break;
+      }
+    }
+    
+    return { results, ids };
+  }
+
+  private async resolveBatchPaints(item: BatchItem): Promise<BatchItem> {
+    const params = item.params as { fills?: PaintParam[]; strokes?: PaintParam[]; paints?: PaintParam[] };
+    if (!params.fills && !params.strokes && !params.paints) {
+      return item;
+    }
+    
+    const resolved = { ...params };
+    if (params.fills) resolved.fills = await this.resolvePaints(params.fills);
+    if (params.strokes) resolved.strokes = await this.resolvePaints(params.strokes);
+    if (params.paints) resolved.paints = await this.resolvePaints(params.paints);
+    return { ...item, params: resolved } as BatchItem;
+  }
+
+  async beginTransaction(label?: string): Promise<{ transactionId: string; nested: boolean }> {
+    return this.sendCommand({ type: 'BEGIN_TRANSACTION', params: { label } });
+  }
+
+  async commitTransaction(transactionId?: string): Promise<{ transactionId: string; committed: boolean; created: number; modified: number }> {
+    return this.sendCommand({ type: 'COMMIT_TRANSACTION', params: { transactionId } });
+  }
+
+  async rollbackTransaction(transactionId?: string): Promise<RollbackResult> {
+    return this.sendCommand({ type: 'ROLLBACK_TRANSACTION', params: { transactionId } });
+  }
+
+  /**
+   * Runs fn inside a plugin transaction so its node changes form one undo step
+   * and can be rolled back together. The transaction is committed even when fn
+   * fails, leaving partial results available to rollback_transaction; when fn
+   * was cancelled, its own transaction is rolled back right away.
+   */
+  async withTransaction<T>(label: string, fn: (transactionId: string) => Promise<T>): Promise<T> {
+    const { transactionId, nested } = await this.beginTransaction(label);
+    let cancelled = false;
+    try {
+      return await fn(transactionId);
+    } catch (error) {
+      cancelled = error instanceof OperationCancelledError;
+      throw error;
+    } finally {
+      await this.commitTransaction(transactionId).catch((error) => {
+        logger.warn('Failed to commit transaction', { transactionId, error: String(error) });
+      });
+      if (cancelled && !nested) {
+        await this.rollbackTransaction(transactionId).catch((error) => {
+          logger.warn('Failed to roll back cancelled transaction', { transactionId, error: String(error) });
+        });
+      }
+    }
+  }
+
+  async createFrame(params: CommandParams<'CREATE_FRAME'>): Promise<{ nodeId: string }> {
+    const fills = await this.resolvePaints(params.fills);
+    return this.sendCommand({ type: 'CREATE_FRAME', params: { ...params, fills } });
+  }
+
+  async createRectangle(params: CommandParams<'CREATE_RECTANGLE'>): Promise<{ nodeId: string }> {
+    const fills = await this.resolvePaints(params.fills);
+    return this.sendCommand({ type: 'CREATE_RECTANGLE', params: { ...params, fills } });
+  }
+
+  async createText(params: CommandParams<'CREATE_TEXT'>): Promise<{ nodeId: string }> {
+    const fills = await this.resolvePaints(params.fills);
+    return this.sendCommand({ type: 'CREATE_TEXT', params: { ...params, fills } });
+  }
+
+  async createEllipse(params: CommandParams<'CREATE_ELLIPSE'>): Promise<{ nodeId: string }> {
+    const fills = await this.resolvePaints(params.fills);
+    return this.sendCommand({ type: 'CREATE_ELLIPSE', params: { ...params, fills } });
+  }
+
+  async createNodeFromSvg(params: CommandParams<'CREATE_NODE_FROM_SVG'>): Promise<{ nodeId: string; width: number; height: number }> {
+    return this.sendCommand({ type: 'CREATE_NODE_FROM_SVG', params });
+  }
+
+  async createVector(params: CommandParams<'CREATE_VECTOR'>): Promise<{ nodeId: string; width: number; height: number }> {
+    const fills = await this.resolvePaints(params.fills);
+    const strokes = await this.resolvePaints(params.strokes);
+    return this.sendCommand({ type: 'CREATE_VECTOR', params: { ...params, fills, strokes } });
+  }
+
+  async createLine(params: CommandParams<'CREATE_LINE'>): Promise<{ nodeId: string }> {
+    const strokes = await this.resolvePaints(params.strokes);
+    return this.sendCommand({ type: 'CREATE_LINE', params: { ...params, strokes } });
+  }
+
+  async createComponent(params: CommandParams<'CREATE_COMPONENT'>): Promise<{ nodeId: string; key: string }> {
+    const fills = await this.resolvePaints(params.fills);
+    return this.sendCommand({ type: 'CREATE_COMPONENT', params: { ...params, fills } });
+  }
+
+  async createInstance(params: CommandParams<'CREATE_INSTANCE'>): Promise<{ nodeId: string; componentId: string }> {
+    return this.sendCommand({ type: 'CREATE_INSTANCE', params });
+  }
+
+  async combineAsVariants(params: CommandParams<'COMBINE_AS_VARIANTS'>): Promise<{ nodeId: string; key: string; variantGroups: Record<string, string[]> }> {
+    return this.sendCommand({ type: 'COMBINE_AS_VARIANTS', params });
+  }
+
+  async addVariantProperty(params: CommandParams<'ADD_VARIANT_PROPERTY'>): Promise<{ nodeId: string; variantGroups: Record<string, string[]> }> {
+    return this.sendCommand({ type: 'ADD_VARIANT_PROPERTY', params });
+  }
+
+  async renameVariantProperty(params: CommandParams<'RENAME_VARIANT_PROPERTY'>): Promise<{ nodeId: string; variantGroups: Record<string, string[]> }> {
+    return this.sendCommand({ type: 'RENAME_VARIANT_PROPERTY', params });
+  }
+
+  async setVariantProperties(params: CommandParams<'SET_VARIANT_PROPERTIES'>): Promise<{ nodeId: string; variantProperties: Record<string, string> }> {
+    return this.sendCommand({ type: 'SET_VARIANT_PROPERTIES', params });
   }
 
-  async createRectangle(params: PluginCommand extends { type: 'CREATE_RECTANGLE'; params: infer P } ? P : never): Promise<{ nodeId: string }> {
-    return this.sendCommand({ type: 'CREATE_RECTANGLE', params });
+  async addComponentProperty(params: CommandParams<'ADD_COMPONENT_PROPERTY'>): Promise<{ nodeId: string; propertyName: string; definitions: Record<string, ComponentPropertyDefinition> }> {
+    return this.sendCommand({ type: 'ADD_COMPONENT_PROPERTY', params });
   }
 
-  async createText(params: PluginCommand extends { type: 'CREATE_TEXT'; params: infer P } ? P : never): Promise<{ nodeId: string }> {
-    return this.sendCommand({ type: 'CREATE_TEXT', params });
+  async editComponentProperty(params: CommandParams<'EDIT_COMPONENT_PROPERTY'>): Promise<{ nodeId: string; propertyName: string; definitions: Record<string, ComponentPropertyDefinition> }> {
+    return this.sendCommand({ type: 'EDIT_COMPONENT_PROPERTY', params });
   }
 
-  async createEllipse(params: PluginCommand extends { type: 'CREATE_ELLIPSE'; params: infer P } ? P : never): Promise<{ nodeId: string }> {
-    return this.sendCommand({ type: 'CREATE_ELLIPSE', params });
+  async deleteComponentProperty(params: CommandParams<'DELETE_COMPONENT_PROPERTY'>): Promise<{ nodeId: string; definitions: Record<string, ComponentPropertyDefinition> }> {
+    return this.sendCommand({ type: 'DELETE_COMPONENT_PROPERTY', params });
   }
 
-  async updateNode(params: PluginCommand extends { type: 'UPDATE_NODE'; params: infer P } ? P : never): Promise<{ nodeId: string }> {
+  async setInstanceProperties(params: CommandParams<'SET_INSTANCE_PROPERTIES'>): Promise<{ nodeId: string; properties: Record<string, { type: ComponentPropertyType; value: string | boolean }> }> {
+    return this.sendCommand({ type: 'SET_INSTANCE_PROPERTIES', params });
+  }
+
+  async getLocalVariables(): Promise<{ collections: LiveVariableCollection[]; variables: LiveVariable[] }> {
+    return this.sendCommand({ type: 'GET_LOCAL_VARIABLES', params: {} });
+  }
+
+  async createVariableCollection(params: CommandParams<'CREATE_VARIABLE_COLLECTION'>): Promise<{ collection: LiveVariableCollection }> {
+    return this.sendCommand({ type: 'CREATE_VARIABLE_COLLECTION', params });
+  }
+
+  async updateVariableCollection(params: CommandParams<'UPDATE_VARIABLE_COLLECTION'>): Promise<{ collection: LiveVariableCollection }> {
+    return this.sendCommand({ type: 'UPDATE_VARIABLE_COLLECTION', params });
+  }
+
+  async deleteVariableCollection(collectionId: string): Promise<{ collectionId: string }> {
+    return this.sendCommand({ type: 'DELETE_VARIABLE_COLLECTION', params: { collectionId } });
+  }
+
+  async createVariable(params: CommandParams<'CREATE_VARIABLE'>): Promise<{ variable: LiveVariable }> {
+    return this.sendCommand({ type: 'CREATE_VARIABLE', params });
+  }
+
+  async updateVariable(params: CommandParams<'UPDATE_VARIABLE'>): Promise<{ variable: LiveVariable }> {
+    return this.sendCommand({ type: 'UPDATE_VARIABLE', params });
+  }
+
+  async deleteVariable(variableId: string): Promise<{ variableId: string }> {
+    return this.sendCommand({ type: 'DELETE_VARIABLE', params: { variableId } });
+  }
+
+  async setBoundVariables(params: CommandParams<'SET_BOUND_VARIABLES'>): Promise<{ nodeId: string; fields: string[] }> {
+    return this.sendCommand({ type: 'SET_BOUND_VARIABLES', params });
+  }
+
+  async getLocalStyles(): Promise<{ styles: LiveStyle[] }> {
+    return this.sendCommand({ type: 'GET_LOCAL_STYLES', params: {} });
+  }
+
+  async createStyle(params: CommandParams<'CREATE_STYLE'>): Promise<{ style: LiveStyle }> {
+    const paints = await this.resolvePaints(params.paints);
+    return this.sendCommand({ type: 'CREATE_STYLE', params: { ...params, paints } });
+  }
+
+  async updateStyle(params: CommandParams<'UPDATE_STYLE'>): Promise<{ style: LiveStyle }> {
+    const paints = await this.resolvePaints(params.paints);
+    return this.sendCommand({ type: 'UPDATE_STYLE', params: { ...params, paints } });
+  }
+
+  async applyStyle(params: CommandParams<'APPLY_STYLE'>): Promise<{ nodeId: string; styleId: string }> {
+    return this.sendCommand({ type: 'APPLY_STYLE', params });
+  }
+
+  async updateNode(params: CommandParams<'UPDATE_NODE'>): Promise<{ nodeId: string }> {
     return this.sendCommand({ type: 'UPDATE_NODE', params });
   }
 
@@ -172,30 +833,72 @@ export class PluginBridge {
     return this.sendCommand({ type: 'DELETE_NODE', params: { nodeId } });
   }
 
-  async setFills(params: PluginCommand extends { type: 'SET_FILLS'; params: infer P } ? P : never): Promise<{ nodeId: string }> {
-    return this.sendCommand({ type: 'SET_FILLS', params });
+  async setFills(params: CommandParams<'SET_FILLS'>): Promise<{ nodeId: string }> {
+    const fills = await this.resolvePaints(params.fills);
+    return this.sendCommand({ type: 'SET_FILLS', params: { ...params, fills } });
   }
 
-  async setStrokes(params: PluginCommand extends { type: 'SET_STROKES'; params: infer P } ? P : never): Promise<{ nodeId: string }> {
-    return this.sendCommand({ type: 'SET_STROKES', params });
+  async setStrokes(params: CommandParams<'SET_STROKES'>): Promise<{ nodeId: string }> {
+    const strokes = await this.resolvePaints(params.strokes);
+    return this.sendCommand({ type: 'SET_STROKES', params: { ...params, strokes } });
   }
 
-  async setEffects(params: PluginCommand extends { type: 'SET_EFFECTS'; params: infer P } ? P : never): Promise<{ nodeId: string }> {
+  async setEffects(params: CommandParams<'SET_EFFECTS'>): Promise<{ nodeId: string }> {
     return this.sendCommand({ type: 'SET_EFFECTS', params });
   }
 
-  async applyAutoLayout(params: PluginCommand extends { type: 'APPLY_AUTO_LAYOUT'; params: infer P } ? P : never): Promise<{ nodeId: string }> {
+  async applyAutoLayout(params: CommandParams<'APPLY_AUTO_LAYOUT'>): Promise<{ nodeId: string }> {
     return this.sendCommand({ type: 'APPLY_AUTO_LAYOUT', params });
   }
 
-  async groupNodes(params: PluginCommand extends { type: 'GROUP_NODES'; params: infer P } ? P : never): Promise<{ nodeId: string }> {
+  async groupNodes(params: CommandParams<'GROUP_NODES'>): Promise<{ nodeId: string }> {
     return this.sendCommand({ type: 'GROUP_NODES', params });
   }
 
-  async getSelection(): Promise<{ selection: { id: string; name: string; type: string }[] }> {
+  async booleanOperation(params: CommandParams<'BOOLEAN_OPERATION'>): Promise<{ nodeId: string }> {
+    return this.sendCommand({ type: 'BOOLEAN_OPERATION', params });
+  }
+
+  async flattenNodes(params: CommandParams<'FLATTEN_NODES'>): Promise<{ nodeId: string }> {
+    return this.sendCommand({ type: 'FLATTEN_NODES', params });
+  }
+
+  async setMask(params: CommandParams<'SET_MASK'>): Promise<{ nodeId: string; isMask: boolean; maskType: string }> {
+    return this.sendCommand({ type: 'SET_MASK', params });
+  }
+
+  async getSelection(): Promise<{ selection: SelectionNode[] }> {
     return this.sendCommand({ type: 'GET_SELECTION', params: {} });
   }
 
+  async setConstraints(params: CommandParams<'SET_CONSTRAINTS'>): Promise<{ nodeId: string }> {
+    return this.sendCommand({ type: 'SET_CONSTRAINTS', params });
+  }
+
+  async moveNode(params: CommandParams<'MOVE_NODE'>): Promise<{ nodeId: string }> {
+    return this.sendCommand({ type: 'MOVE_NODE', params });
+  }
+
+  async resizeNode(params: CommandParams<'RESIZE_NODE'>): Promise<{ nodeId: string }> {
+    return this.sendCommand({ type: 'RESIZE_NODE', params });
+  }
+
+  async cloneNode(params: CommandParams<'CLONE_NODE'>): Promise<{ nodeId: string }> {
+    return this.sendCommand({ type: 'CLONE_NODE', params });
+  }
+
+  async getNode(params: CommandParams<'GET_NODE'>): Promise<{ node: LiveNode; truncated: boolean }> {
+    return this.sendCommand({ type: 'GET_NODE', params });
+  }
+
+  async getPageTree(params: CommandParams<'GET_PAGE_TREE'> = {}): Promise<{ page: LiveNode; truncated: boolean }> {
+    return this.sendCommand({ type: 'GET_PAGE_TREE', params });
+  }
+
+  async findNodes(params: CommandParams<'FIND_NODES'>): Promise<{ nodes: NodeSummary[]; total: number; offset: number; limit: number; hasMore: boolean }> {
+    return this.sendCommand({ type: 'FIND_NODES', params });
+  }
+
   async setSelection(nodeIds: string[]): Promise<{ nodeIds: string[] }> {
     return this.sendCommand({ type: 'SET_SELECTION', params: { nodeIds } });
   }
@@ -211,9 +914,9 @@ export class PluginBridge {
 
 let bridgeInstance: PluginBridge | null = null;
 
-export function getPluginBridge(port?: number): PluginBridge {
+export function getPluginBridge(options?: PluginBridgeOptions): PluginBridge {
   if (!bridgeInstance) {
-    bridgeInstance = new PluginBridge(port);
+    bridgeInstance = new PluginBridge(options);
   }
   return bridgeInstance;
 }
@@ -1,3 +1,4 @@
 export * from './read/index.js';
 export * from './write/index.js';
 export * from './orchestrated/index.js';
+export * from './registry.js';
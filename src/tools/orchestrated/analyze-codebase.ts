@@ -1,7 +1,8 @@
 import { z } from 'zod';
 import { analyzeCodebase } from '../../services/code-analyzer/index.js';
-import { createLogger } from '../../lib/index.js';
+import { createLogger, type ToolContext } from '../../lib/index.js';
 import type { CodeAnalysis } from '../../types/mcp.js';
+import { defineTool } from '../registry.js';
 
 const logger = createLogger('tool:analyze-codebase');
 
@@ -9,18 +10,18 @@ const analysisStore = new Map<string, CodeAnalysis>();
 
 export const analyzeCodebaseSchema = z.object({
   path: z.string().describe('Path to the codebase root directory'),
-  framework: z.enum(['react', 'vue', 'svelte', 'angular', 'html']).optional().describe('Framework to use for parsing'),
-  includeTokens: z.boolean().optional().describe('Extract design tokens from Tailwind/CSS'),
+  framework: z.enum(['react', 'vue', 'svelte', 'angular', 'html']).optional().describe('Framework (auto-detected if not specified)'),
+  includeTokens: z.boolean().optional().describe('Extract design tokens (default: true)'),
 });
 
 export type AnalyzeCodebaseParams = z.infer<typeof analyzeCodebaseSchema>;
 
-export async function analyzeCodebaseTool(params: AnalyzeCodebaseParams) {
+export async function analyzeCodebaseTool(params: AnalyzeCodebaseParams, context: ToolContext = {}) {
   const { path, framework, includeTokens = true } = params;
   
   logger.info('Analyzing codebase', { path, framework });
   
-  const analysis = await analyzeCodebase(path, { framework, includeTokens });
+  const analysis = await analyzeCodebase(path, { framework, includeTokens }, context);
   
   analysisStore.set(analysis.id, analysis);
   
@@ -57,20 +58,44 @@ export function listAnalyses(): { id: string; path: string; framework: string }[
   }));
 }
 
-export const analyzeCodebaseToolDefinition = {
+// Shared with sync_design_tokens
+export const designTokensSchema = z.object({
+  colors: z.record(z.string()),
+  spacing: z.record(z.string()),
+  typography: z.record(z.object({
+    fontFamily: z.string(),
+    fontSize: z.string(),
+    fontWeight: z.string(),
+    lineHeight: z.string(),
+    letterSpacing: z.string().optional(),
+  })),
+  shadows: z.record(z.string()),
+  borderRadius: z.record(z.string()),
+});
+
+export const analyzeCodebaseToolDefinition = defineTool({
   name: 'analyze_codebase',
   description: 'Analyze a codebase to extract component definitions, props, and design tokens. Supports React, Vue, Svelte, Angular. Extracts Tailwind config and CSS variables.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      path: { type: 'string', description: 'Path to the codebase root directory' },
-      framework: { 
-        type: 'string', 
-        enum: ['react', 'vue', 'svelte', 'angular', 'html'],
-        description: 'Framework (auto-detected if not specified)' 
-      },
-      includeTokens: { type: 'boolean', description: 'Extract design tokens (default: true)' },
-    },
-    required: ['path'],
-  },
-};
+  inputSchema: analyzeCodebaseSchema,
+  outputSchema: z.object({
+    analysisId: z.string(),
+    framework: z.string(),
+    componentCount: z.number(),
+    components: z.array(z.object({
+      name: z.string(),
+      path: z.string(),
+      propCount: z.number(),
+      variants: z.array(z.string()),
+    })),
+    tokens: z.object({
+      colorCount: z.number(),
+      spacingCount: z.number(),
+      typographyCount: z.number(),
+      shadowCount: z.number(),
+      radiusCount: z.number(),
+    }),
+    designTokens: designTokensSchema,
+  }),
+  annotations: { title: 'Analyze codebase', readOnlyHint: true, openWorldHint: false },
+  handler: analyzeCodebaseTool,
+});
@@ -1,9 +1,10 @@
 import { z } from 'zod';
-import { captureWebpage } from '../../services/playwright/index.js';
-import { createLogger, generateId, getConfig } from '../../lib/index.js';
+import { captureWebpage, fitImage, DEFAULT_MAX_IMAGE_DIMENSION } from '../../services/playwright/index.js';
+import { createLogger, generateId, getConfig, type ToolContext } from '../../lib/index.js';
 import type { WebCapture, CaptureOptions } from '../../types/capture.js';
 import { writeFile, mkdir } from 'fs/promises';
 import { join } from 'path';
+import { defineTool, imageTilesSchema } from '../registry.js';
 
 const logger = createLogger('tool:capture-webpage');
 
@@ -14,17 +15,28 @@ export const captureWebpageSchema = z.object({
   viewport: z.object({
     width: z.number().positive().default(1440),
     height: z.number().positive().default(900),
-  }).optional().describe('Viewport dimensions'),
-  fullPage: z.boolean().optional().describe('Capture full scrollable page'),
-  waitForSelector: z.string().optional().describe('Wait for this CSS selector before capture'),
-  waitForTimeout: z.number().positive().optional().describe('Additional wait time in ms'),
-  detectComponents: z.boolean().optional().describe('Detect UI components in the page'),
+  }).optional().describe('Viewport size (default: 1440x900)'),
+  fullPage: z.boolean().optional().describe('Capture full scrollable page (default: true)'),
+  waitForSelector: z.string().optional().describe('CSS selector to wait for before capture'),
+  waitForTimeout: z.number().positive().optional().describe('Additional wait time in milliseconds'),
+  detectComponents: z.boolean().optional().describe('Detect UI components (default: true)'),
+  includeScreenshot: z.boolean().optional().describe('Return the screenshot as image content so it can be inspected visually; full pages are split into top-to-bottom tiles (default: false)'),
+  maxDimension: z.number().int().min(64).max(8000).optional().describe(`Longest edge of returned images in pixels (default: ${DEFAULT_MAX_IMAGE_DIMENSION})`),
 });
 
 export type CaptureWebpageParams = z.infer<typeof captureWebpageSchema>;
 
-export async function captureWebpageTool(params: CaptureWebpageParams) {
-  const { url, viewport, fullPage, waitForSelector, waitForTimeout, detectComponents = true } = params;
+export async function captureWebpageTool(params: CaptureWebpageParams, context: ToolContext = {}) {
+  const {
+    url,
+    viewport,
+    fullPage,
+    waitForSelector,
+    waitForTimeout,
+    detectComponents = true,
+    includeScreenshot = false,
+    maxDimension,
+  } = params;
   
   logger.info('Capturing webpage', { url });
   
@@ -38,7 +50,7 @@ export async function captureWebpageTool(params: CaptureWebpageParams) {
     detectComponents,
   };
   
-  const capture = await captureWebpage(options);
+  const capture = await captureWebpage(options, context);
   
   captureStore.set(capture.id, capture);
   
@@ -59,6 +71,8 @@ export async function captureWebpageTool(params: CaptureWebpageParams) {
     elementCount: capture.dom.elements.length,
   }, null, 2));
   
+  const images = includeScreenshot ? await fitImage(capture.screenshot, { maxDimension }) : undefined;
+  
   return {
     captureId: capture.id,
     url: capture.url,
@@ -72,6 +86,7 @@ export async function captureWebpageTool(params: CaptureWebpageParams) {
       suggestedConstruct: c.suggestedFigmaConstruct,
     })),
     componentSummary: summarizeComponents(capture.components),
+    images,
   };
 }
 
@@ -95,26 +110,29 @@ export function listCaptures(): { id: string; url: string; timestamp: Date }[] {
   }));
 }
 
-export const captureWebpageToolDefinition = {
+export const captureWebpageToolDefinition = defineTool({
   name: 'capture_webpage',
-  description: 'Capture a webpage screenshot and analyze its DOM structure. Detects UI components like buttons, inputs, cards, navigation. Returns capture ID for use with reconstruct_page.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      url: { type: 'string', description: 'URL to capture' },
-      viewport: {
-        type: 'object',
-        description: 'Viewport size (default: 1440x900)',
-        properties: {
-          width: { type: 'number' },
-          height: { type: 'number' },
-        },
-      },
-      fullPage: { type: 'boolean', description: 'Capture full scrollable page (default: true)' },
-      waitForSelector: { type: 'string', description: 'CSS selector to wait for before capture' },
-      waitForTimeout: { type: 'number', description: 'Additional wait time in milliseconds' },
-      detectComponents: { type: 'boolean', description: 'Detect UI components (default: true)' },
-    },
-    required: ['url'],
-  },
-};
+  description: 'Capture a webpage screenshot and analyze its DOM structure. Detects UI components like buttons, inputs, cards, navigation. Returns capture ID for use with reconstruct_page, and optionally the screenshot as image content.',
+  inputSchema: captureWebpageSchema,
+  outputSchema: z.object({
+    captureId: z.string(),
+    url: z.string(),
+    viewport: z.object({
+      width: z.number(),
+      height: z.number(),
+      deviceScaleFactor: z.number().optional(),
+    }),
+    screenshotPath: z.string(),
+    elementCount: z.number(),
+    components: z.array(z.object({
+      type: z.string(),
+      confidence: z.number(),
+      boundingBox: z.object({ x: z.number(), y: z.number(), width: z.number(), height: z.number() }),
+      suggestedConstruct: z.string(),
+    })),
+    componentSummary: z.record(z.number()).describe('Component type -> count'),
+    images: imageTilesSchema.optional(),
+  }),
+  annotations: { title: 'Capture webpage', readOnlyHint: true, openWorldHint: true },
+  handler: captureWebpageTool,
+});
@@ -1,24 +1,36 @@
 import { z } from 'zod';
 import { getPluginBridge } from '../../services/plugin-bridge/index.js';
-import { createLogger, hexToRgba } from '../../lib/index.js';
+import { createLogger, hexToRgba, type ToolContext } from '../../lib/index.js';
+import type { BatchItem } from '../../types/commands.js';
+import { defineTool } from '../registry.js';
 
 const logger = createLogger('tool:generate-ui');
 
 export const generateUISchema = z.object({
-  prompt: z.string().describe('Description of the UI to generate'),
-  style: z.enum(['minimal', 'modern', 'corporate', 'playful']).optional().describe('Visual style'),
-  width: z.number().positive().optional().describe('Frame width'),
-  height: z.number().positive().optional().describe('Frame height'),
+  prompt: z.string().describe('Description of the UI. Examples: "landing page with header, hero section, feature cards, and footer", "login form with email and password", "dashboard with sidebar navigation"'),
+  style: z.enum(['minimal', 'modern', 'corporate', 'playful']).optional().describe('Visual style (default: modern)'),
+  width: z.number().positive().optional().describe('Frame width in pixels (default: 1440)'),
+  height: z.number().positive().optional().describe('Frame height in pixels (default: 900)'),
   colorScheme: z.object({
-    primary: z.string().optional(),
-    secondary: z.string().optional(),
-    background: z.string().optional(),
-    text: z.string().optional(),
-  }).optional().describe('Color scheme in hex'),
+    primary: z.string().optional().describe('Primary brand color'),
+    secondary: z.string().optional().describe('Secondary color'),
+    background: z.string().optional().describe('Background color'),
+    text: z.string().optional().describe('Text color'),
+  }).optional().describe('Custom colors in hex format'),
+  styles: z.object({
+    primary: z.string().optional().describe('Paint style for buttons'),
+    background: z.string().optional().describe('Paint style for page and section backgrounds'),
+    surface: z.string().optional().describe('Paint style for cards, header and forms'),
+    text: z.string().optional().describe('Paint style for text color'),
+    heading: z.string().optional().describe('Text style for headings (24px and up)'),
+    body: z.string().optional().describe('Text style for body text'),
+  }).optional().describe('Local style IDs or names (see get_local_styles) to apply per role, so the design uses the file\'s styles instead of raw values'),
 });
 
 export type GenerateUIParams = z.infer<typeof generateUISchema>;
 
+type FillRole = 'primary' | 'background' | 'surface';
+
 interface UIElement {
   type: 'frame' | 'rectangle' | 'text' | 'button' | 'input';
   name: string;
@@ -27,19 +39,21 @@ interface UIElement {
   width: number;
   height: number;
   fill?: string;
+  fillRole?: FillRole;
   text?: string;
   fontSize?: number;
   cornerRadius?: number;
   children?: UIElement[];
 }
 
-export async function generateUI(params: GenerateUIParams) {
+export async function generateUI(params: GenerateUIParams, context: ToolContext = {}) {
   const { 
     prompt, 
     style = 'modern',
     width = 1440,
     height = 900,
     colorScheme = {},
+    styles,
   } = params;
   
   logger.info('Generating UI', { prompt: prompt.substring(0, 100), style });
@@ -54,35 +68,93 @@ export async function generateUI(params: GenerateUIParams) {
   const layout = parsePromptToLayout(prompt, width, height, colors);
   
   const bridge = getPluginBridge();
+  const styleIds = styles ? await resolveStyleIds(bridge, styles) : {};
   
   const bgColor = hexToRgba(colors.background);
-  const rootFrame = await bridge.createFrame({
-    name: `Generated: ${prompt.substring(0, 30)}`,
-    width,
-    height,
-    x: 100,
-    y: 100,
-    fills: [{ type: 'SOLID', color: bgColor }],
-  });
+  const items: BatchItem[] = [{
+    type: 'CREATE_FRAME',
+    tempId: ROOT_TEMP_ID,
+    params: {
+      name: `Generated: ${prompt.substring(0, 30)}`,
+      width,
+      height,
+      x: 100,
+      y: 100,
+      fills: [{ type: 'SOLID', color: bgColor }],
+    },
+  }];
   
-  const stats = { elements: 0 };
+  if (styleIds.background) {
+    items.push({ type: 'APPLY_STYLE', params: { nodeId: ROOT_TEMP_ID, styleId: styleIds.background } });
+  }
   
   for (const element of layout) {
-    await createUIElement(bridge, element, rootFrame.nodeId, colors, stats);
+    collectUIElement(items, element, ROOT_TEMP_ID, colors, styleIds);
   }
   
-  logger.info('UI generation complete', { elements: stats.elements });
+  const { transactionId, results, ids } = await bridge.withTransaction(
+    `generate_ui: ${prompt.substring(0, 30)}`,
+    async (transactionId) => ({
+      transactionId,
+      ...await bridge.batch(items, {
+        signal: context.signal,
+        onProgress: (completed, total) => context.reportProgress?.(completed, total, `Ran ${completed}/${total} node operations`),
+      }),
+    })
+  );
+  const frameId = ids[ROOT_TEMP_ID];
+  if (!frameId) {
+    throw new Error(`Failed to create root frame: ${results[0]?.error ?? 'unknown error'}`);
+  }
+  
+  let elements = 0;
+  results.forEach((result, index) => {
+    const item = items[index];
+    if (!result.success) {
+      logger.debug('Failed to create element', { type: item.type, error: result.error });
+    } else if (item.type.startsWith('CREATE_') && item.tempId !== ROOT_TEMP_ID) {
+      elements++;
+    }
+  });
+  
+  logger.info('UI generation complete', { elements });
   
   return {
     success: true,
-    frameId: rootFrame.nodeId,
-    elementsCreated: stats.elements,
-    message: `Generated UI with ${stats.elements} elements`,
+    frameId,
+    transactionId,
+    elementsCreated: elements,
+    message: `Generated UI with ${elements} elements`,
     style,
     dimensions: { width, height },
+    appliedStyles: Object.keys(styleIds),
   };
 }
 
+const ROOT_TEMP_ID = 'root';
+
+type StyleRole = keyof NonNullable<GenerateUIParams['styles']>;
+
+async function resolveStyleIds(
+  bridge: ReturnType<typeof getPluginBridge>,
+  styles: NonNullable<GenerateUIParams['styles']>
+): Promise<Partial<Record<StyleRole, string>>> {
+  const { styles: localStyles } = await bridge.getLocalStyles();
+  const resolved: Partial<Record<StyleRole, string>> = {};
+  
+  for (const [role, ref] of Object.entries(styles) as [StyleRole, string | undefined][]) {
+    if (!ref) continue;
+    const match = localStyles.find(s => s.id === ref) ?? localStyles.find(s => s.name === ref);
+    if (match) {
+      resolved[role] = match.id;
+    } else {
+      logger.debug('Style not found, using raw values', { role, ref });
+    }
+  }
+  
+  return resolved;
+}
+
 function getStyleColors(style: string): { primary: string; secondary: string; background: string; text: string } {
   const schemes: Record<string, { primary: string; secondary: string; background: string; text: string }> = {
     minimal: { primary: '#000000', secondary: '#666666', background: '#FFFFFF', text: '#000000' },
@@ -109,6 +181,7 @@ function parsePromptToLayout(prompt: string, width: number, height: number, colo
       width: width,
       height: 64,
       fill: '#FFFFFF',
+      fillRole: 'surface',
       children: [
         { type: 'text', name: 'Logo', x: padding, y: 20, width: 100, height: 24, text: 'Logo', fontSize: 20 },
         { type: 'text', name: 'Nav Item 1', x: width - 300, y: 22, width: 60, height: 20, text: 'Home', fontSize: 14 },
@@ -128,10 +201,11 @@ function parsePromptToLayout(prompt: string, width: number, height: number, colo
       width: width,
       height: 400,
       fill: colors.background,
+      fillRole: 'background',
       children: [
         { type: 'text', name: 'Headline', x: width/2 - 200, y: 100, width: 400, height: 60, text: 'Welcome to Our Platform', fontSize: 48 },
         { type: 'text', name: 'Subheadline', x: width/2 - 250, y: 180, width: 500, height: 40, text: 'Build something amazing today', fontSize: 20 },
-        { type: 'button', name: 'CTA Button', x: width/2 - 75, y: 260, width: 150, height: 48, fill: colors.primary, text: 'Get Started', fontSize: 16, cornerRadius: 8 },
+        { type: 'button', name: 'CTA Button', x: width/2 - 75, y: 260, width: 150, height: 48, fill: colors.primary, fillRole: 'primary', text: 'Get Started', fontSize: 16, cornerRadius: 8 },
       ],
     });
     currentY += 400 + padding;
@@ -149,10 +223,11 @@ function parsePromptToLayout(prompt: string, width: number, height: number, colo
       width: width,
       height: cardHeight + padding * 2,
       fill: colors.background,
+      fillRole: 'background',
       children: [
-        { type: 'frame', name: 'Card 1', x: padding, y: padding, width: cardWidth, height: cardHeight, fill: '#FFFFFF', cornerRadius: 12 },
-        { type: 'frame', name: 'Card 2', x: padding * 2 + cardWidth, y: padding, width: cardWidth, height: cardHeight, fill: '#FFFFFF', cornerRadius: 12 },
-        { type: 'frame', name: 'Card 3', x: padding * 3 + cardWidth * 2, y: padding, width: cardWidth, height: cardHeight, fill: '#FFFFFF', cornerRadius: 12 },
+        { type: 'frame', name: 'Card 1', x: padding, y: padding, width: cardWidth, height: cardHeight, fill: '#FFFFFF', fillRole: 'surface', cornerRadius: 12 },
+        { type: 'frame', name: 'Card 2', x: padding * 2 + cardWidth, y: padding, width: cardWidth, height: cardHeight, fill: '#FFFFFF', fillRole: 'surface', cornerRadius: 12 },
+        { type: 'frame', name: 'Card 3', x: padding * 3 + cardWidth * 2, y: padding, width: cardWidth, height: cardHeight, fill: '#FFFFFF', fillRole: 'surface', cornerRadius: 12 },
       ],
     });
     currentY += cardHeight + padding * 3;
@@ -170,12 +245,13 @@ function parsePromptToLayout(prompt: string, width: number, height: number, colo
       width: formWidth,
       height: 300,
       fill: '#FFFFFF',
+      fillRole: 'surface',
       cornerRadius: 12,
       children: [
         { type: 'text', name: 'Form Title', x: 24, y: 24, width: formWidth - 48, height: 32, text: 'Sign In', fontSize: 24 },
         { type: 'input', name: 'Email Input', x: 24, y: 80, width: formWidth - 48, height: 44, fill: '#F3F4F6', cornerRadius: 6 },
         { type: 'input', name: 'Password Input', x: 24, y: 140, width: formWidth - 48, height: 44, fill: '#F3F4F6', cornerRadius: 6 },
-        { type: 'button', name: 'Submit Button', x: 24, y: 210, width: formWidth - 48, height: 48, fill: colors.primary, text: 'Sign In', fontSize: 16, cornerRadius: 8 },
+        { type: 'button', name: 'Submit Button', x: 24, y: 210, width: formWidth - 48, height: 48, fill: colors.primary, fillRole: 'primary', text: 'Sign In', fontSize: 16, cornerRadius: 8 },
       ],
     });
     currentY += 300 + padding;
@@ -205,6 +281,7 @@ function parsePromptToLayout(prompt: string, width: number, height: number, colo
       width: width - padding * 2,
       height: height - padding * 2,
       fill: '#FFFFFF',
+      fillRole: 'surface',
       cornerRadius: 12,
       children: [
         { type: 'text', name: 'Title', x: 40, y: 40, width: 400, height: 40, text: 'Your Content Here', fontSize: 32 },
@@ -216,19 +293,23 @@ function parsePromptToLayout(prompt: string, width: number, height: number, colo
   return elements;
 }
 
-async function createUIElement(
-  bridge: ReturnType<typeof getPluginBridge>,
+// Appends the commands for an element and its children, addressed by temp IDs
+function collectUIElement(
+  items: BatchItem[],
   element: UIElement,
   parentId: string,
   colors: { primary: string; secondary: string; background: string; text: string },
-  stats: { elements: number }
-): Promise<string | null> {
-  try {
-    let nodeId: string | null = null;
-    
-    if (element.type === 'frame') {
-      const fillColor = element.fill ? hexToRgba(element.fill) : undefined;
-      const result = await bridge.createFrame({
+  styleIds: Partial<Record<StyleRole, string>> = {}
+): string | null {
+  let nodeId: string | null = null;
+  
+  if (element.type === 'frame') {
+    const fillColor = element.fill ? hexToRgba(element.fill) : undefined;
+    nodeId = `el-${items.length}`;
+    items.push({
+      type: 'CREATE_FRAME',
+      tempId: nodeId,
+      params: {
         name: element.name,
         x: element.x,
         y: element.y,
@@ -236,25 +317,28 @@ async function createUIElement(
         height: element.height,
         parentId,
         fills: fillColor ? [{ type: 'SOLID', color: fillColor }] : undefined,
+      },
+    });
+    
+    if (element.cornerRadius) {
+      items.push({
+        type: 'UPDATE_NODE',
+        params: { nodeId, properties: { cornerRadius: element.cornerRadius } },
       });
-      nodeId = result.nodeId;
-      stats.elements++;
-      
-      if (element.cornerRadius) {
-        await bridge.updateNode({
-          nodeId,
-          properties: { cornerRadius: element.cornerRadius },
-        });
-      }
-      
-      if (element.children) {
-        for (const child of element.children) {
-          await createUIElement(bridge, child, nodeId, colors, stats);
-        }
+    }
+    
+    if (element.children) {
+      for (const child of element.children) {
+        collectUIElement(items, child, nodeId, colors, styleIds);
       }
-    } else if (element.type === 'rectangle' || element.type === 'input') {
-      const fillColor = element.fill ? hexToRgba(element.fill) : { r: 0.95, g: 0.95, b: 0.95 };
-      const result = await bridge.createRectangle({
+    }
+  } else if (element.type === 'rectangle' || element.type === 'input') {
+    const fillColor = element.fill ? hexToRgba(element.fill) : { r: 0.95, g: 0.95, b: 0.95 };
+    nodeId = `el-${items.length}`;
+    items.push({
+      type: 'CREATE_RECTANGLE',
+      tempId: nodeId,
+      params: {
         name: element.name,
         x: element.x,
         y: element.y,
@@ -263,24 +347,38 @@ async function createUIElement(
         parentId,
         fills: [{ type: 'SOLID', color: fillColor }],
         cornerRadius: element.cornerRadius || 0,
-      });
-      nodeId = result.nodeId;
-      stats.elements++;
-    } else if (element.type === 'text') {
-      const textColor = hexToRgba(colors.text);
-      const result = await bridge.createText({
+      },
+    });
+  } else if (element.type === 'text') {
+    const textColor = hexToRgba(colors.text);
+    nodeId = `el-${items.length}`;
+    items.push({
+      type: 'CREATE_TEXT',
+      tempId: nodeId,
+      params: {
         characters: element.text || '',
         x: element.x,
         y: element.y,
         parentId,
         fontSize: element.fontSize || 14,
         fills: [{ type: 'SOLID', color: textColor }],
-      });
-      nodeId = result.nodeId;
-      stats.elements++;
-    } else if (element.type === 'button') {
-      const fillColor = element.fill ? hexToRgba(element.fill) : hexToRgba(colors.primary);
-      const btnResult = await bridge.createFrame({
+      },
+    });
+    
+    if (styleIds.text) {
+      items.push({ type: 'APPLY_STYLE', params: { nodeId, styleId: styleIds.text, target: 'fill' } });
+    }
+    const textStyleId = (element.fontSize || 14) >= 24 ? styleIds.heading : styleIds.body;
+    if (textStyleId) {
+      items.push({ type: 'APPLY_STYLE', params: { nodeId, styleId: textStyleId } });
+    }
+  } else if (element.type === 'button') {
+    const fillColor = element.fill ? hexToRgba(element.fill) : hexToRgba(colors.primary);
+    nodeId = `el-${items.length}`;
+    items.push({
+      type: 'CREATE_FRAME',
+      tempId: nodeId,
+      params: {
         name: element.name,
         x: element.x,
         y: element.y,
@@ -288,19 +386,20 @@ async function createUIElement(
         height: element.height,
         parentId,
         fills: [{ type: 'SOLID', color: fillColor }],
+      },
+    });
+    
+    if (element.cornerRadius) {
+      items.push({
+        type: 'UPDATE_NODE',
+        params: { nodeId, properties: { cornerRadius: element.cornerRadius } },
       });
-      nodeId = btnResult.nodeId;
-      stats.elements++;
-      
-      if (element.cornerRadius) {
-        await bridge.updateNode({
-          nodeId,
-          properties: { cornerRadius: element.cornerRadius },
-        });
-      }
-      
-      if (element.text) {
-        await bridge.createText({
+    }
+    
+    if (element.text) {
+      items.push({
+        type: 'CREATE_TEXT',
+        params: {
           characters: element.text,
           x: element.width / 2 - 30,
           y: element.height / 2 - 8,
@@ -308,46 +407,34 @@ async function createUIElement(
           fontSize: element.fontSize || 14,
           fills: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 } }],
           textAlignHorizontal: 'CENTER',
-        });
-        stats.elements++;
-      }
+        },
+      });
     }
-    
-    return nodeId;
-  } catch (error) {
-    logger.debug('Failed to create element', { name: element.name, error });
-    return null;
   }
+  
+  const fillStyleId = element.fillRole ? styleIds[element.fillRole] : undefined;
+  if (nodeId && fillStyleId) {
+    items.push({ type: 'APPLY_STYLE', params: { nodeId, styleId: fillStyleId } });
+  }
+  
+  return nodeId;
 }
 
-export const generateUIToolDefinition = {
+export const generateUIToolDefinition = defineTool({
   name: 'generate_ui',
   description: 'Generate a UI design from a text description. Parses the prompt for common UI patterns (header, hero, cards, form, footer) and creates corresponding Figma elements.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      prompt: { 
-        type: 'string', 
-        description: 'Description of the UI. Examples: "landing page with header, hero section, feature cards, and footer", "login form with email and password", "dashboard with sidebar navigation"' 
-      },
-      style: { 
-        type: 'string', 
-        enum: ['minimal', 'modern', 'corporate', 'playful'],
-        description: 'Visual style (default: modern)' 
-      },
-      width: { type: 'number', description: 'Frame width in pixels (default: 1440)' },
-      height: { type: 'number', description: 'Frame height in pixels (default: 900)' },
-      colorScheme: {
-        type: 'object',
-        description: 'Custom colors in hex format',
-        properties: {
-          primary: { type: 'string', description: 'Primary brand color' },
-          secondary: { type: 'string', description: 'Secondary color' },
-          background: { type: 'string', description: 'Background color' },
-          text: { type: 'string', description: 'Text color' },
-        },
-      },
-    },
-    required: ['prompt'],
-  },
-};
+  inputSchema: generateUISchema,
+  outputSchema: z.object({
+    success: z.boolean(),
+    frameId: z.string(),
+    transactionId: z.string(),
+    elementsCreated: z.number(),
+    message: z.string(),
+    style: z.string(),
+    dimensions: z.object({ width: z.number(), height: z.number() }),
+    appliedStyles: z.array(z.string()).describe('Style roles that were applied'),
+  }),
+  annotations: { title: 'Generate UI', destructiveHint: false, openWorldHint: false },
+  pluginTarget: true,
+  handler: generateUI,
+});
@@ -1,22 +1,24 @@
 import { z } from 'zod';
 import { getPluginBridge } from '../../services/plugin-bridge/index.js';
 import { getCaptureById } from './capture-webpage.js';
-import { createLogger, hexToRgba } from '../../lib/index.js';
+import { createLogger, hexToRgba, type ToolContext } from '../../lib/index.js';
 import type { CapturedElement, DetectedComponent } from '../../types/capture.js';
+import type { BatchItem } from '../../types/commands.js';
+import { defineTool } from '../registry.js';
 
 const logger = createLogger('tool:reconstruct-page');
 
 export const reconstructPageSchema = z.object({
   captureId: z.string().describe('Capture ID from capture_webpage'),
-  frameName: z.string().optional().describe('Name for the root frame'),
+  frameName: z.string().optional().describe('Name for the root frame (default: "Reconstructed Page")'),
   createComponents: z.boolean().optional().describe('Create Figma components for detected UI elements'),
-  simplifyNesting: z.boolean().optional().describe('Reduce deeply nested structures'),
-  minConfidence: z.number().min(0).max(1).optional().describe('Minimum confidence for component detection'),
+  simplifyNesting: z.boolean().optional().describe('Reduce deeply nested structures (default: true)'),
+  minConfidence: z.number().min(0).max(1).optional().describe('Minimum confidence for component detection 0-1 (default: 0.7)'),
 });
 
 export type ReconstructPageParams = z.infer<typeof reconstructPageSchema>;
 
-export async function reconstructPage(params: ReconstructPageParams) {
+export async function reconstructPage(params: ReconstructPageParams, context: ToolContext = {}) {
   const { 
     captureId, 
     frameName = 'Reconstructed Page',
@@ -34,22 +36,6 @@ export async function reconstructPage(params: ReconstructPageParams) {
   
   const bridge = getPluginBridge();
   
-  const rootFrame = await bridge.createFrame({
-    name: frameName,
-    width: capture.viewport.width,
-    height: capture.viewport.height,
-    x: 0,
-    y: 0,
-    fills: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 } }],
-  });
-  
-  const stats = {
-    framesCreated: 1,
-    rectanglesCreated: 0,
-    textsCreated: 0,
-    componentsCreated: 0,
-  };
-  
   const componentMap = new Map<string, DetectedComponent>();
   for (const comp of capture.components) {
     if (comp.confidence >= minConfidence) {
@@ -58,35 +44,92 @@ export async function reconstructPage(params: ReconstructPageParams) {
     }
   }
   
-  await reconstructElement(
-    bridge,
+  const items: BatchItem[] = [{
+    type: 'CREATE_FRAME',
+    tempId: ROOT_TEMP_ID,
+    params: {
+      name: frameName,
+      width: capture.viewport.width,
+      height: capture.viewport.height,
+      x: 0,
+      y: 0,
+      fills: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 } }],
+    },
+  }];
+  
+  collectElement(
+    items,
     capture.dom.rootElement,
-    rootFrame.nodeId,
+    ROOT_TEMP_ID,
     componentMap,
-    stats,
     simplifyNesting,
     0
   );
   
+  const { transactionId, results, ids } = await bridge.withTransaction(
+    `reconstruct_page: ${frameName}`,
+    async (transactionId) => ({
+      transactionId,
+      ...await bridge.batch(items, {
+        signal: context.signal,
+        onProgress: (completed, total) => context.reportProgress?.(completed, total, `Ran ${completed}/${total} node operations`),
+      }),
+    })
+  );
+  const rootFrameId = ids[ROOT_TEMP_ID];
+  if (!rootFrameId) {
+    throw new Error(`Failed to create root frame: ${results[0]?.error ?? 'unknown error'}`);
+  }
+  
+  const stats = {
+    framesCreated: 0,
+    rectanglesCreated: 0,
+    textsCreated: 0,
+    vectorsCreated: 0,
+    componentsCreated: 0,
+    itemsFailed: 0,
+  };
+  
+  results.forEach((result, index) => {
+    const item = items[index];
+    if (!result.success) {
+      stats.itemsFailed++;
+      logger.debug('Batch item failed', { type: item.type, error: result.error });
+      return;
+    }
+    const statKey = CREATED_STAT_KEYS[item.type];
+    if (statKey) stats[statKey]++;
+  });
+  
   logger.info('Reconstruction complete', stats);
   
   return {
     success: true,
-    rootFrameId: rootFrame.nodeId,
+    rootFrameId,
+    transactionId,
     stats,
     message: `Reconstructed page from ${capture.url}`,
   };
 }
 
-async function reconstructElement(
-  bridge: ReturnType<typeof getPluginBridge>,
+const ROOT_TEMP_ID = 'root';
+
+const CREATED_STAT_KEYS: Partial<Record<BatchItem['type'], 'framesCreated' | 'rectanglesCreated' | 'textsCreated' | 'vectorsCreated'>> = {
+  CREATE_FRAME: 'framesCreated',
+  CREATE_RECTANGLE: 'rectanglesCreated',
+  CREATE_TEXT: 'textsCreated',
+  CREATE_NODE_FROM_SVG: 'vectorsCreated',
+};
+
+// Appends the commands for an element and its children; parents always precede children
+function collectElement(
+  items: BatchItem[],
   element: CapturedElement,
   parentId: string,
   componentMap: Map<string, DetectedComponent>,
-  stats: { framesCreated: number; rectanglesCreated: number; textsCreated: number; componentsCreated: number },
   simplifyNesting: boolean,
   depth: number
-): Promise<void> {
+): void {
   if (depth > 10) return;
   if (element.boundingBox.width < 5 || element.boundingBox.height < 5) return;
   
@@ -96,23 +139,37 @@ async function reconstructElement(
   const styles = element.computedStyles;
   const bgColor = parseBackgroundColor(styles.backgroundColor);
   
+  if (element.svgMarkup) {
+    items.push({
+      type: 'CREATE_NODE_FROM_SVG',
+      params: {
+        svg: element.svgMarkup,
+        name: getElementName(element, detectedComponent),
+        x: element.boundingBox.x,
+        y: element.boundingBox.y,
+        width: element.boundingBox.width,
+        height: element.boundingBox.height,
+        parentId,
+      },
+    });
+    return;
+  }
+  
   if (element.textContent && !element.children.length) {
     const textColor = parseBackgroundColor(styles.color) || { r: 0, g: 0, b: 0 };
     const fontSize = parseInt(styles.fontSize) || 14;
     
-    try {
-      await bridge.createText({
+    items.push({
+      type: 'CREATE_TEXT',
+      params: {
         characters: element.textContent,
         x: element.boundingBox.x,
         y: element.boundingBox.y,
         parentId,
         fontSize,
         fills: [{ type: 'SOLID', color: textColor }],
-      });
-      stats.textsCreated++;
-    } catch (e) {
-      logger.debug('Failed to create text', { error: e });
-    }
+      },
+    });
     return;
   }
   
@@ -129,52 +186,56 @@ async function reconstructElement(
     const isFlexContainer = styles.display === 'flex' || styles.display === 'inline-flex';
     
     if (isContainer) {
-      const result = await bridge.createFrame({
-        name: getElementName(element, detectedComponent),
-        width: element.boundingBox.width,
-        height: element.boundingBox.height,
-        x: element.boundingBox.x,
-        y: element.boundingBox.y,
-        parentId,
-        fills: bgColor ? [{ type: 'SOLID', color: bgColor }] : undefined,
+      nodeId = `el-${items.length}`;
+      items.push({
+        type: 'CREATE_FRAME',
+        tempId: nodeId,
+        params: {
+          name: getElementName(element, detectedComponent),
+          width: element.boundingBox.width,
+          height: element.boundingBox.height,
+          x: element.boundingBox.x,
+          y: element.boundingBox.y,
+          parentId,
+          fills: bgColor ? [{ type: 'SOLID', color: bgColor }] : undefined,
+        },
       });
-      nodeId = result.nodeId;
-      stats.framesCreated++;
       
       if (isFlexContainer) {
         const direction = styles.flexDirection === 'column' ? 'VERTICAL' : 'HORIZONTAL';
         const gap = parseInt(styles.gap || '0') || 0;
         
-        try {
-          await bridge.applyAutoLayout({
+        items.push({
+          type: 'APPLY_AUTO_LAYOUT',
+          params: {
             nodeId,
             direction,
             gap,
-          });
-        } catch (e) {
-          logger.debug('Failed to apply auto-layout', { error: e });
-        }
+          },
+        });
       }
     } else if (hasVisualStyles) {
       const cornerRadius = parseInt(styles.borderRadius) || 0;
       
-      await bridge.createRectangle({
-        name: getElementName(element, detectedComponent),
-        width: element.boundingBox.width,
-        height: element.boundingBox.height,
-        x: element.boundingBox.x,
-        y: element.boundingBox.y,
-        parentId,
-        fills: bgColor ? [{ type: 'SOLID', color: bgColor }] : [{ type: 'SOLID', color: { r: 0.9, g: 0.9, b: 0.9 } }],
-        cornerRadius,
+      items.push({
+        type: 'CREATE_RECTANGLE',
+        params: {
+          name: getElementName(element, detectedComponent),
+          width: element.boundingBox.width,
+          height: element.boundingBox.height,
+          x: element.boundingBox.x,
+          y: element.boundingBox.y,
+          parentId,
+          fills: bgColor ? [{ type: 'SOLID', color: bgColor }] : [{ type: 'SOLID', color: { r: 0.9, g: 0.9, b: 0.9 } }],
+          cornerRadius,
+        },
       });
-      stats.rectanglesCreated++;
       return;
     }
   }
   
   for (const child of element.children) {
-    await reconstructElement(bridge, child, nodeId, componentMap, stats, simplifyNesting, depth + 1);
+    collectElement(items, child, nodeId, componentMap, simplifyNesting, depth + 1);
   }
 }
 
@@ -215,18 +276,25 @@ function parseBackgroundColor(color: string): { r: number; g: number; b: number;
   return null;
 }
 
-export const reconstructPageToolDefinition = {
+export const reconstructPageToolDefinition = defineTool({
   name: 'reconstruct_page',
-  description: 'Reconstruct a captured webpage in Figma. Creates frames, shapes, and text based on the captured DOM structure. Requires capture_webpage to be called first.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      captureId: { type: 'string', description: 'Capture ID from capture_webpage' },
-      frameName: { type: 'string', description: 'Name for the root frame (default: "Reconstructed Page")' },
-      createComponents: { type: 'boolean', description: 'Create Figma components for detected UI elements' },
-      simplifyNesting: { type: 'boolean', description: 'Reduce deeply nested structures (default: true)' },
-      minConfidence: { type: 'number', description: 'Minimum confidence for component detection 0-1 (default: 0.7)' },
-    },
-    required: ['captureId'],
-  },
-};
+  description: 'Reconstruct a captured webpage in Figma. Creates frames, shapes, text and SVG icons based on the captured DOM structure. Requires capture_webpage to be called first.',
+  inputSchema: reconstructPageSchema,
+  outputSchema: z.object({
+    success: z.boolean(),
+    rootFrameId: z.string(),
+    transactionId: z.string(),
+    stats: z.object({
+      framesCreated: z.number(),
+      rectanglesCreated: z.number(),
+      textsCreated: z.number(),
+      vectorsCreated: z.number(),
+      componentsCreated: z.number(),
+      itemsFailed: z.number(),
+    }),
+    message: z.string(),
+  }),
+  annotations: { title: 'Reconstruct page', destructiveHint: false, openWorldHint: false },
+  pluginTarget: true,
+  handler: reconstructPage,
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { compareTokens, parseBoxShadow, toTextStyleParam, toVariableValue } from './sync-design-tokens.js';
+import type { DesignTokens } from '../../types/mcp.js';
+
+const emptyTokens = (): DesignTokens => ({ colors: {}, spacing: {}, typography: {}, shadows: {}, borderRadius: {} });
+
+describe('parseBoxShadow', () => {
+  it('parses every layer, keeping commas inside rgba()', () => {
+    expect(parseBoxShadow('0 1px 2px rgba(0, 0, 0, 0.05), inset 0 0 0 1px #ffffff')).toEqual([
+      { type: 'DROP_SHADOW', offset: { x: 0, y: 1 }, radius: 2, spread: 0, color: { r: 0, g: 0, b: 0, a: 0.05 } },
+      { type: 'INNER_SHADOW', offset: { x: 0, y: 0 }, radius: 0, spread: 1, color: { r: 1, g: 1, b: 1, a: 1 } },
+    ]);
+  });
+
+  it('defaults the color and skips layers without offsets', () => {
+    expect(parseBoxShadow('4px 8px 16px')).toEqual([
+      { type: 'DROP_SHADOW', offset: { x: 4, y: 8 }, radius: 16, spread: 0, color: { r: 0, g: 0, b: 0, a: 0.25 } },
+    ]);
+    expect(parseBoxShadow('none')).toEqual([]);
+  });
+});
+
+describe('toTextStyleParam', () => {
+  it('converts CSS typography values', () => {
+    expect(toTextStyleParam({
+      fontFamily: '"Inter", sans-serif',
+      fontSize: '16px',
+      fontWeight: 'semibold',
+      lineHeight: '1.5',
+      letterSpacing: '-0.02em',
+    })).toEqual({
+      fontFamily: 'Inter',
+      fontSize: 16,
+      fontWeight: 600,
+      lineHeight: { value: 150, unit: 'PERCENT' },
+      letterSpacing: { value: -2, unit: 'PERCENT' },
+    });
+  });
+
+  it('keeps pixel and percent line heights', () => {
+    expect(toTextStyleParam({ fontFamily: 'Inter', fontSize: '14', fontWeight: '400', lineHeight: '20px' }))
+      .toMatchObject({ fontWeight: 400, lineHeight: 20 });
+    expect(toTextStyleParam({ fontFamily: 'Inter', fontSize: '14', fontWeight: '400', lineHeight: '120%' }))
+      .toMatchObject({ lineHeight: { value: 120, unit: 'PERCENT' } });
+  });
+
+  it('rejects tokens with neither a family nor a size', () => {
+    expect(toTextStyleParam({ fontFamily: '', fontSize: 'inherit', fontWeight: '', lineHeight: '' })).toBeNull();
+  });
+});
+
+describe('toVariableValue', () => {
+  it('converts colors and numbers by variable type', () => {
+    expect(toVariableValue('COLOR', '#ff0000')).toEqual({ r: 1, g: 0, b: 0, a: 1 });
+    expect(toVariableValue('FLOAT', 8)).toBe(8);
+  });
+
+  it('rejects values that do not fit the type', () => {
+    expect(toVariableValue('COLOR', 'var(--brand)')).toBeNull();
+    expect(toVariableValue('FLOAT', '8px')).toBeNull();
+  });
+});
+
+describe('compareTokens', () => {
+  it('matches token names case-insensitively across both sides', () => {
+    const figma = { ...emptyTokens(), colors: { Primary: '#000000', accent: '#ff0000' } };
+    const code = { ...emptyTokens(), colors: { primary: '#000000', muted: '#888888' }, spacing: { sm: '4px' } };
+
+    const { comparison, summary } = compareTokens(figma, code);
+
+    expect(comparison.colors).toEqual({ inBoth: ['Primary'], onlyFigma: ['accent'], onlyCode: ['muted'] });
+    expect(comparison.spacing.onlyCode).toEqual(['sm']);
+    expect(summary).toEqual({ totalFigma: 2, totalCode: 3, matching: 1 });
+  });
+});
@@ -1,24 +1,37 @@
 import { z } from 'zod';
 import { getFigmaClient } from '../../services/figma-api/index.js';
-import { getAnalysisById } from './analyze-codebase.js';
-import { createLogger, hexToRgba } from '../../lib/index.js';
-import type { DesignTokens } from '../../types/mcp.js';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { getAnalysisById, designTokensSchema } from './analyze-codebase.js';
+import { createLogger, parseColorString } from '../../lib/index.js';
+import type { DesignTokens, TypographyToken } from '../../types/mcp.js';
+import type {
+  EffectParam,
+  LiveStyle,
+  LiveVariable,
+  LiveVariableCollection,
+  StyleTypeParam,
+  StylePropertiesParam,
+  TextStyleParam,
+  VariableValueParam,
+} from '../../types/commands.js';
+import { defineTool } from '../registry.js';
 
 const logger = createLogger('tool:sync-design-tokens');
 
 export const syncDesignTokensSchema = z.object({
-  direction: z.enum(['figma-to-code', 'code-to-figma', 'compare']).describe('Sync direction'),
-  figmaFileKey: z.string().optional().describe('Figma file key for reading/writing tokens'),
+  direction: z.enum(['figma-to-code', 'code-to-figma', 'compare']).describe('Sync direction: figma-to-code extracts Figma tokens, code-to-figma extracts code tokens, compare shows differences'),
+  figmaFileKey: z.string().optional().describe('Figma file key (required for figma-to-code and compare)'),
   analysisId: z.string().optional().describe('Analysis ID from analyze_codebase'),
   codebasePath: z.string().optional().describe('Path to codebase (alternative to analysisId)'),
+  apply: z.boolean().optional().default(false).describe('For code-to-figma: create or update variables and styles in the open file via the plugin (default: false)'),
 });
 
 export type SyncDesignTokensParams = z.infer<typeof syncDesignTokensSchema>;
 
 export async function syncDesignTokens(params: SyncDesignTokensParams) {
-  const { direction, figmaFileKey, analysisId } = params;
+  const { direction, figmaFileKey, analysisId, apply } = params;
   
-  logger.info('Syncing design tokens', { direction, figmaFileKey, analysisId });
+  logger.info('Syncing design tokens', { direction, figmaFileKey, analysisId, apply });
   
   let figmaTokens: DesignTokens | null = null;
   let codeTokens: DesignTokens | null = null;
@@ -55,11 +68,28 @@ export async function syncDesignTokens(params: SyncDesignTokensParams) {
     if (!codeTokens) {
       throw new Error('analysisId or codebasePath is required for code-to-figma sync');
     }
+    const variableStructure = generateFigmaVariableStructure(codeTokens);
+    
+    if (!apply) {
+      return {
+        direction: 'code-to-figma',
+        tokens: codeTokens,
+        message: 'Code tokens extracted. Set apply: true to create them as Figma variables and styles via the plugin.',
+        variableStructure,
+      };
+    }
+    
+    const applied = await applyFigmaVariableStructure(variableStructure);
+    const appliedStyles = await applyFigmaStyles(codeTokens);
     return {
       direction: 'code-to-figma',
       tokens: codeTokens,
-      message: 'Code tokens extracted. Manual creation in Figma required (API limitation).',
-      variableStructure: generateFigmaVariableStructure(codeTokens),
+      message: `Applied tokens to Figma: ${applied.created} variables created, ${applied.updated} updated, ` +
+        `${appliedStyles.created} styles created, ${appliedStyles.updated} updated, ` +
+        `${applied.skipped.length + appliedStyles.skipped.length} skipped`,
+      variableStructure,
+      applied,
+      appliedStyles,
     };
   }
   
@@ -137,7 +167,7 @@ function rgbaToHex(rgba: { r: number; g: number; b: number; a?: number }): strin
   return `#${r}${g}${b}`;
 }
 
-function compareTokens(figmaTokens: DesignTokens | null, codeTokens: DesignTokens | null) {
+export function compareTokens(figmaTokens: DesignTokens | null, codeTokens: DesignTokens | null) {
   const comparison = {
     colors: { inBoth: [] as string[], onlyFigma: [] as string[], onlyCode: [] as string[] },
     spacing: { inBoth: [] as string[], onlyFigma: [] as string[], onlyCode: [] as string[] },
@@ -239,7 +269,7 @@ function generateFigmaVariableStructure(tokens: DesignTokens) {
         modes: ['Default'],
         variables: Object.entries(tokens.colors).map(([name, value]) => ({
           name,
-          type: 'COLOR',
+          type: 'COLOR' as const,
           value,
         })),
       },
@@ -248,7 +278,7 @@ function generateFigmaVariableStructure(tokens: DesignTokens) {
         modes: ['Default'],
         variables: Object.entries(tokens.spacing).map(([name, value]) => ({
           name,
-          type: 'FLOAT',
+          type: 'FLOAT' as const,
           value: parseFloat(value) || 0,
         })),
       },
@@ -257,7 +287,7 @@ function generateFigmaVariableStructure(tokens: DesignTokens) {
         modes: ['Default'],
         variables: Object.entries(tokens.borderRadius).map(([name, value]) => ({
           name,
-          type: 'FLOAT',
+          type: 'FLOAT' as const,
           value: parseFloat(value) || 0,
         })),
       },
@@ -265,6 +295,181 @@ function generateFigmaVariableStructure(tokens: DesignTokens) {
   };
 }
 
+type FigmaVariableStructure = ReturnType<typeof generateFigmaVariableStructure>;
+
+async function applyFigmaVariableStructure(structure: FigmaVariableStructure) {
+  const bridge = getPluginBridge();
+  const existing = await bridge.getLocalVariables();
+  const summary = { created: 0, updated: 0, collectionsCreated: 0, skipped: [] as string[] };
+  
+  for (const collectionSpec of structure.collections) {
+    if (collectionSpec.variables.length === 0) continue;
+    
+    let collection: LiveVariableCollection | undefined = existing.collections.find(c => c.name === collectionSpec.name);
+    if (!collection) {
+      const result = await bridge.createVariableCollection({ name: collectionSpec.name, modes: collectionSpec.modes });
+      collection = result.collection;
+      summary.collectionsCreated++;
+    }
+    const modeId = collection.defaultModeId;
+    const collectionId = collection.id;
+    
+    for (const variableSpec of collectionSpec.variables) {
+      const value = toVariableValue(variableSpec.type, variableSpec.value);
+      if (value === null) {
+        summary.skipped.push(`${collectionSpec.name}/${variableSpec.name}`);
+        continue;
+      }
+      
+      const match: LiveVariable | undefined = existing.variables.find(
+        v => v.collectionId === collectionId && v.name === variableSpec.name
+      );
+      
+      try {
+        if (match && match.resolvedType === variableSpec.type) {
+          await bridge.updateVariable({ variableId: match.id, valuesByMode: { [modeId]: value } });
+          summary.updated++;
+        } else if (!match) {
+          await bridge.createVariable({
+            collectionId,
+            name: variableSpec.name,
+            resolvedType: variableSpec.type,
+            valuesByMode: { [modeId]: value },
+          });
+          summary.created++;
+        } else {
+          summary.skipped.push(`${collectionSpec.name}/${variableSpec.name}`);
+        }
+      } catch (error) {
+        logger.debug('Failed to apply variable', { name: variableSpec.name, error });
+        summary.skipped.push(`${collectionSpec.name}/${variableSpec.name}`);
+      }
+    }
+  }
+  
+  return summary;
+}
+
+export function toVariableValue(type: 'COLOR' | 'FLOAT', value: string | number): VariableValueParam | null {
+  if (type === 'FLOAT') {
+    return typeof value === 'number' ? value : null;
+  }
+  
+  const rgba = typeof value === 'string' ? parseColorString(value) : null;
+  if (!rgba || [rgba.r, rgba.g, rgba.b, rgba.a].some(n => Number.isNaN(n))) {
+    return null;
+  }
+  return rgba;
+}
+
+// Typography and shadows have no variable type, so they become text and effect styles
+async function applyFigmaStyles(tokens: DesignTokens) {
+  const bridge = getPluginBridge();
+  const { styles } = await bridge.getLocalStyles();
+  const summary = { created: 0, updated: 0, skipped: [] as string[] };
+  
+  const upsert = async (styleType: StyleTypeParam, name: string, properties: StylePropertiesParam) => {
+    const match: LiveStyle | undefined = styles.find(s => s.type === styleType && s.name === name && !s.remote);
+    try {
+      if (match) {
+        await bridge.updateStyle({ styleId: match.id, ...properties });
+        summary.updated++;
+      } else {
+        await bridge.createStyle({ styleType, name, ...properties });
+        summary.created++;
+      }
+    } catch (error) {
+      logger.debug('Failed to apply style', { name, error });
+      summary.skipped.push(name);
+    }
+  };
+  
+  for (const [name, token] of Object.entries(tokens.typography)) {
+    const text = toTextStyleParam(token);
+    if (!text) {
+      summary.skipped.push(name);
+      continue;
+    }
+    await upsert('TEXT', name, { text });
+  }
+  
+  for (const [name, value] of Object.entries(tokens.shadows)) {
+    const effects = parseBoxShadow(value);
+    if (effects.length === 0) {
+      summary.skipped.push(name);
+      continue;
+    }
+    await upsert('EFFECT', name, { effects });
+  }
+  
+  return summary;
+}
+
+export function toTextStyleParam(token: TypographyToken): TextStyleParam | null {
+  const fontFamily = token.fontFamily.split(',')[0]?.trim().replace(/^['"]|['"]$/g, '');
+  const fontSize = parseFloat(token.fontSize);
+  if (!fontFamily && Number.isNaN(fontSize)) {
+    return null;
+  }
+  
+  const text: TextStyleParam = {};
+  if (fontFamily) text.fontFamily = fontFamily;
+  if (!Number.isNaN(fontSize)) text.fontSize = fontSize;
+  
+  const weights: Record<string, number> = { normal: 400, medium: 500, semibold: 600, bold: 700 };
+  const fontWeight = parseInt(token.fontWeight, 10) || weights[token.fontWeight.toLowerCase()];
+  if (fontWeight) text.fontWeight = fontWeight;
+  
+  const lineHeight = parseFloat(token.lineHeight);
+  if (!Number.isNaN(lineHeight)) {
+    if (token.lineHeight.endsWith('%')) {
+      text.lineHeight = { value: lineHeight, unit: 'PERCENT' };
+    } else if (token.lineHeight.endsWith('px')) {
+      text.lineHeight = lineHeight;
+    } else {
+      text.lineHeight = { value: lineHeight * 100, unit: 'PERCENT' };
+    }
+  }
+  
+  const letterSpacing = token.letterSpacing ? parseFloat(token.letterSpacing) : NaN;
+  if (!Number.isNaN(letterSpacing)) {
+    text.letterSpacing = token.letterSpacing!.endsWith('em')
+      ? { value: letterSpacing * 100, unit: 'PERCENT' }
+      : letterSpacing;
+  }
+  
+  return text;
+}
+
+export function parseBoxShadow(value: string): EffectParam[] {
+  // Split on commas that are not inside rgb()/rgba()
+  const layers = value.split(/,(?![^(]*\))/).map(layer => layer.trim()).filter(Boolean);
+  const effects: EffectParam[] = [];
+  
+  for (const layer of layers) {
+    const colorMatch = layer.match(/rgba?\([^)]*\)|#[0-9a-fA-F]{3,8}\b/);
+    const color = colorMatch ? parseColorString(colorMatch[0]) : { r: 0, g: 0, b: 0, a: 0.25 };
+    const lengths = layer
+      .replace(colorMatch?.[0] ?? '', '')
+      .split(/\s+/)
+      .filter(part => /^-?[\d.]+(px)?$/.test(part))
+      .map(part => parseFloat(part));
+    
+    if (lengths.length < 2 || !color || Number.isNaN(color.r)) continue;
+    
+    const [x, y, blur = 0, spread = 0] = lengths;
+    effects.push({
+      type: /\binset\b/.test(layer) ? 'INNER_SHADOW' : 'DROP_SHADOW',
+      offset: { x, y },
+      radius: blur,
+      spread,
+      color,
+    });
+  }
+  
+  return effects;
+}
+
 function kebabCase(str: string): string {
   return str
     .replace(/([a-z])([A-Z])/g, '$1-$2')
@@ -272,21 +477,50 @@ function kebabCase(str: string): string {
     .toLowerCase();
 }
 
-export const syncDesignTokensToolDefinition = {
+export const syncDesignTokensToolDefinition = defineTool({
   name: 'sync_design_tokens',
-  description: 'Compare and sync design tokens between Figma and code. Can extract tokens from Figma variables/styles or from codebase analysis.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      direction: { 
-        type: 'string', 
-        enum: ['figma-to-code', 'code-to-figma', 'compare'],
-        description: 'Sync direction: figma-to-code extracts Figma tokens, code-to-figma extracts code tokens, compare shows differences' 
-      },
-      figmaFileKey: { type: 'string', description: 'Figma file key (required for figma-to-code and compare)' },
-      analysisId: { type: 'string', description: 'Analysis ID from analyze_codebase' },
-      codebasePath: { type: 'string', description: 'Path to codebase (alternative to analysisId)' },
-    },
-    required: ['direction'],
-  },
-};
+  description: 'Compare and sync design tokens between Figma and code. Can extract tokens from Figma variables/styles or from codebase analysis. With direction code-to-figma and apply: true, creates or updates matching Figma variables, text styles and effect styles via the plugin.',
+  inputSchema: syncDesignTokensSchema,
+  outputSchema: z.object({
+    direction: z.string().describe('The requested direction'),
+    message: z.string().optional(),
+    comparison: z.record(z.object({
+      inBoth: z.array(z.string()),
+      onlyFigma: z.array(z.string()),
+      onlyCode: z.array(z.string()),
+    })).optional().describe('compare: token names per category'),
+    summary: z.object({
+      totalFigma: z.number(),
+      totalCode: z.number(),
+      matching: z.number(),
+    }).optional(),
+    tokens: designTokensSchema.optional(),
+    cssVariables: z.string().optional(),
+    tailwindConfig: z.string().optional(),
+    variableStructure: z.object({
+      collections: z.array(z.object({
+        name: z.string(),
+        modes: z.array(z.string()),
+        variables: z.array(z.object({
+          name: z.string(),
+          type: z.enum(['COLOR', 'FLOAT']),
+          value: z.union([z.string(), z.number()]),
+        })),
+      })),
+    }).optional().describe('code-to-figma: variables to create'),
+    applied: z.object({
+      created: z.number(),
+      updated: z.number(),
+      collectionsCreated: z.number(),
+      skipped: z.array(z.string()),
+    }).optional(),
+    appliedStyles: z.object({
+      created: z.number(),
+      updated: z.number(),
+      skipped: z.array(z.string()),
+    }).optional(),
+  }),
+  annotations: { title: 'Sync design tokens', destructiveHint: true, openWorldHint: true },
+  pluginTarget: true,
+  handler: syncDesignTokens,
+});
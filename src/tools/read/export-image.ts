@@ -1,64 +1,63 @@
 import { z } from 'zod';
 import { getFigmaClient } from '../../services/figma-api/index.js';
-import { createLogger } from '../../lib/index.js';
+import { loadImageBytes } from '../../services/plugin-bridge/index.js';
+import { fitImage, DEFAULT_MAX_IMAGE_DIMENSION } from '../../services/playwright/index.js';
+import { createLogger, ValidationError } from '../../lib/index.js';
+import { defineTool, imageTilesSchema } from '../registry.js';
 
 const logger = createLogger('tool:export-image');
 
 export const exportImageSchema = z.object({
   fileKey: z.string().describe('The Figma file key'),
-  nodeId: z.string().describe('The node ID to export'),
-  format: z.enum(['png', 'jpg', 'svg', 'pdf']).optional().describe('Export format'),
-  scale: z.number().min(0.01).max(4).optional().describe('Export scale (0.01-4)'),
+  nodeId: z.string().describe('The node ID to export (e.g., "1:5")'),
+  format: z.enum(['png', 'jpg', 'svg', 'pdf']).optional().describe('Export format (default: png)'),
+  scale: z.number().min(0.01).max(4).optional().describe('Export scale from 0.01 to 4 (default: 1)'),
+  includeImage: z.boolean().optional().describe('Download the export and return it as image content so it can be inspected visually (png or jpg only, default: false)'),
+  maxDimension: z.number().int().min(64).max(8000).optional().describe(`Longest edge of returned images in pixels (default: ${DEFAULT_MAX_IMAGE_DIMENSION})`),
 });
 
 export type ExportImageParams = z.infer<typeof exportImageSchema>;
 
 export async function exportImage(params: ExportImageParams) {
-  const { fileKey, nodeId, format = 'png', scale = 1 } = params;
+  const { fileKey, nodeId, format = 'png', scale = 1, includeImage = false, maxDimension } = params;
+  
+  if (includeImage && format !== 'png' && format !== 'jpg') {
+    throw new ValidationError(`includeImage requires png or jpg format, got ${format}`);
+  }
   
   logger.debug('Exporting image', { fileKey, nodeId, format, scale });
   
   const client = getFigmaClient();
-  const result = await client.exportImages(fileKey, [nodeId], { format, scale });
+  const { images: urls } = await client.exportImages(fileKey, [nodeId], { format, scale });
   
-  const imageUrl = result.images[nodeId];
+  const imageUrl = urls[nodeId];
   
   if (!imageUrl) {
     throw new Error(`Failed to export node ${nodeId}`);
   }
   
+  const images = includeImage ? await fitImage(await loadImageBytes(imageUrl), { maxDimension }) : undefined;
+  
   return {
     nodeId,
     format,
     scale,
     url: imageUrl,
+    images,
   };
 }
 
-export const exportImageToolDefinition = {
+export const exportImageToolDefinition = defineTool({
   name: 'export_image',
-  description: 'Export a Figma node as an image (PNG, JPG, SVG, or PDF). Returns a URL to the exported image.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      fileKey: {
-        type: 'string',
-        description: 'The Figma file key',
-      },
-      nodeId: {
-        type: 'string',
-        description: 'The node ID to export (e.g., "1:5")',
-      },
-      format: {
-        type: 'string',
-        enum: ['png', 'jpg', 'svg', 'pdf'],
-        description: 'Export format (default: png)',
-      },
-      scale: {
-        type: 'number',
-        description: 'Export scale from 0.01 to 4 (default: 1)',
-      },
-    },
-    required: ['fileKey', 'nodeId'],
-  },
-};
+  description: 'Export a Figma node as an image (PNG, JPG, SVG, or PDF). Returns a URL to the exported image; with includeImage, also returns the PNG or JPG as image content, downscaled and split into tiles when large.',
+  inputSchema: exportImageSchema,
+  outputSchema: z.object({
+    nodeId: z.string(),
+    format: z.enum(['png', 'jpg', 'svg', 'pdf']),
+    scale: z.number(),
+    url: z.string().describe('Rendered image URL; expires after 30 days'),
+    images: imageTilesSchema.optional(),
+  }),
+  annotations: { title: 'Export image', readOnlyHint: true, openWorldHint: true },
+  handler: exportImage,
+});
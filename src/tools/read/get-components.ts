@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { getFigmaClient } from '../../services/figma-api/index.js';
 import { createLogger } from '../../lib/index.js';
+import { defineTool } from '../registry.js';
 
 const logger = createLogger('tool:get-components');
 
@@ -16,31 +17,54 @@ export async function getComponents(params: GetComponentsParams) {
   logger.debug('Getting components', { fileKey });
   
   const client = getFigmaClient();
-  const result = await client.getComponents(fileKey);
+  const [result, setsResult] = await Promise.all([
+    client.getComponents(fileKey),
+    client.getComponentSets(fileKey),
+  ]);
   
   const components = result.meta?.components || [];
+  const componentSets = setsResult.meta?.component_sets || [];
   
   return {
     components: components.map(c => ({
       key: c.key,
       name: c.name,
       description: c.description,
+      nodeId: c.node_id,
+      componentSet: c.containing_frame?.containingComponentSet ?? undefined,
+    })),
+    componentSets: componentSets.map(s => ({
+      key: s.key,
+      name: s.name,
+      description: s.description,
+      nodeId: s.node_id,
+      variantCount: components.filter(c => c.containing_frame?.containingComponentSet?.nodeId === s.node_id).length,
     })),
     count: components.length,
   };
 }
 
-export const getComponentsToolDefinition = {
+export const getComponentsToolDefinition = defineTool({
   name: 'get_components',
-  description: 'List all components in a Figma file. Returns component keys, names, and descriptions.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      fileKey: {
-        type: 'string',
-        description: 'The Figma file key',
-      },
-    },
-    required: ['fileKey'],
-  },
-};
+  description: 'List all components and component sets in a Figma file. Returns keys, names, descriptions, node IDs, and the component set each variant belongs to.',
+  inputSchema: getComponentsSchema,
+  outputSchema: z.object({
+    components: z.array(z.object({
+      key: z.string(),
+      name: z.string(),
+      description: z.string(),
+      nodeId: z.string().optional(),
+      componentSet: z.object({ nodeId: z.string(), name: z.string() }).optional(),
+    })),
+    componentSets: z.array(z.object({
+      key: z.string(),
+      name: z.string(),
+      description: z.string(),
+      nodeId: z.string().optional(),
+      variantCount: z.number(),
+    })),
+    count: z.number(),
+  }),
+  annotations: { title: 'Get components', readOnlyHint: true, openWorldHint: true },
+  handler: getComponents,
+});
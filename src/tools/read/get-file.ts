@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { getFigmaClient } from '../../services/figma-api/index.js';
 import { createLogger } from '../../lib/index.js';
+import { defineTool } from '../registry.js';
 
 const logger = createLogger('tool:get-file');
 
@@ -31,25 +32,19 @@ export async function getFile(params: GetFileParams) {
   };
 }
 
-export const getFileToolDefinition = {
+export const getFileToolDefinition = defineTool({
   name: 'get_file',
   description: 'Get a Figma file structure and metadata. Returns the document tree, components, and styles.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      fileKey: {
-        type: 'string',
-        description: 'The Figma file key (from URL: figma.com/file/{fileKey}/...)',
-      },
-      depth: {
-        type: 'number',
-        description: 'How deep to traverse the node tree (default: full depth)',
-      },
-      nodeId: {
-        type: 'string',
-        description: 'Specific node ID to retrieve',
-      },
-    },
-    required: ['fileKey'],
-  },
-};
+  inputSchema: getFileSchema,
+  outputSchema: z.object({
+    name: z.string(),
+    lastModified: z.string(),
+    version: z.string(),
+    thumbnailUrl: z.string().optional(),
+    document: z.unknown().describe('Document node tree, as returned by the Figma REST API'),
+    componentCount: z.number(),
+    styleCount: z.number(),
+  }),
+  annotations: { title: 'Get file', readOnlyHint: true, openWorldHint: true },
+  handler: getFile,
+});
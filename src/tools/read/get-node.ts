@@ -1,12 +1,13 @@
 import { z } from 'zod';
 import { getFigmaClient } from '../../services/figma-api/index.js';
 import { createLogger } from '../../lib/index.js';
+import { defineTool } from '../registry.js';
 
 const logger = createLogger('tool:get-node');
 
 export const getNodeSchema = z.object({
   fileKey: z.string().describe('The Figma file key'),
-  nodeIds: z.array(z.string()).describe('Array of node IDs to retrieve'),
+  nodeIds: z.array(z.string()).describe('Array of node IDs to retrieve (e.g., ["1:5", "1:6"])'),
   depth: z.number().optional().describe('How deep to traverse from each node'),
 });
 
@@ -26,26 +27,14 @@ export async function getNode(params: GetNodeParams) {
   };
 }
 
-export const getNodeToolDefinition = {
+export const getNodeToolDefinition = defineTool({
   name: 'get_node',
   description: 'Get specific nodes from a Figma file by their IDs. More efficient than getting the full file when you know what nodes you need.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      fileKey: {
-        type: 'string',
-        description: 'The Figma file key',
-      },
-      nodeIds: {
-        type: 'array',
-        items: { type: 'string' },
-        description: 'Array of node IDs to retrieve (e.g., ["1:5", "1:6"])',
-      },
-      depth: {
-        type: 'number',
-        description: 'How deep to traverse from each node',
-      },
-    },
-    required: ['fileKey', 'nodeIds'],
-  },
-};
+  inputSchema: getNodeSchema,
+  outputSchema: z.object({
+    nodes: z.record(z.unknown()).describe('Node ID -> document subtree with its components and styles, as returned by the Figma REST API'),
+    count: z.number(),
+  }),
+  annotations: { title: 'Get nodes', readOnlyHint: true, openWorldHint: true },
+  handler: getNode,
+});
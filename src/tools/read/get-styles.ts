@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { getFigmaClient } from '../../services/figma-api/index.js';
 import { createLogger } from '../../lib/index.js';
+import { defineTool } from '../registry.js';
 
 const logger = createLogger('tool:get-styles');
 
@@ -44,17 +45,31 @@ export async function getStyles(params: GetStylesParams) {
   };
 }
 
-export const getStylesToolDefinition = {
+const publishedStyleSchema = z.object({
+  key: z.string(),
+  name: z.string(),
+  description: z.string(),
+});
+
+export const getStylesToolDefinition = defineTool({
   name: 'get_styles',
   description: 'Get all styles (colors, text styles, effects, grids) from a Figma file.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      fileKey: {
-        type: 'string',
-        description: 'The Figma file key',
-      },
-    },
-    required: ['fileKey'],
-  },
-};
+  inputSchema: getStylesSchema,
+  outputSchema: z.object({
+    styles: z.object({
+      fill: z.array(publishedStyleSchema),
+      text: z.array(publishedStyleSchema),
+      effect: z.array(publishedStyleSchema),
+      grid: z.array(publishedStyleSchema),
+    }),
+    counts: z.object({
+      fill: z.number(),
+      text: z.number(),
+      effect: z.number(),
+      grid: z.number(),
+      total: z.number(),
+    }),
+  }),
+  annotations: { title: 'Get styles', readOnlyHint: true, openWorldHint: true },
+  handler: getStyles,
+});
@@ -1,12 +1,13 @@
 import { z } from 'zod';
 import { getFigmaClient } from '../../services/figma-api/index.js';
 import { createLogger } from '../../lib/index.js';
+import { defineTool } from '../registry.js';
 
 const logger = createLogger('tool:get-variables');
 
 export const getVariablesSchema = z.object({
   fileKey: z.string().describe('The Figma file key'),
-  published: z.boolean().optional().describe('Get published variables instead of local'),
+  published: z.boolean().optional().describe('Get published variables instead of local (default: false)'),
 });
 
 export type GetVariablesParams = z.infer<typeof getVariablesSchema>;
@@ -44,21 +45,28 @@ export async function getVariables(params: GetVariablesParams) {
   };
 }
 
-export const getVariablesToolDefinition = {
+export const getVariablesToolDefinition = defineTool({
   name: 'get_variables',
   description: 'Get design tokens/variables from a Figma file. Includes colors, spacing, and other tokenized values.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      fileKey: {
-        type: 'string',
-        description: 'The Figma file key',
-      },
-      published: {
-        type: 'boolean',
-        description: 'Get published variables instead of local (default: false)',
-      },
-    },
-    required: ['fileKey'],
-  },
-};
+  inputSchema: getVariablesSchema,
+  outputSchema: z.object({
+    variables: z.array(z.object({
+      id: z.string(),
+      name: z.string(),
+      type: z.string(),
+      collectionId: z.string(),
+    })),
+    collections: z.array(z.object({
+      id: z.string(),
+      name: z.string(),
+      modes: z.array(z.object({ modeId: z.string(), name: z.string() })),
+      variableCount: z.number(),
+    })),
+    counts: z.object({
+      variables: z.number(),
+      collections: z.number(),
+    }),
+  }),
+  annotations: { title: 'Get variables', readOnlyHint: true, openWorldHint: true },
+  handler: getVariables,
+});
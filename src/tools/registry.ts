@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolContext } from '../lib/index.js';
+
+/**
+ * A tool as the MCP server registers it. The zod input schema is the single
+ * source of the advertised JSON schema and of argument validation; the
+ * handler's result is sent as structuredContent matching outputSchema.
+ */
+export interface ToolDefinition<
+  Input extends z.AnyZodObject = z.AnyZodObject,
+  Output extends z.AnyZodObject = z.AnyZodObject,
+> {
+  name: string;
+  description: string;
+  inputSchema: Input;
+  outputSchema: Output;
+  annotations: ToolAnnotations;
+  pluginTarget?: boolean; // Also accepts fileKey, connectionId and timeoutMs to pick a plugin connection
+  handler(params: z.output<Input>, context: ToolContext): Promise<z.input<Output>>;
+}
+
+export function defineTool<Input extends z.AnyZodObject, Output extends z.AnyZodObject>(
+  definition: ToolDefinition<Input, Output>
+): ToolDefinition<Input, Output> {
+  return definition;
+}
+
+// Output of most write tools: the created or changed node
+export const nodeResultSchema = z.object({
+  success: z.boolean(),
+  nodeId: z.string(),
+  message: z.string(),
+});
+
+export const messageResultSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+});
+
+// Image tiles are sent as image content; structuredContent keeps their geometry
+export const imageTilesSchema = z.array(z.object({
+  mimeType: z.enum(['image/png', 'image/jpeg']),
+  width: z.number(),
+  height: z.number(),
+  region: z.object({ x: z.number(), y: z.number(), width: z.number(), height: z.number() })
+    .describe('Source pixels this tile covers'),
+}));
@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:add-component-property');
+
+const preferredValueSchema = z.object({
+  type: z.enum(['COMPONENT', 'COMPONENT_SET']),
+  key: z.string().describe('Component or component set key'),
+});
+
+export const addComponentPropertySchema = z.object({
+  nodeId: z.string().describe('Component or component set node ID'),
+  name: z.string().describe('Property name, e.g. "Label"'),
+  type: z.enum(['BOOLEAN', 'TEXT', 'INSTANCE_SWAP', 'VARIANT']).describe('Property type'),
+  defaultValue: z.union([z.string(), z.boolean()]).describe('Default value: boolean for BOOLEAN, text for TEXT, component node ID for INSTANCE_SWAP, option name for VARIANT'),
+  preferredValues: z.array(preferredValueSchema).optional().describe('Preferred swap components for INSTANCE_SWAP properties'),
+  linkedNodeIds: z.array(z.string()).optional().describe('Layers inside the component the property controls (text nodes for TEXT, nested instances for INSTANCE_SWAP, any layer for BOOLEAN)'),
+});
+
+export type AddComponentPropertyParams = z.infer<typeof addComponentPropertySchema>;
+
+export async function addComponentProperty(params: AddComponentPropertyParams) {
+  const { nodeId, name, type, defaultValue, preferredValues, linkedNodeIds } = params;
+  
+  logger.debug('Adding component property', { nodeId, name, type });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.addComponentProperty({
+    nodeId,
+    name,
+    type,
+    defaultValue,
+    preferredValues,
+    linkedNodeIds,
+  });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    propertyName: result.propertyName,
+    definitions: result.definitions,
+    message: `Added ${type} property "${result.propertyName}" to ${nodeId}`,
+  };
+}
+
+// Shared with the other component property tools and get_selection
+export const componentPropertyDefinitionsSchema = z.record(z.object({
+  type: z.enum(['BOOLEAN', 'TEXT', 'INSTANCE_SWAP', 'VARIANT']),
+  defaultValue: z.union([z.string(), z.boolean()]),
+  preferredValues: z.array(preferredValueSchema).optional(),
+  variantOptions: z.array(z.string()).optional(),
+})).describe('All component property definitions after the change, keyed by property name');
+
+export const addComponentPropertyToolDefinition = defineTool({
+  name: 'add_component_property',
+  description: 'Add a component property (BOOLEAN, TEXT, INSTANCE_SWAP or VARIANT) to a component or component set. linkedNodeIds wires the property to sublayers: BOOLEAN controls visibility, TEXT controls text content, INSTANCE_SWAP controls a nested instance. Returns the property name with its unique "#id" suffix.',
+  inputSchema: addComponentPropertySchema,
+  outputSchema: nodeResultSchema.extend({
+    propertyName: z.string().describe('Property name with the #id suffix Figma appends for BOOLEAN, TEXT and INSTANCE_SWAP'),
+    definitions: componentPropertyDefinitionsSchema,
+  }),
+  annotations: { title: 'Add component property', destructiveHint: false, openWorldHint: false },
+  pluginTarget: true,
+  handler: addComponentProperty,
+});
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+import { variantGroupsSchema } from './combine-as-variants.js';
+
+const logger = createLogger('tool:add-variant-property');
+
+export const addVariantPropertySchema = z.object({
+  componentSetId: z.string().describe('Component set node ID'),
+  name: z.string().describe('Variant property name, e.g. "State"'),
+  defaultValue: z.string().describe('Value assigned to every existing variant'),
+});
+
+export type AddVariantPropertyParams = z.infer<typeof addVariantPropertySchema>;
+
+export async function addVariantProperty(params: AddVariantPropertyParams) {
+  const { componentSetId, name, defaultValue } = params;
+  
+  logger.debug('Adding variant property', { componentSetId, name });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.addVariantProperty({ componentSetId, name, defaultValue });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    variantGroups: result.variantGroups,
+    message: `Added variant property "${name}" to component set ${componentSetId}`,
+  };
+}
+
+export const addVariantPropertyToolDefinition = defineTool({
+  name: 'add_variant_property',
+  description: 'Add a new variant property to a component set. Every existing variant gets the default value; use set_variant_properties to change individual variants.',
+  inputSchema: addVariantPropertySchema,
+  outputSchema: nodeResultSchema.extend({
+    variantGroups: variantGroupsSchema,
+  }),
+  annotations: { title: 'Add variant property', destructiveHint: false, openWorldHint: false },
+  pluginTarget: true,
+  handler: addVariantProperty,
+});
@@ -1,21 +1,24 @@
 import { z } from 'zod';
 import { getPluginBridge } from '../../services/plugin-bridge/index.js';
 import { createLogger } from '../../lib/index.js';
+import { variableBindingsSchema } from './bind-variables.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
 
 const logger = createLogger('tool:apply-auto-layout');
 
 export const applyAutoLayoutSchema = z.object({
-  nodeId: z.string().describe('The frame node ID to apply auto-layout to'),
+  nodeId: z.string().describe('The frame node ID'),
   direction: z.enum(['HORIZONTAL', 'VERTICAL']).describe('Layout direction'),
-  gap: z.number().min(0).optional().describe('Gap between items'),
-  paddingLeft: z.number().min(0).optional(),
-  paddingRight: z.number().min(0).optional(),
-  paddingTop: z.number().min(0).optional(),
-  paddingBottom: z.number().min(0).optional(),
-  primaryAxisSizing: z.enum(['FIXED', 'AUTO']).optional().describe('How the container sizes along the layout axis'),
-  counterAxisSizing: z.enum(['FIXED', 'AUTO']).optional().describe('How the container sizes perpendicular to layout'),
-  primaryAxisAlign: z.enum(['MIN', 'CENTER', 'MAX', 'SPACE_BETWEEN']).optional().describe('Alignment along layout axis'),
-  counterAxisAlign: z.enum(['MIN', 'CENTER', 'MAX', 'BASELINE']).optional().describe('Alignment perpendicular to layout'),
+  gap: z.number().min(0).optional().describe('Gap between items in pixels'),
+  paddingLeft: z.number().min(0).optional().describe('Left padding'),
+  paddingRight: z.number().min(0).optional().describe('Right padding'),
+  paddingTop: z.number().min(0).optional().describe('Top padding'),
+  paddingBottom: z.number().min(0).optional().describe('Bottom padding'),
+  primaryAxisSizing: z.enum(['FIXED', 'AUTO']).optional().describe('FIXED: maintain size, AUTO: hug contents'),
+  counterAxisSizing: z.enum(['FIXED', 'AUTO']).optional().describe('FIXED: maintain size, AUTO: hug contents'),
+  primaryAxisAlign: z.enum(['MIN', 'CENTER', 'MAX', 'SPACE_BETWEEN']).optional().describe('Alignment along main axis'),
+  counterAxisAlign: z.enum(['MIN', 'CENTER', 'MAX', 'BASELINE']).optional().describe('Alignment along cross axis'),
+  boundVariables: variableBindingsSchema.optional().describe('Bind properties to variables: field name mapped to a variable ID or name. Fields: fills/strokes (solid color), cornerRadius (all corners) or individual corners, width, height, min/max sizes, itemSpacing, counterAxisSpacing, padding*, strokeWeight, opacity, visible; text nodes also characters, fontFamily, fontSize, fontStyle, fontWeight, letterSpacing, lineHeight, paragraphSpacing, paragraphIndent'),
 });
 
 export type ApplyAutoLayoutParams = z.infer<typeof applyAutoLayoutSchema>;
@@ -25,7 +28,7 @@ export async function applyAutoLayout(params: ApplyAutoLayoutParams) {
     nodeId, direction, gap, 
     paddingLeft, paddingRight, paddingTop, paddingBottom,
     primaryAxisSizing, counterAxisSizing,
-    primaryAxisAlign, counterAxisAlign
+    primaryAxisAlign, counterAxisAlign, boundVariables
   } = params;
   
   logger.debug('Applying auto-layout', { nodeId, direction, gap });
@@ -43,6 +46,7 @@ export async function applyAutoLayout(params: ApplyAutoLayoutParams) {
     counterAxisSizing,
     primaryAxisAlign,
     counterAxisAlign,
+    boundVariables,
   });
   
   return {
@@ -52,44 +56,12 @@ export async function applyAutoLayout(params: ApplyAutoLayoutParams) {
   };
 }
 
-export const applyAutoLayoutToolDefinition = {
+export const applyAutoLayoutToolDefinition = defineTool({
   name: 'apply_auto_layout',
   description: 'Apply auto-layout to a frame. Auto-layout automatically arranges children horizontally or vertically with consistent spacing.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      nodeId: { type: 'string', description: 'The frame node ID' },
-      direction: { 
-        type: 'string', 
-        enum: ['HORIZONTAL', 'VERTICAL'],
-        description: 'Layout direction' 
-      },
-      gap: { type: 'number', description: 'Gap between items in pixels' },
-      paddingLeft: { type: 'number', description: 'Left padding' },
-      paddingRight: { type: 'number', description: 'Right padding' },
-      paddingTop: { type: 'number', description: 'Top padding' },
-      paddingBottom: { type: 'number', description: 'Bottom padding' },
-      primaryAxisSizing: { 
-        type: 'string', 
-        enum: ['FIXED', 'AUTO'],
-        description: 'FIXED: maintain size, AUTO: hug contents' 
-      },
-      counterAxisSizing: { 
-        type: 'string', 
-        enum: ['FIXED', 'AUTO'],
-        description: 'FIXED: maintain size, AUTO: hug contents' 
-      },
-      primaryAxisAlign: { 
-        type: 'string', 
-        enum: ['MIN', 'CENTER', 'MAX', 'SPACE_BETWEEN'],
-        description: 'Alignment along main axis' 
-      },
-      counterAxisAlign: { 
-        type: 'string', 
-        enum: ['MIN', 'CENTER', 'MAX', 'BASELINE'],
-        description: 'Alignment along cross axis' 
-      },
-    },
-    required: ['nodeId', 'direction'],
-  },
-};
+  inputSchema: applyAutoLayoutSchema,
+  outputSchema: nodeResultSchema,
+  annotations: { title: 'Apply auto-layout', destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: applyAutoLayout,
+});
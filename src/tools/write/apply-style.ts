@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger, ValidationError } from '../../lib/index.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:apply-style');
+
+export const applyStyleSchema = z.object({
+  nodeId: z.string().describe('Node to apply the style to'),
+  styleId: z.string().optional().describe('Local style ID'),
+  styleKey: z.string().optional().describe('Published style key, e.g. from get_styles'),
+  target: z.enum(['fill', 'stroke', 'text', 'effect', 'grid']).optional().describe('Which style slot to set (default: fill for paint styles, otherwise the style type)'),
+});
+
+export type ApplyStyleParams = z.infer<typeof applyStyleSchema>;
+
+export async function applyStyle(params: ApplyStyleParams) {
+  const { nodeId, styleId, styleKey, target } = params;
+  
+  if (!styleId && !styleKey) {
+    throw new ValidationError('Either styleId or styleKey is required');
+  }
+  
+  logger.debug('Applying style', { nodeId, styleId, styleKey, target });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.applyStyle({ nodeId, styleId, styleKey, target });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    styleId: result.styleId,
+    message: `Applied style ${result.styleId} to node ${nodeId}`,
+  };
+}
+
+export const applyStyleToolDefinition = defineTool({
+  name: 'apply_style',
+  description: 'Apply a paint, text, effect or grid style to a node by local style ID or published style key. Paint styles apply to fills unless target is "stroke".',
+  inputSchema: applyStyleSchema,
+  outputSchema: nodeResultSchema.extend({
+    styleId: z.string(),
+  }),
+  annotations: { title: 'Apply style', destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: applyStyle,
+});
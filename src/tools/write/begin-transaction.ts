@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, messageResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:begin-transaction');
+
+export const beginTransactionSchema = z.object({
+  label: z.string().optional().describe('Short description of the action, e.g. "Build pricing section"'),
+});
+
+export type BeginTransactionParams = z.infer<typeof beginTransactionSchema>;
+
+export async function beginTransaction(params: BeginTransactionParams) {
+  const { label } = params;
+  
+  logger.debug('Beginning transaction', { label });
+  
+  const bridge = getPluginBridge();
+  const { transactionId, nested } = await bridge.beginTransaction(label);
+  
+  return {
+    success: true,
+    transactionId,
+    nested,
+    message: nested
+      ? `Joined open transaction ${transactionId}`
+      : `Began transaction ${transactionId}; call commit_transaction when done`,
+  };
+}
+
+export const beginTransactionToolDefinition = defineTool({
+  name: 'begin_transaction',
+  description: 'Start a transaction in the Figma plugin. Nodes created or modified by later write operations are journaled until commit_transaction, form a single undo step, and can be reverted with rollback_transaction. Transactions belong to the MCP session that began them; beginning while this session has one open joins it.',
+  inputSchema: beginTransactionSchema,
+  outputSchema: messageResultSchema.extend({
+    transactionId: z.string(),
+    nested: z.boolean().describe('True when this joined an already open transaction'),
+  }),
+  annotations: { title: 'Begin transaction', destructiveHint: false, openWorldHint: false },
+  pluginTarget: true,
+  handler: beginTransaction,
+});
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:bind-variables');
+
+const VARIABLE_BINDING_FIELDS = [
+  'fills', 'strokes',
+  'cornerRadius', 'topLeftRadius', 'topRightRadius', 'bottomLeftRadius', 'bottomRightRadius',
+  'width', 'height', 'minWidth', 'maxWidth', 'minHeight', 'maxHeight',
+  'itemSpacing', 'counterAxisSpacing', 'paddingLeft', 'paddingRight', 'paddingTop', 'paddingBottom',
+  'strokeWeight', 'opacity', 'visible', 'characters',
+  'fontFamily', 'fontSize', 'fontStyle', 'fontWeight',
+  'letterSpacing', 'lineHeight', 'paragraphSpacing', 'paragraphIndent',
+] as const;
+
+// Shared by the boundVariables option of the create/layout tools
+export const variableBindingsSchema = z.record(
+  z.enum(VARIABLE_BINDING_FIELDS),
+  z.string().nullable()
+);
+
+export const bindVariablesSchema = z.object({
+  nodeId: z.string().describe('Node ID to bind'),
+  bindings: variableBindingsSchema.describe('Field mapped to a variable ID or name (null unbinds), e.g. { "fills": "color/primary", "paddingLeft": "VariableID:1:4" }'),
+  paintIndex: z.number().int().min(0).optional().describe('Which fill/stroke paint to bind (default: 0)'),
+});
+
+export type BindVariablesParams = z.infer<typeof bindVariablesSchema>;
+
+export async function bindVariables(params: BindVariablesParams) {
+  const { nodeId, bindings, paintIndex } = params;
+  
+  logger.debug('Binding variables', { nodeId, fields: Object.keys(bindings) });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.setBoundVariables({ nodeId, bindings, paintIndex });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    fields: result.fields,
+    message: `Updated ${result.fields.length} variable binding(s) on node ${nodeId}`,
+  };
+}
+
+export const bindVariablesToolDefinition = defineTool({
+  name: 'bind_variables',
+  description: 'Bind node properties (fill/stroke color, corner radius, padding, item spacing, size, opacity, text properties) to variables so they follow the design tokens. Pass null for a field to remove its binding. Requires the Figma plugin to be connected.',
+  inputSchema: bindVariablesSchema,
+  outputSchema: nodeResultSchema.extend({
+    fields: z.array(z.string()).describe('Fields whose binding was set or removed'),
+  }),
+  annotations: { title: 'Bind variables', destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: bindVariables,
+});
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:boolean-operation');
+
+export const booleanOperationSchema = z.object({
+  operation: z.enum(['UNION', 'SUBTRACT', 'INTERSECT', 'EXCLUDE']).describe('Boolean operation'),
+  nodeIds: z.array(z.string()).min(2).describe('At least two shape node IDs. SUBTRACT removes the upper shapes from the bottom-most one'),
+  name: z.string().optional().describe('Name for the resulting node'),
+  parentId: z.string().optional().describe('Parent for the result (default: parent of the first node)'),
+});
+
+export type BooleanOperationParams = z.infer<typeof booleanOperationSchema>;
+
+export async function booleanOperation(params: BooleanOperationParams) {
+  const { operation, nodeIds, name, parentId } = params;
+  
+  logger.debug('Applying boolean operation', { operation, count: nodeIds.length });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.booleanOperation({ operation, nodeIds, name, parentId });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    message: `Combined ${nodeIds.length} nodes with ${operation}`,
+  };
+}
+
+export const booleanOperationToolDefinition = defineTool({
+  name: 'boolean_operation',
+  description: 'Combine shapes with a boolean operation (UNION, SUBTRACT, INTERSECT, EXCLUDE). The result is a live boolean group containing the original shapes.',
+  inputSchema: booleanOperationSchema,
+  outputSchema: nodeResultSchema,
+  annotations: { title: 'Boolean operation', destructiveHint: false, openWorldHint: false },
+  pluginTarget: true,
+  handler: booleanOperation,
+});
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:clone-node');
+
+export const cloneNodeSchema = z.object({
+  nodeId: z.string().describe('The node ID'),
+  x: z.number().optional().describe('X position of the copy (default: same as original)'),
+  y: z.number().optional().describe('Y position of the copy (default: same as original)'),
+});
+
+export type CloneNodeParams = z.infer<typeof cloneNodeSchema>;
+
+export async function cloneNode(params: CloneNodeParams) {
+  const { nodeId, x, y } = params;
+  
+  logger.debug('Cloning node', { nodeId, x, y });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.cloneNode({ nodeId, x, y });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    message: `Cloned node ${nodeId} as ${result.nodeId}`,
+  };
+}
+
+export const cloneNodeToolDefinition = defineTool({
+  name: 'clone_node',
+  description: 'Duplicate a node, including its children, into the same parent.',
+  inputSchema: cloneNodeSchema,
+  outputSchema: nodeResultSchema,
+  annotations: { title: 'Clone node', destructiveHint: false, openWorldHint: false },
+  pluginTarget: true,
+  handler: cloneNode,
+});
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:combine-as-variants');
+
+export const combineAsVariantsSchema = z.object({
+  componentIds: z.array(z.string()).min(1).describe('Component node IDs to combine'),
+  name: z.string().optional().describe('Name for the component set'),
+  parentId: z.string().optional().describe('Parent node ID (default: parent of the first component)'),
+});
+
+export type CombineAsVariantsParams = z.infer<typeof combineAsVariantsSchema>;
+
+export async function combineAsVariants(params: CombineAsVariantsParams) {
+  const { componentIds, name, parentId } = params;
+  
+  logger.debug('Combining components as variants', { count: componentIds.length, name });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.combineAsVariants({ componentIds, name, parentId });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    key: result.key,
+    variantGroups: result.variantGroups,
+    message: `Combined ${componentIds.length} component(s) into a component set`,
+  };
+}
+
+// Shared with the variant property tools
+export const variantGroupsSchema = z.record(z.array(z.string())).describe('Variant property name -> values in use');
+
+export const combineAsVariantsToolDefinition = defineTool({
+  name: 'combine_as_variants',
+  description: 'Combine components into a variant component set (COMPONENT_SET). Variant values are read from component names like "Size=Large, State=Hover" (see variantProperties on create_component). Returns the set ID and its variant groups.',
+  inputSchema: combineAsVariantsSchema,
+  outputSchema: nodeResultSchema.extend({
+    key: z.string(),
+    variantGroups: variantGroupsSchema,
+  }),
+  annotations: { title: 'Combine as variants', destructiveHint: false, openWorldHint: false },
+  pluginTarget: true,
+  handler: combineAsVariants,
+});
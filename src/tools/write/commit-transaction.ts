@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, messageResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:commit-transaction');
+
+export const commitTransactionSchema = z.object({
+  transactionId: z.string().optional().describe('Transaction ID from begin_transaction (default: the open transaction of this MCP session)'),
+});
+
+export type CommitTransactionParams = z.infer<typeof commitTransactionSchema>;
+
+export async function commitTransaction(params: CommitTransactionParams) {
+  const { transactionId } = params;
+  
+  logger.debug('Committing transaction', { transactionId });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.commitTransaction(transactionId);
+  
+  return {
+    success: true,
+    ...result,
+    message: result.committed
+      ? `Committed transaction ${result.transactionId} (${result.created} created, ${result.modified} modified node(s))`
+      : `Closed nested level of transaction ${result.transactionId}; it stays open until the outer commit`,
+  };
+}
+
+export const commitTransactionToolDefinition = defineTool({
+  name: 'commit_transaction',
+  description: 'Commit the open transaction of this MCP session, closing its undo step. Committed transactions can still be reverted with rollback_transaction while the plugin stays open.',
+  inputSchema: commitTransactionSchema,
+  outputSchema: messageResultSchema.extend({
+    transactionId: z.string(),
+    committed: z.boolean().describe('False when only a nested level was closed'),
+    created: z.number(),
+    modified: z.number(),
+  }),
+  annotations: { title: 'Commit transaction', destructiveHint: false, openWorldHint: false },
+  pluginTarget: true,
+  handler: commitTransaction,
+});
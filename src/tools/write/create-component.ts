@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { paintSchema } from './set-fills.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:create-component');
+
+export const createComponentSchema = z.object({
+  name: z.string().describe('Name for the component'),
+  nodeId: z.string().optional().describe('Existing node ID to convert into a component'),
+  width: z.number().positive().optional().describe('Component width in pixels (default: 100 when created from scratch)'),
+  height: z.number().positive().optional().describe('Component height in pixels (default: 100 when created from scratch)'),
+  x: z.number().optional().describe('X position'),
+  y: z.number().optional().describe('Y position'),
+  parentId: z.string().optional().describe('Parent node ID (ignored when converting an existing node)'),
+  fills: z.array(paintSchema).optional().describe('Fills: solid colors {r,g,b,a} (0-1), gradients with gradientStops, or images from imageUrl'),
+  description: z.string().optional().describe('Component description shown in the assets panel'),
+  variantProperties: z.record(z.string()).optional().describe('Variant property values such as { "Size": "Large", "State": "Hover" }. Names the component "Size=Large, State=Hover" so it can be combined with combine_as_variants'),
+});
+
+export type CreateComponentParams = z.infer<typeof createComponentSchema>;
+
+export async function createComponent(params: CreateComponentParams) {
+  const { name, nodeId, width, height, x, y, parentId, fills, description, variantProperties } = params;
+  
+  logger.debug('Creating component', { name, nodeId });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.createComponent({
+    name,
+    nodeId,
+    width,
+    height,
+    x,
+    y,
+    parentId,
+    fills,
+    description,
+    variantProperties,
+  });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    key: result.key,
+    message: nodeId
+      ? `Converted node ${nodeId} into component "${name}"`
+      : `Created component "${name}"`,
+  };
+}
+
+export const createComponentToolDefinition = defineTool({
+  name: 'create_component',
+  description: 'Create a reusable component in Figma, either from scratch or by converting an existing node (frame, group, shape) via nodeId. Children can be added with parentId set to the returned nodeId. Requires the Figma plugin to be connected.',
+  inputSchema: createComponentSchema,
+  outputSchema: nodeResultSchema.extend({
+    key: z.string().describe('Component key, for create_instance from other files once published'),
+  }),
+  annotations: { title: 'Create component', destructiveHint: false, openWorldHint: true },
+  pluginTarget: true,
+  handler: createComponent,
+});
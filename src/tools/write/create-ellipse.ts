@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { paintSchema } from './set-fills.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:create-ellipse');
+
+export const createEllipseSchema = z.object({
+  width: z.number().positive().describe('Ellipse width in pixels'),
+  height: z.number().positive().describe('Ellipse height in pixels'),
+  name: z.string().optional().describe('Name for the ellipse'),
+  x: z.number().optional().describe('X position'),
+  y: z.number().optional().describe('Y position'),
+  parentId: z.string().optional().describe('Parent node ID'),
+  fills: z.array(paintSchema).optional().describe('Fills: solid colors {r,g,b,a} (0-1), gradients with gradientStops, or images from imageUrl'),
+});
+
+export type CreateEllipseParams = z.infer<typeof createEllipseSchema>;
+
+export async function createEllipse(params: CreateEllipseParams) {
+  const { width, height, name, x, y, parentId, fills } = params;
+  
+  logger.debug('Creating ellipse', { width, height, name });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.createEllipse({
+    width,
+    height,
+    name,
+    x,
+    y,
+    parentId,
+    fills,
+  });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    message: `Created ellipse ${name ? `"${name}"` : ''} (${width}x${height})`,
+  };
+}
+
+export const createEllipseToolDefinition = defineTool({
+  name: 'create_ellipse',
+  description: 'Create an ellipse or circle in Figma. Use equal width and height for a circle.',
+  inputSchema: createEllipseSchema,
+  outputSchema: nodeResultSchema,
+  annotations: { title: 'Create ellipse', destructiveHint: false, openWorldHint: true },
+  pluginTarget: true,
+  handler: createEllipse,
+});
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger, ValidationError } from '../../lib/index.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:create-instance');
+
+export const createInstanceSchema = z.object({
+  componentId: z.string().optional().describe('Node ID of a local component'),
+  componentKey: z.string().optional().describe('Key of a published library component (from get_components)'),
+  name: z.string().optional().describe('Name for the instance'),
+  x: z.number().optional().describe('X position'),
+  y: z.number().optional().describe('Y position'),
+  parentId: z.string().optional().describe('Parent node ID'),
+});
+
+export type CreateInstanceParams = z.infer<typeof createInstanceSchema>;
+
+export async function createInstance(params: CreateInstanceParams) {
+  const { componentId, componentKey, name, x, y, parentId } = params;
+  
+  if (!componentId && !componentKey) {
+    throw new ValidationError('Either componentId or componentKey is required');
+  }
+  
+  logger.debug('Creating instance', { componentId, componentKey });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.createInstance({
+    componentId,
+    componentKey,
+    name,
+    x,
+    y,
+    parentId,
+  });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    componentId: result.componentId,
+    message: `Created instance of component ${componentId ?? componentKey}`,
+  };
+}
+
+export const createInstanceToolDefinition = defineTool({
+  name: 'create_instance',
+  description: 'Create an instance of a component. Use componentId for a component in the open file, or componentKey (from get_components) to import a published library component. Requires the Figma plugin to be connected.',
+  inputSchema: createInstanceSchema,
+  outputSchema: nodeResultSchema.extend({
+    componentId: z.string().describe('Main component node ID'),
+  }),
+  annotations: { title: 'Create instance', destructiveHint: false, openWorldHint: false },
+  pluginTarget: true,
+  handler: createInstance,
+});
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { paintSchema } from './set-fills.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:create-line');
+
+export const createLineSchema = z.object({
+  x1: z.number().describe('Start X'),
+  y1: z.number().describe('Start Y'),
+  x2: z.number().describe('End X'),
+  y2: z.number().describe('End Y'),
+  name: z.string().optional().describe('Name for the line'),
+  parentId: z.string().optional().describe('Parent node ID'),
+  strokes: z.array(paintSchema).optional().describe('Stroke paints (default: black)'),
+  strokeWeight: z.number().min(0).optional().describe('Stroke weight in pixels'),
+});
+
+export type CreateLineParams = z.infer<typeof createLineSchema>;
+
+export async function createLine(params: CreateLineParams) {
+  const { x1, y1, x2, y2, name, parentId, strokes, strokeWeight } = params;
+  
+  logger.debug('Creating line', { x1, y1, x2, y2 });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.createLine({
+    x1,
+    y1,
+    x2,
+    y2,
+    name,
+    parentId,
+    strokes,
+    strokeWeight,
+  });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    message: `Created line from (${x1}, ${y1}) to (${x2}, ${y2})`,
+  };
+}
+
+export const createLineToolDefinition = defineTool({
+  name: 'create_line',
+  description: 'Create a straight line between two points, e.g. dividers and separators.',
+  inputSchema: createLineSchema,
+  outputSchema: nodeResultSchema,
+  annotations: { title: 'Create line', destructiveHint: false, openWorldHint: false },
+  pluginTarget: true,
+  handler: createLine,
+});
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, messageResultSchema } from '../registry.js';
+import { pageSchema } from './get-current-page.js';
+
+const logger = createLogger('tool:create-page');
+
+export const createPageSchema = z.object({
+  name: z.string().describe('Page name'),
+});
+
+export type CreatePageParams = z.infer<typeof createPageSchema>;
+
+export async function createPage(params: CreatePageParams) {
+  const { name } = params;
+  
+  logger.debug('Creating page', { name });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.createPage(name);
+  
+  return {
+    success: true,
+    page: result.page,
+    message: `Created page "${name}"`,
+  };
+}
+
+export const createPageToolDefinition = defineTool({
+  name: 'create_page',
+  description: 'Add a new page to the Figma file. Use its ID as parentId to create nodes on it.',
+  inputSchema: createPageSchema,
+  outputSchema: messageResultSchema.extend({
+    page: pageSchema,
+  }),
+  annotations: { title: 'Create page', destructiveHint: false, openWorldHint: false },
+  pluginTarget: true,
+  handler: createPage,
+});
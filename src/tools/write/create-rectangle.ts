@@ -1,19 +1,12 @@
 import { z } from 'zod';
 import { getPluginBridge } from '../../services/plugin-bridge/index.js';
 import { createLogger } from '../../lib/index.js';
+import { paintSchema } from './set-fills.js';
+import { variableBindingsSchema } from './bind-variables.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
 
 const logger = createLogger('tool:create-rectangle');
 
-const paintSchema = z.object({
-  type: z.enum(['SOLID', 'GRADIENT_LINEAR', 'GRADIENT_RADIAL', 'IMAGE']).default('SOLID'),
-  color: z.object({
-    r: z.number().min(0).max(1),
-    g: z.number().min(0).max(1),
-    b: z.number().min(0).max(1),
-    a: z.number().min(0).max(1).optional(),
-  }).optional(),
-});
-
 export const createRectangleSchema = z.object({
   width: z.number().positive().describe('Rectangle width in pixels'),
   height: z.number().positive().describe('Rectangle height in pixels'),
@@ -21,14 +14,15 @@ export const createRectangleSchema = z.object({
   x: z.number().optional().describe('X position'),
   y: z.number().optional().describe('Y position'),
   parentId: z.string().optional().describe('Parent node ID'),
-  fills: z.array(paintSchema).optional().describe('Fill colors'),
+  fills: z.array(paintSchema).optional().describe('Fills: solid colors {r,g,b,a} (0-1), gradients with gradientStops, or images from imageUrl'),
   cornerRadius: z.number().min(0).optional().describe('Corner radius for rounded rectangles'),
+  boundVariables: variableBindingsSchema.optional().describe('Bind properties to variables: field name mapped to a variable ID or name. Fields: fills/strokes (solid color), cornerRadius (all corners) or individual corners, width, height, min/max sizes, itemSpacing, counterAxisSpacing, padding*, strokeWeight, opacity, visible; text nodes also characters, fontFamily, fontSize, fontStyle, fontWeight, letterSpacing, lineHeight, paragraphSpacing, paragraphIndent'),
 });
 
 export type CreateRectangleParams = z.infer<typeof createRectangleSchema>;
 
 export async function createRectangle(params: CreateRectangleParams) {
-  const { width, height, name, x, y, parentId, fills, cornerRadius } = params;
+  const { width, height, name, x, y, parentId, fills, cornerRadius, boundVariables } = params;
   
   logger.debug('Creating rectangle', { width, height, name });
   
@@ -42,6 +36,7 @@ export async function createRectangle(params: CreateRectangleParams) {
     parentId,
     fills,
     cornerRadius,
+    boundVariables,
   });
   
   return {
@@ -51,31 +46,12 @@ export async function createRectangle(params: CreateRectangleParams) {
   };
 }
 
-export const createRectangleToolDefinition = {
+export const createRectangleToolDefinition = defineTool({
   name: 'create_rectangle',
   description: 'Create a rectangle shape in Figma. Can have fills and rounded corners.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      width: { type: 'number', description: 'Rectangle width in pixels' },
-      height: { type: 'number', description: 'Rectangle height in pixels' },
-      name: { type: 'string', description: 'Name for the rectangle' },
-      x: { type: 'number', description: 'X position' },
-      y: { type: 'number', description: 'Y position' },
-      parentId: { type: 'string', description: 'Parent node ID' },
-      cornerRadius: { type: 'number', description: 'Corner radius for rounded rectangles' },
-      fills: {
-        type: 'array',
-        description: 'Fill colors',
-        items: {
-          type: 'object',
-          properties: {
-            type: { type: 'string' },
-            color: { type: 'object' },
-          },
-        },
-      },
-    },
-    required: ['width', 'height'],
-  },
-};
+  inputSchema: createRectangleSchema,
+  outputSchema: nodeResultSchema,
+  annotations: { title: 'Create rectangle', destructiveHint: false, openWorldHint: true },
+  pluginTarget: true,
+  handler: createRectangle,
+});
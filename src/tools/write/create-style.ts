@@ -0,0 +1,104 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { paintSchema } from './set-fills.js';
+import { effectSchema } from './set-effects.js';
+import { defineTool, messageResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:create-style');
+
+const colorSchema = z.object({
+  r: z.number().min(0).max(1),
+  g: z.number().min(0).max(1),
+  b: z.number().min(0).max(1),
+  a: z.number().min(0).max(1).optional(),
+});
+
+const unitValueSchema = z.object({
+  value: z.number(),
+  unit: z.enum(['PIXELS', 'PERCENT']),
+});
+
+const textStyleSchema = z.object({
+  fontFamily: z.string().optional(),
+  fontWeight: z.number().optional().describe('Font weight (100-900), mapped to Regular/Medium/Bold'),
+  fontStyle: z.string().optional().describe('Exact font style, e.g. "Semi Bold" (overrides fontWeight)'),
+  fontSize: z.number().positive().optional(),
+  lineHeight: z.union([z.number(), unitValueSchema, z.object({ unit: z.literal('AUTO') })]).optional(),
+  letterSpacing: z.union([z.number(), unitValueSchema]).optional(),
+  paragraphSpacing: z.number().min(0).optional(),
+  textCase: z.enum(['ORIGINAL', 'UPPER', 'LOWER', 'TITLE']).optional(),
+  textDecoration: z.enum(['NONE', 'UNDERLINE', 'STRIKETHROUGH']).optional(),
+});
+
+const layoutGridSchema = z.object({
+  pattern: z.enum(['COLUMNS', 'ROWS', 'GRID']),
+  sectionSize: z.number().positive().optional(),
+  count: z.number().int().positive().optional(),
+  gutterSize: z.number().min(0).optional(),
+  offset: z.number().min(0).optional(),
+  alignment: z.enum(['MIN', 'MAX', 'CENTER', 'STRETCH']).optional(),
+  color: colorSchema.optional(),
+  visible: z.boolean().optional(),
+});
+
+// Shared with update_style
+export const stylePropertiesSchema = z.object({
+  description: z.string().optional().describe('Style description'),
+  paints: z.array(paintSchema).optional().describe('PAINT styles: solid, gradient or image paints'),
+  text: textStyleSchema.optional().describe('TEXT styles: font and typography settings. lineHeight/letterSpacing numbers are pixels, or pass {value, unit}'),
+  effects: z.array(effectSchema).optional().describe('EFFECT styles: shadows and blurs'),
+  layoutGrids: z.array(layoutGridSchema).optional().describe('GRID styles: column, row or square grids'),
+});
+
+export const createStyleSchema = stylePropertiesSchema.extend({
+  styleType: z.enum(['PAINT', 'TEXT', 'EFFECT', 'GRID']).describe('Kind of style to create'),
+  name: z.string().describe('Style name; use "/" to group, e.g. "Brand/Primary"'),
+});
+
+export type CreateStyleParams = z.infer<typeof createStyleSchema>;
+
+export async function createStyle(params: CreateStyleParams) {
+  const { styleType, name, description, paints, text, effects, layoutGrids } = params;
+  
+  logger.debug('Creating style', { styleType, name });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.createStyle({
+    styleType,
+    name,
+    description,
+    paints,
+    text,
+    effects,
+    layoutGrids,
+  });
+  
+  return {
+    success: true,
+    style: result.style,
+    message: `Created ${styleType} style "${name}"`,
+  };
+}
+
+// Shared with update_style and get_local_styles
+export const liveStyleSchema = z.object({
+  id: z.string(),
+  key: z.string(),
+  name: z.string(),
+  type: z.enum(['PAINT', 'TEXT', 'EFFECT', 'GRID']),
+  description: z.string(),
+  remote: z.boolean(),
+});
+
+export const createStyleToolDefinition = defineTool({
+  name: 'create_style',
+  description: 'Create a local paint, text, effect or grid style in the open Figma file. Provide the properties matching styleType (paints, text, effects or layoutGrids). Requires the Figma plugin to be connected.',
+  inputSchema: createStyleSchema,
+  outputSchema: messageResultSchema.extend({
+    style: liveStyleSchema,
+  }),
+  annotations: { title: 'Create style', destructiveHint: false, openWorldHint: false },
+  pluginTarget: true,
+  handler: createStyle,
+});
@@ -0,0 +1,165 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger, ValidationError } from '../../lib/index.js';
+import type { BatchItem, TreeNodeSpec } from '../../types/commands.js';
+import { paintSchema } from './set-fills.js';
+import { effectSchema } from './set-effects.js';
+import { createFrameSchema } from './create-frame.js';
+import { createRectangleSchema } from './create-rectangle.js';
+import { createEllipseSchema } from './create-ellipse.js';
+import { createTextSchema } from './create-text.js';
+import { createLineSchema } from './create-line.js';
+import { createInstanceSchema } from './create-instance.js';
+import { createVectorFromSvgSchema } from './create-vector-from-svg.js';
+import { applyAutoLayoutSchema } from './apply-auto-layout.js';
+import { setConstraintsSchema } from './set-constraints.js';
+import { defineTool } from '../registry.js';
+
+const logger = createLogger('tool:create-tree');
+
+const treeNodeExtras = {
+  key: z.string().optional().describe('Path segment in the returned ID map (default: name, then type)'),
+  cornerRadius: z.number().min(0).optional(),
+  strokes: z.array(paintSchema).optional(),
+  strokeWeight: z.number().min(0).optional(),
+  effects: z.array(effectSchema).optional(),
+  autoLayout: applyAutoLayoutSchema.omit({ nodeId: true }).optional().describe('FRAME: auto-layout settings, as in apply_auto_layout without nodeId'),
+  constraints: setConstraintsSchema.omit({ nodeId: true }).optional(),
+  children: z.array(z.lazy(() => treeNodeSchema)).optional().describe('FRAME: child node specs of the same shape'),
+};
+
+export const treeNodeSchema: z.ZodType<TreeNodeSpec, z.ZodTypeDef, unknown> = z.lazy(() => z.discriminatedUnion('type', [
+  createFrameSchema.omit({ parentId: true }).extend({ type: z.literal('FRAME'), ...treeNodeExtras }),
+  createRectangleSchema.omit({ parentId: true }).extend({ type: z.literal('RECTANGLE'), ...treeNodeExtras }),
+  createEllipseSchema.omit({ parentId: true }).extend({ type: z.literal('ELLIPSE'), ...treeNodeExtras }),
+  createTextSchema.omit({ parentId: true }).extend({ type: z.literal('TEXT'), ...treeNodeExtras }),
+  createLineSchema.omit({ parentId: true }).extend({ type: z.literal('LINE'), ...treeNodeExtras }),
+  createInstanceSchema.omit({ parentId: true }).extend({ type: z.literal('INSTANCE'), ...treeNodeExtras }),
+  createVectorFromSvgSchema.omit({ parentId: true, svgPath: true }).extend({
+    type: z.literal('SVG'),
+    svg: z.string().describe('SVG markup'),
+    ...treeNodeExtras,
+  }),
+]));
+
+export const createTreeSchema = z.object({
+  root: treeNodeSchema.describe('Root node spec; FRAME nodes may nest children'),
+  parentId: z.string().optional().describe('Parent node ID for the root (default: current page)'),
+});
+
+export type CreateTreeParams = z.infer<typeof createTreeSchema>;
+
+const CREATE_COMMANDS = {
+  FRAME: 'CREATE_FRAME',
+  RECTANGLE: 'CREATE_RECTANGLE',
+  ELLIPSE: 'CREATE_ELLIPSE',
+  TEXT: 'CREATE_TEXT',
+  LINE: 'CREATE_LINE',
+  INSTANCE: 'CREATE_INSTANCE',
+  SVG: 'CREATE_NODE_FROM_SVG',
+} as const;
+
+export async function createTree(params: CreateTreeParams) {
+  const { root, parentId } = params;
+  
+  const items: BatchItem[] = [];
+  const rootPath = segmentFor(root, new Map());
+  collectNode(items, root, rootPath, parentId);
+  
+  logger.debug('Creating node tree', { root: rootPath, commands: items.length });
+  
+  const bridge = getPluginBridge();
+  const { transactionId, results, ids } = await bridge.withTransaction(
+    `create_tree: ${rootPath}`,
+    async (transactionId) => ({ transactionId, ...await bridge.batch(items) })
+  );
+  
+  if (!ids[rootPath]) {
+    throw new Error(`Failed to create root node: ${results[0]?.error ?? 'unknown error'}`);
+  }
+  
+  const errors = results
+    .map((result, index) => ({ ...result, type: items[index].type }))
+    .filter(result => !result.success)
+    .map(({ tempId, type, error }) => ({ path: tempId, command: type, error }));
+  
+  return {
+    success: errors.length === 0,
+    rootId: ids[rootPath],
+    transactionId,
+    ids,
+    errors,
+    message: `Created ${Object.keys(ids).length} node(s) under "${rootPath}"${errors.length ? ` with ${errors.length} error(s)` : ''}`,
+  };
+}
+
+// Uses the key, name or type as path segment, suffixing repeats among siblings
+function segmentFor(spec: TreeNodeSpec, seen: Map<string, number>): string {
+  const base = (spec.key ?? spec.name ?? spec.type.toLowerCase()).replace(/\//g, '-');
+  const count = seen.get(base) ?? 0;
+  seen.set(base, count + 1);
+  return count ? `${base}[${count}]` : base;
+}
+
+// The spec path doubles as the node's batch temp ID
+function collectNode(items: BatchItem[], spec: TreeNodeSpec, path: string, parentId?: string): void {
+  const { type, key: _key, cornerRadius, strokes, strokeWeight, effects, autoLayout, constraints, children, ...fields } = spec;
+  
+  if (type !== 'FRAME' && (children?.length || autoLayout)) {
+    throw new ValidationError(`Only FRAME nodes can have children or autoLayout (at "${path}")`);
+  }
+  
+  const createParams: Record<string, unknown> = { ...fields, parentId };
+  if (type === 'RECTANGLE') {
+    createParams.cornerRadius = cornerRadius;
+  }
+  if (type === 'LINE') {
+    createParams.strokes = strokes;
+    createParams.strokeWeight = strokeWeight;
+  }
+  items.push({ type: CREATE_COMMANDS[type], tempId: path, params: createParams } as BatchItem);
+  
+  if (cornerRadius !== undefined && type !== 'RECTANGLE') {
+    items.push({ type: 'UPDATE_NODE', params: { nodeId: path, properties: { cornerRadius } } });
+  }
+  if (strokes && type !== 'LINE') {
+    items.push({ type: 'SET_STROKES', params: { nodeId: path, strokes, strokeWeight } });
+  }
+  if (effects) {
+    items.push({ type: 'SET_EFFECTS', params: { nodeId: path, effects } });
+  }
+  if (constraints) {
+    items.push({ type: 'SET_CONSTRAINTS', params: { nodeId: path, ...constraints } });
+  }
+  
+  const seen = new Map<string, number>();
+  for (const child of children ?? []) {
+    collectNode(items, child, `${path}/${segmentFor(child, seen)}`, path);
+  }
+  
+  // Applied after the children so AUTO sizing hugs them
+  if (autoLayout) {
+    items.push({ type: 'APPLY_AUTO_LAYOUT', params: { nodeId: path, ...autoLayout } });
+  }
+}
+
+export const createTreeToolDefinition = defineTool({
+  name: 'create_tree',
+  description: 'Create a whole node tree (frames, text, shapes, lines, instances, SVGs with fills, effects, auto-layout and constraints) from one nested spec in a single operation. Returns node IDs keyed by spec path, e.g. "Card/Header/Title"; repeated sibling names get a [n] suffix.',
+  inputSchema: createTreeSchema,
+  outputSchema: z.object({
+    success: z.boolean().describe('False when some nodes below the root failed'),
+    rootId: z.string(),
+    transactionId: z.string(),
+    ids: z.record(z.string()).describe('Spec path -> created node ID'),
+    errors: z.array(z.object({
+      path: z.string().optional(),
+      command: z.string(),
+      error: z.string().optional(),
+    })),
+    message: z.string(),
+  }),
+  annotations: { title: 'Create node tree', destructiveHint: false, openWorldHint: false },
+  pluginTarget: true,
+  handler: createTree,
+});
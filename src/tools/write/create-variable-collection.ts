@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, messageResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:create-variable-collection');
+
+export const createVariableCollectionSchema = z.object({
+  name: z.string().describe('Collection name'),
+  modes: z.array(z.string()).optional().describe('Mode names; the first renames the default mode'),
+});
+
+export type CreateVariableCollectionParams = z.infer<typeof createVariableCollectionSchema>;
+
+export async function createVariableCollection(params: CreateVariableCollectionParams) {
+  const { name, modes } = params;
+  
+  logger.debug('Creating variable collection', { name, modes });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.createVariableCollection({ name, modes });
+  
+  return {
+    success: true,
+    collection: result.collection,
+    message: `Created variable collection "${name}" with ${result.collection.modes.length} mode(s)`,
+  };
+}
+
+// Shared with the other variable collection tools and get_local_variables
+export const liveVariableCollectionSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  key: z.string(),
+  modes: z.array(z.object({ modeId: z.string(), name: z.string() })),
+  defaultModeId: z.string(),
+  variableIds: z.array(z.string()),
+});
+
+export const createVariableCollectionToolDefinition = defineTool({
+  name: 'create_variable_collection',
+  description: 'Create a variable collection in the open Figma file. Optionally define its modes (e.g. ["Light", "Dark"]); the first name replaces the default mode. Requires the Figma plugin to be connected.',
+  inputSchema: createVariableCollectionSchema,
+  outputSchema: messageResultSchema.extend({
+    collection: liveVariableCollectionSchema,
+  }),
+  annotations: { title: 'Create variable collection', destructiveHint: false, openWorldHint: false },
+  pluginTarget: true,
+  handler: createVariableCollection,
+});
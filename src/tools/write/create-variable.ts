@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, messageResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:create-variable');
+
+const variableValueSchema = z.union([
+  z.boolean(),
+  z.number(),
+  z.string(),
+  z.object({
+    r: z.number().min(0).max(1),
+    g: z.number().min(0).max(1),
+    b: z.number().min(0).max(1),
+    a: z.number().min(0).max(1).optional(),
+  }),
+  z.object({
+    type: z.literal('VARIABLE_ALIAS'),
+    id: z.string(),
+  }),
+]);
+
+export const createVariableSchema = z.object({
+  collectionId: z.string().describe('Variable collection ID'),
+  name: z.string().describe('Variable name; use "/" to group, e.g. "color/primary"'),
+  resolvedType: z.enum(['COLOR', 'FLOAT', 'STRING', 'BOOLEAN']).describe('Variable type'),
+  valuesByMode: z.record(variableValueSchema).optional().describe('Values keyed by mode ID or mode name, e.g. { "Light": "#FFFFFF", "Dark": { "type": "VARIABLE_ALIAS", "id": "VariableID:1:2" } }'),
+  description: z.string().optional().describe('Variable description'),
+  scopes: z.array(z.string()).optional().describe('Variable scopes, e.g. ["ALL_FILLS"], ["GAP", "WIDTH_HEIGHT"]'),
+});
+
+export type CreateVariableParams = z.infer<typeof createVariableSchema>;
+
+export async function createVariable(params: CreateVariableParams) {
+  const { collectionId, name, resolvedType, valuesByMode, description, scopes } = params;
+  
+  logger.debug('Creating variable', { collectionId, name, resolvedType });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.createVariable({
+    collectionId,
+    name,
+    resolvedType,
+    valuesByMode,
+    description,
+    scopes,
+  });
+  
+  return {
+    success: true,
+    variable: result.variable,
+    message: `Created ${resolvedType} variable "${name}"`,
+  };
+}
+
+// Shared with update_variable and get_local_variables
+export const liveVariableSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  key: z.string(),
+  collectionId: z.string(),
+  resolvedType: z.enum(['COLOR', 'FLOAT', 'STRING', 'BOOLEAN']),
+  description: z.string(),
+  scopes: z.array(z.string()),
+  valuesByMode: z.record(variableValueSchema).describe('Values keyed by mode ID'),
+});
+
+export const createVariableToolDefinition = defineTool({
+  name: 'create_variable',
+  description: 'Create a COLOR, FLOAT, STRING or BOOLEAN variable in a collection. Values are keyed by mode ID or mode name. Colors accept hex strings or {r,g,b,a} (0-1); any value can be an alias {"type": "VARIABLE_ALIAS", "id": "<variableId>"}.',
+  inputSchema: createVariableSchema,
+  outputSchema: messageResultSchema.extend({
+    variable: liveVariableSchema,
+  }),
+  annotations: { title: 'Create variable', destructiveHint: false, openWorldHint: false },
+  pluginTarget: true,
+  handler: createVariable,
+});
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { getPluginBridge, loadSvgMarkup } from '../../services/plugin-bridge/index.js';
+import { createLogger, ValidationError } from '../../lib/index.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:create-vector-from-svg');
+
+export const createVectorFromSvgSchema = z.object({
+  svg: z.string().optional().describe('SVG markup, e.g. "<svg viewBox=\\"0 0 24 24\\">...</svg>"'),
+  svgPath: z.string().optional().describe('Path or URL of an SVG file (alternative to svg)'),
+  name: z.string().optional().describe('Name for the created node'),
+  x: z.number().optional().describe('X position'),
+  y: z.number().optional().describe('Y position'),
+  width: z.number().positive().optional().describe('Scale uniformly to fit this width'),
+  height: z.number().positive().optional().describe('Scale uniformly to fit this height'),
+  parentId: z.string().optional().describe('Parent node ID'),
+});
+
+export type CreateVectorFromSvgParams = z.infer<typeof createVectorFromSvgSchema>;
+
+export async function createVectorFromSvg(params: CreateVectorFromSvgParams) {
+  const { svgPath, name, x, y, width, height, parentId } = params;
+  
+  if (!params.svg && !svgPath) {
+    throw new ValidationError('Either svg or svgPath is required');
+  }
+  
+  const svg = params.svg ?? await loadSvgMarkup(svgPath!);
+  
+  logger.debug('Creating node from SVG', { name, length: svg.length, svgPath });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.createNodeFromSvg({
+    svg,
+    name,
+    x,
+    y,
+    width,
+    height,
+    parentId,
+  });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    width: result.width,
+    height: result.height,
+    message: `Created ${name ? `"${name}" ` : ''}from SVG (${Math.round(result.width)}x${Math.round(result.height)})`,
+  };
+}
+
+export const createVectorFromSvgToolDefinition = defineTool({
+  name: 'create_vector_from_svg',
+  description: 'Import SVG markup (inline or from a file/URL) as editable Figma vectors, e.g. icons and logos. The result is a frame containing the vector layers, optionally scaled to fit width/height.',
+  inputSchema: createVectorFromSvgSchema,
+  outputSchema: nodeResultSchema.extend({
+    width: z.number(),
+    height: z.number(),
+  }),
+  annotations: { title: 'Create vector from SVG', destructiveHint: false, openWorldHint: true },
+  pluginTarget: true,
+  handler: createVectorFromSvg,
+});
@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger, ValidationError } from '../../lib/index.js';
+import { paintSchema } from './set-fills.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:create-vector');
+
+const pointSchema = z.object({ x: z.number(), y: z.number() });
+
+const vectorNetworkSchema = z.object({
+  vertices: z.array(pointSchema.extend({
+    strokeCap: z.enum(['NONE', 'ROUND', 'SQUARE', 'ARROW_LINES', 'ARROW_EQUILATERAL']).optional(),
+    strokeJoin: z.enum(['MITER', 'BEVEL', 'ROUND']).optional(),
+    cornerRadius: z.number().min(0).optional(),
+  })),
+  segments: z.array(z.object({
+    start: z.number().int().min(0),
+    end: z.number().int().min(0),
+    tangentStart: pointSchema.optional(),
+    tangentEnd: pointSchema.optional(),
+  })),
+  regions: z.array(z.object({
+    windingRule: z.enum(['NONZERO', 'EVENODD']),
+    loops: z.array(z.array(z.number().int().min(0))),
+  })).optional(),
+});
+
+export const createVectorSchema = z.object({
+  name: z.string().optional().describe('Name for the vector'),
+  x: z.number().optional().describe('X position'),
+  y: z.number().optional().describe('Y position'),
+  parentId: z.string().optional().describe('Parent node ID'),
+  vectorPaths: z.array(z.object({
+    windingRule: z.enum(['NONZERO', 'EVENODD', 'NONE']).default('NONZERO'),
+    data: z.string().describe('Path data'),
+  })).optional().describe('Paths, e.g. [{ "windingRule": "NONZERO", "data": "M 0 0 L 10 0 L 10 10 Z" }]'),
+  vectorNetwork: vectorNetworkSchema.optional().describe('Vector network: vertices [{x,y}], segments [{start,end,tangentStart?,tangentEnd?}] and optional regions [{windingRule, loops: [[segmentIndex...]]}]'),
+  fills: z.array(paintSchema).optional().describe('Fills'),
+  strokes: z.array(paintSchema).optional().describe('Strokes'),
+  strokeWeight: z.number().min(0).optional().describe('Stroke weight'),
+});
+
+export type CreateVectorParams = z.infer<typeof createVectorSchema>;
+
+export async function createVector(params: CreateVectorParams) {
+  const { name, x, y, parentId, vectorPaths, vectorNetwork, fills, strokes, strokeWeight } = params;
+  
+  if (!vectorPaths && !vectorNetwork) {
+    throw new ValidationError('Either vectorPaths or vectorNetwork is required');
+  }
+  
+  logger.debug('Creating vector', { name, paths: vectorPaths?.length, vertices: vectorNetwork?.vertices.length });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.createVector({
+    name,
+    x,
+    y,
+    parentId,
+    vectorPaths,
+    vectorNetwork,
+    fills,
+    strokes,
+    strokeWeight,
+  });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    message: `Created vector ${name ? `"${name}" ` : ''}(${Math.round(result.width)}x${Math.round(result.height)})`,
+  };
+}
+
+export const createVectorToolDefinition = defineTool({
+  name: 'create_vector',
+  description: 'Create a vector node from path data or a vector network. vectorPaths take SVG path data with absolute M, L, Q, C and Z commands; vectorNetwork gives explicit vertices, segments and fill regions. Use create_vector_from_svg for full SVG documents.',
+  inputSchema: createVectorSchema,
+  outputSchema: nodeResultSchema,
+  annotations: { title: 'Create vector', destructiveHint: false, openWorldHint: false },
+  pluginTarget: true,
+  handler: createVector,
+});
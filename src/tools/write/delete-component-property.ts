@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+import { componentPropertyDefinitionsSchema } from './add-component-property.js';
+
+const logger = createLogger('tool:delete-component-property');
+
+export const deleteComponentPropertySchema = z.object({
+  nodeId: z.string().describe('Component or component set node ID'),
+  propertyName: z.string().describe('Full property name including the "#id" suffix'),
+});
+
+export type DeleteComponentPropertyParams = z.infer<typeof deleteComponentPropertySchema>;
+
+export async function deleteComponentProperty(params: DeleteComponentPropertyParams) {
+  const { nodeId, propertyName } = params;
+  
+  logger.debug('Deleting component property', { nodeId, propertyName });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.deleteComponentProperty({ nodeId, propertyName });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    definitions: result.definitions,
+    message: `Deleted component property "${propertyName}"`,
+  };
+}
+
+export const deleteComponentPropertyToolDefinition = defineTool({
+  name: 'delete_component_property',
+  description: 'Delete a BOOLEAN, TEXT or INSTANCE_SWAP property from a component or component set.',
+  inputSchema: deleteComponentPropertySchema,
+  outputSchema: nodeResultSchema.extend({
+    definitions: componentPropertyDefinitionsSchema,
+  }),
+  annotations: { title: 'Delete component property', destructiveHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: deleteComponentProperty,
+});
@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { getPluginBridge } from '../../services/plugin-bridge/index.js';
 import { createLogger } from '../../lib/index.js';
+import { defineTool, messageResultSchema } from '../registry.js';
 
 const logger = createLogger('tool:delete-node');
 
@@ -24,14 +25,12 @@ export async function deleteNode(params: DeleteNodeParams) {
   };
 }
 
-export const deleteNodeToolDefinition = {
+export const deleteNodeToolDefinition = defineTool({
   name: 'delete_node',
   description: 'Delete a node from the Figma document.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      nodeId: { type: 'string', description: 'The node ID to delete' },
-    },
-    required: ['nodeId'],
-  },
-};
+  inputSchema: deleteNodeSchema,
+  outputSchema: messageResultSchema,
+  annotations: { title: 'Delete node', destructiveHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: deleteNode,
+});
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, messageResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:delete-variable-collection');
+
+export const deleteVariableCollectionSchema = z.object({
+  collectionId: z.string().describe('Variable collection ID to delete'),
+});
+
+export type DeleteVariableCollectionParams = z.infer<typeof deleteVariableCollectionSchema>;
+
+export async function deleteVariableCollection(params: DeleteVariableCollectionParams) {
+  const { collectionId } = params;
+  
+  logger.debug('Deleting variable collection', { collectionId });
+  
+  const bridge = getPluginBridge();
+  await bridge.deleteVariableCollection(collectionId);
+  
+  return {
+    success: true,
+    message: `Deleted variable collection ${collectionId} and its variables`,
+  };
+}
+
+export const deleteVariableCollectionToolDefinition = defineTool({
+  name: 'delete_variable_collection',
+  description: 'Delete a variable collection and all variables in it.',
+  inputSchema: deleteVariableCollectionSchema,
+  outputSchema: messageResultSchema,
+  annotations: { title: 'Delete variable collection', destructiveHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: deleteVariableCollection,
+});
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, messageResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:delete-variable');
+
+export const deleteVariableSchema = z.object({
+  variableId: z.string().describe('Variable ID to delete'),
+});
+
+export type DeleteVariableParams = z.infer<typeof deleteVariableSchema>;
+
+export async function deleteVariable(params: DeleteVariableParams) {
+  const { variableId } = params;
+  
+  logger.debug('Deleting variable', { variableId });
+  
+  const bridge = getPluginBridge();
+  await bridge.deleteVariable(variableId);
+  
+  return {
+    success: true,
+    message: `Deleted variable ${variableId}`,
+  };
+}
+
+export const deleteVariableToolDefinition = defineTool({
+  name: 'delete_variable',
+  description: 'Delete a variable. Nodes bound to it keep their last resolved value.',
+  inputSchema: deleteVariableSchema,
+  outputSchema: messageResultSchema,
+  annotations: { title: 'Delete variable', destructiveHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: deleteVariable,
+});
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+import { componentPropertyDefinitionsSchema } from './add-component-property.js';
+
+const logger = createLogger('tool:edit-component-property');
+
+export const editComponentPropertySchema = z.object({
+  nodeId: z.string().describe('Component or component set node ID'),
+  propertyName: z.string().describe('Full property name including the "#id" suffix (as returned by add_component_property)'),
+  name: z.string().optional().describe('New property name'),
+  defaultValue: z.union([z.string(), z.boolean()]).optional().describe('New default value'),
+  preferredValues: z.array(z.object({
+    type: z.enum(['COMPONENT', 'COMPONENT_SET']),
+    key: z.string().describe('Component or component set key'),
+  })).optional().describe('New preferred values for INSTANCE_SWAP properties'),
+});
+
+export type EditComponentPropertyParams = z.infer<typeof editComponentPropertySchema>;
+
+export async function editComponentProperty(params: EditComponentPropertyParams) {
+  const { nodeId, propertyName, name, defaultValue, preferredValues } = params;
+  
+  logger.debug('Editing component property', { nodeId, propertyName });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.editComponentProperty({
+    nodeId,
+    propertyName,
+    name,
+    defaultValue,
+    preferredValues,
+  });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    propertyName: result.propertyName,
+    definitions: result.definitions,
+    message: `Updated component property "${propertyName}"`,
+  };
+}
+
+export const editComponentPropertyToolDefinition = defineTool({
+  name: 'edit_component_property',
+  description: 'Rename a component property or change its default/preferred values. Default values cannot be changed on VARIANT properties.',
+  inputSchema: editComponentPropertySchema,
+  outputSchema: nodeResultSchema.extend({
+    propertyName: z.string(),
+    definitions: componentPropertyDefinitionsSchema,
+  }),
+  annotations: { title: 'Edit component property', destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: editComponentProperty,
+});
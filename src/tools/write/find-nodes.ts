@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool } from '../registry.js';
+
+const logger = createLogger('tool:find-nodes');
+
+const SCENE_NODE_TYPES = [
+  'FRAME', 'GROUP', 'SECTION', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE', 'TEXT', 'RECTANGLE',
+  'ELLIPSE', 'LINE', 'POLYGON', 'STAR', 'VECTOR', 'BOOLEAN_OPERATION', 'SLICE',
+] as const;
+
+export const findNodesSchema = z.object({
+  types: z.array(z.enum(SCENE_NODE_TYPES)).optional().describe('Node types to match'),
+  name: z.string().optional().describe('Case-insensitive name glob, e.g. "Title*" or "Button ?"'),
+  nameRegex: z.string().optional().describe('JavaScript regular expression for the name, e.g. "^(Primary|Secondary) Button$"'),
+  componentId: z.string().optional().describe('Match instances of this local component or component set'),
+  componentKey: z.string().optional().describe('Match instances of this component or component set key'),
+  styleId: z.string().optional().describe('Match nodes using this fill, stroke, effect, text or grid style'),
+  variable: z.string().optional().describe('Match nodes with a property bound to this variable (ID or name)'),
+  pluginDataKey: z.string().optional().describe('Match nodes with plugin data under this key'),
+  pluginDataValue: z.string().optional().describe('Required plugin data value for pluginDataKey'),
+  ancestorId: z.string().optional().describe('Only search below this node (default: current page)'),
+  ancestorName: z.string().optional().describe('Only match nodes with an ancestor whose name matches this glob'),
+  allPages: z.boolean().optional().describe('Search every page instead of the current one'),
+  offset: z.number().int().min(0).optional().describe('Matches to skip (default: 0)'),
+  limit: z.number().int().min(1).max(500).optional().describe('Maximum matches to return, up to 500 (default: 50)'),
+});
+
+export type FindNodesParams = z.infer<typeof findNodesSchema>;
+
+export async function findNodes(params: FindNodesParams) {
+  logger.debug('Finding nodes', params);
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.findNodes(params);
+  
+  return {
+    nodes: result.nodes,
+    total: result.total,
+    offset: result.offset,
+    hasMore: result.hasMore,
+    message: `Found ${result.total} node(s)${result.hasMore ? `, showing ${result.offset + 1}-${result.offset + result.nodes.length}` : ''}`,
+  };
+}
+
+export const findNodesToolDefinition = defineTool({
+  name: 'find_nodes',
+  description: 'Search the open Figma file for nodes, e.g. all TEXT nodes named "Title" under a frame or all instances of a component. Filters combine with AND. Returns compact summaries (id, name, type, parent, bounds; text content and main component where relevant) with paging.',
+  inputSchema: findNodesSchema,
+  outputSchema: z.object({
+    nodes: z.array(z.object({
+      id: z.string(),
+      name: z.string(),
+      type: z.string(),
+      parentId: z.string().nullable(),
+      x: z.number(),
+      y: z.number(),
+      width: z.number(),
+      height: z.number(),
+      characters: z.string().optional(),
+      mainComponentId: z.string().nullable().optional(),
+    })),
+    total: z.number(),
+    offset: z.number(),
+    hasMore: z.boolean(),
+    message: z.string(),
+  }),
+  annotations: { title: 'Find nodes', readOnlyHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: findNodes,
+});
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:flatten-nodes');
+
+export const flattenNodesSchema = z.object({
+  nodeIds: z.array(z.string()).min(1).describe('Nodes to flatten into one vector'),
+  name: z.string().optional().describe('Name for the resulting vector'),
+  parentId: z.string().optional().describe('Parent for the result (default: parent of the first node)'),
+});
+
+export type FlattenNodesParams = z.infer<typeof flattenNodesSchema>;
+
+export async function flattenNodes(params: FlattenNodesParams) {
+  const { nodeIds, name, parentId } = params;
+  
+  logger.debug('Flattening nodes', { count: nodeIds.length });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.flattenNodes({ nodeIds, name, parentId });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    message: `Flattened ${nodeIds.length} node(s) into vector ${result.nodeId}`,
+  };
+}
+
+export const flattenNodesToolDefinition = defineTool({
+  name: 'flatten_nodes',
+  description: 'Flatten shapes, boolean groups or SVG imports into a single vector node. The original nodes are replaced.',
+  inputSchema: flattenNodesSchema,
+  outputSchema: nodeResultSchema,
+  annotations: { title: 'Flatten nodes', destructiveHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: flattenNodes,
+});
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool } from '../registry.js';
+
+const logger = createLogger('tool:get-current-page');
+
+export const getCurrentPageSchema = z.object({});
+
+export async function getCurrentPage() {
+  logger.debug('Getting current page');
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.getCurrentPage();
+  
+  return {
+    page: result.page,
+  };
+}
+
+// Shared with create_page
+export const pageSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+});
+
+export const getCurrentPageToolDefinition = defineTool({
+  name: 'get_current_page',
+  description: 'Get the ID and name of the page currently open in Figma. New nodes without a parent are created there.',
+  inputSchema: getCurrentPageSchema,
+  outputSchema: z.object({
+    page: pageSchema,
+  }),
+  annotations: { title: 'Get current page', readOnlyHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: getCurrentPage,
+});
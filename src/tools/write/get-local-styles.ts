@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool } from '../registry.js';
+import { liveStyleSchema } from './create-style.js';
+
+const logger = createLogger('tool:get-local-styles');
+
+export const getLocalStylesSchema = z.object({});
+
+export async function getLocalStyles() {
+  logger.debug('Getting local styles');
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.getLocalStyles();
+  
+  return {
+    styles: result.styles,
+    count: result.styles.length,
+  };
+}
+
+export const getLocalStylesToolDefinition = defineTool({
+  name: 'get_local_styles',
+  description: 'List local paint, text, effect and grid styles in the open Figma file via the plugin, including unpublished ones. Use the returned IDs with update_style and apply_style.',
+  inputSchema: getLocalStylesSchema,
+  outputSchema: z.object({
+    styles: z.array(liveStyleSchema),
+    count: z.number(),
+  }),
+  annotations: { title: 'Get local styles', readOnlyHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: getLocalStyles,
+});
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool } from '../registry.js';
+import { liveVariableCollectionSchema } from './create-variable-collection.js';
+import { liveVariableSchema } from './create-variable.js';
+
+const logger = createLogger('tool:get-local-variables');
+
+export const getLocalVariablesSchema = z.object({});
+
+export async function getLocalVariables() {
+  logger.debug('Getting local variables');
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.getLocalVariables();
+  
+  return {
+    collections: result.collections,
+    variables: result.variables,
+    count: result.variables.length,
+  };
+}
+
+export const getLocalVariablesToolDefinition = defineTool({
+  name: 'get_local_variables',
+  description: 'List variable collections, modes and variables in the open Figma file via the plugin, including unsaved changes. Use the returned IDs with the variable write tools.',
+  inputSchema: getLocalVariablesSchema,
+  outputSchema: z.object({
+    collections: z.array(liveVariableCollectionSchema),
+    variables: z.array(liveVariableSchema),
+    count: z.number(),
+  }),
+  annotations: { title: 'Get local variables', readOnlyHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: getLocalVariables,
+});
@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool } from '../registry.js';
+
+const logger = createLogger('tool:get-plugin-events');
+
+const EVENT_TYPES = ['SELECTION_CHANGE', 'PAGE_CHANGE', 'DOCUMENT_CHANGE'] as const;
+
+export const getPluginEventsSchema = z.object({
+  since: z.number().int().min(0).optional().describe('Only events after this sequence number, oldest first (default: the most recent events)'),
+  types: z.array(z.enum(EVENT_TYPES)).optional().describe('Event types to include'),
+  limit: z.number().int().min(1).max(500).optional().describe('Maximum events to return, up to 500 (default: 100)'),
+});
+
+export type GetPluginEventsParams = z.infer<typeof getPluginEventsSchema>;
+
+export async function getPluginEvents(params: GetPluginEventsParams) {
+  logger.debug('Getting plugin events', params);
+  
+  const bridge = getPluginBridge();
+  const result = bridge.getEvents(params);
+  
+  return {
+    events: result.events,
+    latestSeq: result.latestSeq,
+    hasMore: result.hasMore,
+    connected: bridge.isConnected(),
+  };
+}
+
+const bufferedEventFields = {
+  seq: z.number(),
+  receivedAt: z.number(),
+  connectionId: z.string(),
+  fileKey: z.string().optional(),
+};
+
+export const getPluginEventsToolDefinition = defineTool({
+  name: 'get_plugin_events',
+  description: 'Get recent events pushed by the Figma plugin: selection changes, page switches and document changes (created, deleted and changed node IDs, including edits by collaborators). Pass the returned latestSeq as since on the next call to get only new events. Subscribe to the figma://plugin/events resource to be notified instead of polling.',
+  inputSchema: getPluginEventsSchema,
+  outputSchema: z.object({
+    events: z.array(z.discriminatedUnion('type', [
+      z.object({
+        type: z.literal('SELECTION_CHANGE'),
+        pageId: z.string(),
+        nodeIds: z.array(z.string()),
+        ...bufferedEventFields,
+      }),
+      z.object({
+        type: z.literal('PAGE_CHANGE'),
+        pageId: z.string(),
+        pageName: z.string(),
+        ...bufferedEventFields,
+      }),
+      z.object({
+        type: z.literal('DOCUMENT_CHANGE'),
+        created: z.array(z.string()),
+        deleted: z.array(z.string()),
+        changed: z.array(z.object({ nodeId: z.string(), properties: z.array(z.string()) })),
+        styleChanges: z.number(),
+        remote: z.boolean(),
+        truncated: z.boolean(),
+        ...bufferedEventFields,
+      }),
+    ])),
+    latestSeq: z.number().describe('Pass as since to poll for newer events'),
+    hasMore: z.boolean(),
+    connected: z.boolean(),
+  }),
+  annotations: { title: 'Get plugin events', readOnlyHint: true, openWorldHint: false },
+  handler: getPluginEvents,
+});
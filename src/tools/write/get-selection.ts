@@ -1,6 +1,9 @@
 import { z } from 'zod';
 import { getPluginBridge } from '../../services/plugin-bridge/index.js';
 import { createLogger } from '../../lib/index.js';
+import { defineTool } from '../registry.js';
+import { componentPropertyDefinitionsSchema } from './add-component-property.js';
+import { instancePropertiesSchema } from './set-instance-properties.js';
 
 const logger = createLogger('tool:get-selection');
 
@@ -18,12 +21,21 @@ export async function getSelection() {
   };
 }
 
-export const getSelectionToolDefinition = {
+export const getSelectionToolDefinition = defineTool({
   name: 'get_selection',
-  description: 'Get the currently selected nodes in Figma.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {},
-    required: [],
-  },
-};
+  description: 'Get the currently selected nodes in Figma. Instances include their componentProperties; components and component sets include their componentPropertyDefinitions.',
+  inputSchema: getSelectionSchema,
+  outputSchema: z.object({
+    selection: z.array(z.object({
+      id: z.string(),
+      name: z.string(),
+      type: z.string(),
+      componentProperties: instancePropertiesSchema.optional().describe('Instances: property values keyed by property name'),
+      componentPropertyDefinitions: componentPropertyDefinitionsSchema.optional().describe('Components and component sets: property definitions keyed by property name'),
+    })),
+    count: z.number(),
+  }),
+  annotations: { title: 'Get selection', readOnlyHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: getSelection,
+});
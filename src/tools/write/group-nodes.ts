@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:group-nodes');
+
+export const groupNodesSchema = z.object({
+  nodeIds: z.array(z.string()).min(1).describe('Nodes to group'),
+  name: z.string().optional().describe('Name for the group'),
+});
+
+export type GroupNodesParams = z.infer<typeof groupNodesSchema>;
+
+export async function groupNodes(params: GroupNodesParams) {
+  const { nodeIds, name } = params;
+  
+  logger.debug('Grouping nodes', { count: nodeIds.length, name });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.groupNodes({ nodeIds, name });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    message: `Grouped ${nodeIds.length} node(s)${name ? ` as "${name}"` : ''}`,
+  };
+}
+
+export const groupNodesToolDefinition = defineTool({
+  name: 'group_nodes',
+  description: 'Group nodes together on the current page.',
+  inputSchema: groupNodesSchema,
+  outputSchema: nodeResultSchema,
+  annotations: { title: 'Group nodes', destructiveHint: false, openWorldHint: false },
+  pluginTarget: true,
+  handler: groupNodes,
+});
@@ -3,6 +3,53 @@ export { createRectangle, createRectangleSchema, createRectangleToolDefinition,
 export { createText, createTextSchema, createTextToolDefinition, type CreateTextParams } from './create-text.js';
 export { updateNode, updateNodeSchema, updateNodeToolDefinition, type UpdateNodeParams } from './update-node.js';
 export { applyAutoLayout, applyAutoLayoutSchema, applyAutoLayoutToolDefinition, type ApplyAutoLayoutParams } from './apply-auto-layout.js';
-export { setFills, setFillsSchema, setFillsToolDefinition, type SetFillsParams } from './set-fills.js';
+export { setFills, setFillsSchema, setFillsToolDefinition, paintSchema, type SetFillsParams } from './set-fills.js';
 export { deleteNode, deleteNodeSchema, deleteNodeToolDefinition, type DeleteNodeParams } from './delete-node.js';
 export { getSelection, getSelectionSchema, getSelectionToolDefinition } from './get-selection.js';
+export { createComponent, createComponentSchema, createComponentToolDefinition, type CreateComponentParams } from './create-component.js';
+export { createInstance, createInstanceSchema, createInstanceToolDefinition, type CreateInstanceParams } from './create-instance.js';
+export { combineAsVariants, combineAsVariantsSchema, combineAsVariantsToolDefinition, type CombineAsVariantsParams } from './combine-as-variants.js';
+export { addVariantProperty, addVariantPropertySchema, addVariantPropertyToolDefinition, type AddVariantPropertyParams } from './add-variant-property.js';
+export { renameVariantProperty, renameVariantPropertySchema, renameVariantPropertyToolDefinition, type RenameVariantPropertyParams } from './rename-variant-property.js';
+export { setVariantProperties, setVariantPropertiesSchema, setVariantPropertiesToolDefinition, type SetVariantPropertiesParams } from './set-variant-properties.js';
+export { addComponentProperty, addComponentPropertySchema, addComponentPropertyToolDefinition, type AddComponentPropertyParams } from './add-component-property.js';
+export { editComponentProperty, editComponentPropertySchema, editComponentPropertyToolDefinition, type EditComponentPropertyParams } from './edit-component-property.js';
+export { deleteComponentProperty, deleteComponentPropertySchema, deleteComponentPropertyToolDefinition, type DeleteComponentPropertyParams } from './delete-component-property.js';
+export { setInstanceProperties, setInstancePropertiesSchema, setInstancePropertiesToolDefinition, type SetInstancePropertiesParams } from './set-instance-properties.js';
+export { getLocalVariables, getLocalVariablesSchema, getLocalVariablesToolDefinition } from './get-local-variables.js';
+export { createVariableCollection, createVariableCollectionSchema, createVariableCollectionToolDefinition, type CreateVariableCollectionParams } from './create-variable-collection.js';
+export { updateVariableCollection, updateVariableCollectionSchema, updateVariableCollectionToolDefinition, type UpdateVariableCollectionParams } from './update-variable-collection.js';
+export { deleteVariableCollection, deleteVariableCollectionSchema, deleteVariableCollectionToolDefinition, type DeleteVariableCollectionParams } from './delete-variable-collection.js';
+export { createVariable, createVariableSchema, createVariableToolDefinition, type CreateVariableParams } from './create-variable.js';
+export { updateVariable, updateVariableSchema, updateVariableToolDefinition, type UpdateVariableParams } from './update-variable.js';
+export { deleteVariable, deleteVariableSchema, deleteVariableToolDefinition, type DeleteVariableParams } from './delete-variable.js';
+export { bindVariables, bindVariablesSchema, bindVariablesToolDefinition, variableBindingsSchema, type BindVariablesParams } from './bind-variables.js';
+export { getLocalStyles, getLocalStylesSchema, getLocalStylesToolDefinition } from './get-local-styles.js';
+export { createStyle, createStyleSchema, createStyleToolDefinition, stylePropertiesSchema, type CreateStyleParams } from './create-style.js';
+export { updateStyle, updateStyleSchema, updateStyleToolDefinition, type UpdateStyleParams } from './update-style.js';
+export { applyStyle, applyStyleSchema, applyStyleToolDefinition, type ApplyStyleParams } from './apply-style.js';
+export { createVectorFromSvg, createVectorFromSvgSchema, createVectorFromSvgToolDefinition, type CreateVectorFromSvgParams } from './create-vector-from-svg.js';
+export { createVector, createVectorSchema, createVectorToolDefinition, type CreateVectorParams } from './create-vector.js';
+export { booleanOperation, booleanOperationSchema, booleanOperationToolDefinition, type BooleanOperationParams } from './boolean-operation.js';
+export { flattenNodes, flattenNodesSchema, flattenNodesToolDefinition, type FlattenNodesParams } from './flatten-nodes.js';
+export { setMask, setMaskSchema, setMaskToolDefinition, type SetMaskParams } from './set-mask.js';
+export { createEllipse, createEllipseSchema, createEllipseToolDefinition, type CreateEllipseParams } from './create-ellipse.js';
+export { createLine, createLineSchema, createLineToolDefinition, type CreateLineParams } from './create-line.js';
+export { setStrokes, setStrokesSchema, setStrokesToolDefinition, type SetStrokesParams } from './set-strokes.js';
+export { setEffects, setEffectsSchema, setEffectsToolDefinition, effectSchema, type SetEffectsParams } from './set-effects.js';
+export { groupNodes, groupNodesSchema, groupNodesToolDefinition, type GroupNodesParams } from './group-nodes.js';
+export { setConstraints, setConstraintsSchema, setConstraintsToolDefinition, type SetConstraintsParams } from './set-constraints.js';
+export { moveNode, moveNodeSchema, moveNodeToolDefinition, type MoveNodeParams } from './move-node.js';
+export { resizeNode, resizeNodeSchema, resizeNodeToolDefinition, type ResizeNodeParams } from './resize-node.js';
+export { cloneNode, cloneNodeSchema, cloneNodeToolDefinition, type CloneNodeParams } from './clone-node.js';
+export { setSelection, setSelectionSchema, setSelectionToolDefinition, type SetSelectionParams } from './set-selection.js';
+export { getCurrentPage, getCurrentPageSchema, getCurrentPageToolDefinition } from './get-current-page.js';
+export { createPage, createPageSchema, createPageToolDefinition, type CreatePageParams } from './create-page.js';
+export { createTree, createTreeSchema, createTreeToolDefinition, treeNodeSchema, type CreateTreeParams } from './create-tree.js';
+export { readLiveNode, readLiveNodeSchema, readLiveNodeToolDefinition, type ReadLiveNodeParams } from './read-live-node.js';
+export { findNodes, findNodesSchema, findNodesToolDefinition, type FindNodesParams } from './find-nodes.js';
+export { getPluginEvents, getPluginEventsSchema, getPluginEventsToolDefinition, type GetPluginEventsParams } from './get-plugin-events.js';
+export { listPluginConnections, listPluginConnectionsSchema, listPluginConnectionsToolDefinition } from './list-plugin-connections.js';
+export { beginTransaction, beginTransactionSchema, beginTransactionToolDefinition, type BeginTransactionParams } from './begin-transaction.js';
+export { commitTransaction, commitTransactionSchema, commitTransactionToolDefinition, type CommitTransactionParams } from './commit-transaction.js';
+export { rollbackTransaction, rollbackTransactionSchema, rollbackTransactionToolDefinition, type RollbackTransactionParams } from './rollback-transaction.js';
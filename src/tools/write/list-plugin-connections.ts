@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool } from '../registry.js';
+
+const logger = createLogger('tool:list-plugin-connections');
+
+export const listPluginConnectionsSchema = z.object({});
+
+export async function listPluginConnections() {
+  logger.debug('Listing plugin connections');
+  
+  const bridge = getPluginBridge();
+  const connections = bridge.getConnections();
+  
+  return {
+    connected: connections.length > 0,
+    connections: connections.map(({ capabilities: _capabilities, ...connection }, index) => ({
+      ...connection,
+      connectedAt: new Date(connection.connectedAt).toISOString(),
+      lastSeenAt: new Date(connection.lastSeenAt).toISOString(),
+      isDefault: index === 0,
+    })),
+    message: connections.length
+      ? `${connections.length} Figma plugin connection(s). Write operations go to the most recently active one unless fileKey or connectionId is given.`
+      : 'Figma plugin is not connected. Please open Figma and run the figmad plugin. Read operations (get_file, export_image, etc.) still work.',
+  };
+}
+
+export const listPluginConnectionsToolDefinition = defineTool({
+  name: 'list_plugin_connections',
+  description: 'List the Figma files with the figmad plugin running (connection ID, file key, file name, user). Write operations require at least one connection; pass fileKey or connectionId to a write tool to target a specific file.',
+  inputSchema: listPluginConnectionsSchema,
+  outputSchema: z.object({
+    connected: z.boolean(),
+    connections: z.array(z.object({
+      connectionId: z.string(),
+      fileKey: z.string().optional(),
+      fileName: z.string().optional(),
+      user: z.object({ id: z.string().nullable(), name: z.string() }).optional(),
+      protocolVersion: z.number().optional(),
+      connectedAt: z.string(),
+      lastSeenAt: z.string(),
+      isDefault: z.boolean().describe('Receives commands that name no fileKey or connectionId'),
+    })),
+    message: z.string(),
+  }),
+  annotations: { title: 'List plugin connections', readOnlyHint: true, openWorldHint: false },
+  handler: listPluginConnections,
+});
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:move-node');
+
+export const moveNodeSchema = z.object({
+  nodeId: z.string().describe('The node ID'),
+  x: z.number().describe('New X position'),
+  y: z.number().describe('New Y position'),
+});
+
+export type MoveNodeParams = z.infer<typeof moveNodeSchema>;
+
+export async function moveNode(params: MoveNodeParams) {
+  const { nodeId, x, y } = params;
+  
+  logger.debug('Moving node', { nodeId, x, y });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.moveNode({ nodeId, x, y });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    message: `Moved node ${nodeId} to (${x}, ${y})`,
+  };
+}
+
+export const moveNodeToolDefinition = defineTool({
+  name: 'move_node',
+  description: 'Move a node to a new position relative to its parent.',
+  inputSchema: moveNodeSchema,
+  outputSchema: nodeResultSchema,
+  annotations: { title: 'Move node', destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: moveNode,
+});
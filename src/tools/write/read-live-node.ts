@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool } from '../registry.js';
+
+const logger = createLogger('tool:read-live-node');
+
+export const readLiveNodeSchema = z.object({
+  nodeId: z.string().optional().describe('Node to read; omit to read a whole page'),
+  pageId: z.string().optional().describe('Page to read when nodeId is omitted (default: current page)'),
+  depth: z.number().int().min(0).optional().describe('Child levels to include; 0 returns only the node with its childCount (default: 1)'),
+  properties: z.array(z.string()).optional().describe('Node properties to include, e.g. "fills", "layoutMode", "boundVariables", "fillStyleId", "componentProperties", "mainComponentId". Default: visible, x, y, width, height, fills, strokes, effects, cornerRadius, layoutMode, characters, fontSize, fontName'),
+});
+
+export type ReadLiveNodeParams = z.infer<typeof readLiveNodeSchema>;
+
+export async function readLiveNode(params: ReadLiveNodeParams) {
+  const { nodeId, pageId, depth, properties } = params;
+  
+  logger.debug('Reading live node', { nodeId, pageId, depth });
+  
+  const bridge = getPluginBridge();
+  
+  if (nodeId) {
+    const result = await bridge.getNode({ nodeId, depth, properties });
+    return { node: result.node, truncated: result.truncated };
+  }
+  
+  const result = await bridge.getPageTree({ pageId, depth, properties });
+  return { node: result.page, truncated: result.truncated };
+}
+
+export const readLiveNodeToolDefinition = defineTool({
+  name: 'read_live_node',
+  description: 'Read a node subtree (or a whole page) from the open Figma document through the plugin, including unsaved edits. Use it to verify what write tools just created; get_file and get_node need a saved file and a fileKey. Large trees are cut off after 2000 nodes (truncated: true).',
+  inputSchema: readLiveNodeSchema,
+  outputSchema: z.object({
+    node: z.object({
+      id: z.string(),
+      name: z.string(),
+      type: z.string(),
+    }).passthrough().describe('Node with the requested properties; children have the same shape'),
+    truncated: z.boolean().describe('True when the node limit cut the tree short'),
+  }),
+  annotations: { title: 'Read live node', readOnlyHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: readLiveNode,
+});
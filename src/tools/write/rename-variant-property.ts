@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+import { variantGroupsSchema } from './combine-as-variants.js';
+
+const logger = createLogger('tool:rename-variant-property');
+
+export const renameVariantPropertySchema = z.object({
+  componentSetId: z.string().describe('Component set node ID'),
+  name: z.string().describe('Current variant property name'),
+  newName: z.string().describe('New variant property name'),
+});
+
+export type RenameVariantPropertyParams = z.infer<typeof renameVariantPropertySchema>;
+
+export async function renameVariantProperty(params: RenameVariantPropertyParams) {
+  const { componentSetId, name, newName } = params;
+  
+  logger.debug('Renaming variant property', { componentSetId, name, newName });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.renameVariantProperty({ componentSetId, name, newName });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    variantGroups: result.variantGroups,
+    message: `Renamed variant property "${name}" to "${newName}"`,
+  };
+}
+
+export const renameVariantPropertyToolDefinition = defineTool({
+  name: 'rename_variant_property',
+  description: 'Rename a variant property on a component set. Existing instances keep their selected values.',
+  inputSchema: renameVariantPropertySchema,
+  outputSchema: nodeResultSchema.extend({
+    variantGroups: variantGroupsSchema,
+  }),
+  annotations: { title: 'Rename variant property', destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: renameVariantProperty,
+});
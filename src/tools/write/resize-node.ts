@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:resize-node');
+
+export const resizeNodeSchema = z.object({
+  nodeId: z.string().describe('The node ID'),
+  width: z.number().positive().describe('New width in pixels'),
+  height: z.number().positive().describe('New height in pixels'),
+});
+
+export type ResizeNodeParams = z.infer<typeof resizeNodeSchema>;
+
+export async function resizeNode(params: ResizeNodeParams) {
+  const { nodeId, width, height } = params;
+  
+  logger.debug('Resizing node', { nodeId, width, height });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.resizeNode({ nodeId, width, height });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    message: `Resized node ${nodeId} to ${width}x${height}`,
+  };
+}
+
+export const resizeNodeToolDefinition = defineTool({
+  name: 'resize_node',
+  description: 'Resize a node. Children follow their constraints.',
+  inputSchema: resizeNodeSchema,
+  outputSchema: nodeResultSchema,
+  annotations: { title: 'Resize node', destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: resizeNode,
+});
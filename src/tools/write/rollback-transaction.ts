@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, messageResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:rollback-transaction');
+
+export const rollbackTransactionSchema = z.object({
+  transactionId: z.string().optional().describe('Transaction ID to revert (default: the open transaction of this MCP session, else its last committed one)'),
+});
+
+export type RollbackTransactionParams = z.infer<typeof rollbackTransactionSchema>;
+
+export async function rollbackTransaction(params: RollbackTransactionParams) {
+  const { transactionId } = params;
+  
+  logger.debug('Rolling back transaction', { transactionId });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.rollbackTransaction(transactionId);
+  
+  return {
+    success: result.skipped.length === 0,
+    ...result,
+    message: `Rolled back transaction ${result.transactionId}: deleted ${result.deleted.length} node(s), restored ${result.restored.length}${result.skipped.length ? `, ${result.skipped.length} could not be reverted` : ''}`,
+  };
+}
+
+export const rollbackTransactionToolDefinition = defineTool({
+  name: 'rollback_transaction',
+  description: 'Revert a transaction: delete the nodes it created and restore the properties, position and parent of the nodes it modified. Orchestrated tools (generate_ui, reconstruct_page, create_tree) return the transactionId they ran in. Nodes deleted within the transaction cannot be restored; components and vectors made from existing nodes (create_component with nodeId, flatten_nodes) are kept and listed in skipped, since the originals no longer exist. Only the last 20 transactions of the current plugin session are kept.',
+  inputSchema: rollbackTransactionSchema,
+  outputSchema: messageResultSchema.extend({
+    transactionId: z.string(),
+    label: z.string().optional(),
+    restored: z.array(z.string()),
+    deleted: z.array(z.string()),
+    skipped: z.array(z.object({ nodeId: z.string(), reason: z.string() })),
+  }),
+  annotations: { title: 'Roll back transaction', destructiveHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: rollbackTransaction,
+});
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:set-constraints');
+
+export const setConstraintsSchema = z.object({
+  nodeId: z.string().describe('The node ID'),
+  horizontal: z.enum(['LEFT', 'RIGHT', 'CENTER', 'LEFT_RIGHT', 'SCALE']).describe('LEFT/RIGHT pin to an edge, LEFT_RIGHT stretches, SCALE resizes proportionally'),
+  vertical: z.enum(['TOP', 'BOTTOM', 'CENTER', 'TOP_BOTTOM', 'SCALE']).describe('TOP/BOTTOM pin to an edge, TOP_BOTTOM stretches, SCALE resizes proportionally'),
+});
+
+export type SetConstraintsParams = z.infer<typeof setConstraintsSchema>;
+
+export async function setConstraints(params: SetConstraintsParams) {
+  const { nodeId, horizontal, vertical } = params;
+  
+  logger.debug('Setting constraints', { nodeId, horizontal, vertical });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.setConstraints({ nodeId, horizontal, vertical });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    message: `Set constraints ${horizontal}/${vertical} on node ${nodeId}`,
+  };
+}
+
+export const setConstraintsToolDefinition = defineTool({
+  name: 'set_constraints',
+  description: 'Set how a node responds when its parent frame is resized. Only applies to children of frames without auto-layout.',
+  inputSchema: setConstraintsSchema,
+  outputSchema: nodeResultSchema,
+  annotations: { title: 'Set constraints', destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: setConstraints,
+});
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:set-effects');
+
+// A single effect, shared with create_style
+export const effectSchema = z.object({
+  type: z.enum(['DROP_SHADOW', 'INNER_SHADOW', 'LAYER_BLUR', 'BACKGROUND_BLUR']),
+  radius: z.number().min(0).describe('Blur radius'),
+  color: z.object({
+    r: z.number().min(0).max(1),
+    g: z.number().min(0).max(1),
+    b: z.number().min(0).max(1),
+    a: z.number().min(0).max(1).optional(),
+  }).optional().describe('Shadow color 0-1 (default: black at 25%)'),
+  offset: z.object({ x: z.number(), y: z.number() }).optional().describe('Shadow offset (default: 0, 4)'),
+  spread: z.number().optional().describe('Shadow spread'),
+  visible: z.boolean().optional().describe('Effect visibility'),
+});
+
+export const setEffectsSchema = z.object({
+  nodeId: z.string().describe('The node ID'),
+  effects: z.array(effectSchema).describe('Drop/inner shadows and layer/background blurs'),
+});
+
+export type SetEffectsParams = z.infer<typeof setEffectsSchema>;
+
+export async function setEffects(params: SetEffectsParams) {
+  const { nodeId, effects } = params;
+  
+  logger.debug('Setting effects', { nodeId, effectCount: effects.length });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.setEffects({ nodeId, effects });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    message: `Set ${effects.length} effect(s) on node ${nodeId}`,
+  };
+}
+
+export const setEffectsToolDefinition = defineTool({
+  name: 'set_effects',
+  description: 'Set shadows and blurs on a node. Replaces all existing effects; pass an empty array to remove them.',
+  inputSchema: setEffectsSchema,
+  outputSchema: nodeResultSchema,
+  annotations: { title: 'Set effects', destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: setEffects,
+});
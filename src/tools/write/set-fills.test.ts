@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { paintSchema } from './set-fills.js';
+
+const red = { r: 1, g: 0, b: 0 };
+const blue = { r: 0, g: 0, b: 1 };
+
+describe('paintSchema', () => {
+  it('accepts solid, gradient and image paints', () => {
+    expect(paintSchema.safeParse({ color: red }).success).toBe(true);
+    expect(paintSchema.safeParse({
+      type: 'GRADIENT_LINEAR',
+      gradientStops: [{ position: 0, color: red }, { position: 1, color: blue }],
+    }).success).toBe(true);
+    expect(paintSchema.safeParse({ type: 'IMAGE', imageUrl: 'https://example.com/a.png' }).success).toBe(true);
+    expect(paintSchema.safeParse({ type: 'IMAGE', imageHash: 'abc' }).success).toBe(true);
+  });
+
+  it('rejects a SOLID paint without a color', () => {
+    const result = paintSchema.safeParse({ type: 'SOLID' });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(['color']);
+  });
+
+  it('rejects gradients with fewer than two stops', () => {
+    expect(paintSchema.safeParse({ type: 'GRADIENT_RADIAL' }).success).toBe(false);
+    expect(paintSchema.safeParse({
+      type: 'GRADIENT_RADIAL',
+      gradientStops: [{ position: 0, color: red }],
+    }).success).toBe(false);
+  });
+
+  it('rejects an IMAGE paint without a source', () => {
+    const result = paintSchema.safeParse({ type: 'IMAGE', scaleMode: 'FIT' });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toBe('IMAGE paints need an imageUrl or imageHash');
+  });
+});
@@ -1,24 +1,61 @@
 import { z } from 'zod';
 import { getPluginBridge } from '../../services/plugin-bridge/index.js';
 import { createLogger } from '../../lib/index.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
 
 const logger = createLogger('tool:set-fills');
 
-const paintSchema = z.object({
-  type: z.enum(['SOLID', 'GRADIENT_LINEAR', 'GRADIENT_RADIAL', 'IMAGE']).default('SOLID'),
-  color: z.object({
-    r: z.number().min(0).max(1),
-    g: z.number().min(0).max(1),
-    b: z.number().min(0).max(1),
-    a: z.number().min(0).max(1).optional(),
-  }).optional(),
-  opacity: z.number().min(0).max(1).optional(),
-  visible: z.boolean().optional(),
+const colorSchema = z.object({
+  r: z.number().min(0).max(1).describe('Red 0-1'),
+  g: z.number().min(0).max(1).describe('Green 0-1'),
+  b: z.number().min(0).max(1).describe('Blue 0-1'),
+  a: z.number().min(0).max(1).optional().describe('Alpha 0-1'),
+});
+
+const transformSchema = z.tuple([
+  z.tuple([z.number(), z.number(), z.number()]),
+  z.tuple([z.number(), z.number(), z.number()]),
+]);
+
+// A single paint, shared by every tool that accepts fills or strokes
+export const paintSchema = z.object({
+  type: z.enum([
+    'SOLID', 'GRADIENT_LINEAR', 'GRADIENT_RADIAL', 'GRADIENT_ANGULAR', 'GRADIENT_DIAMOND', 'IMAGE',
+  ]).default('SOLID'),
+  color: colorSchema.optional().describe('SOLID color'),
+  opacity: z.number().min(0).max(1).optional().describe('Overall opacity 0-1'),
+  visible: z.boolean().optional().describe('Paint visibility'),
+  gradientStops: z.array(z.object({
+    position: z.number().min(0).max(1).describe('Stop position 0-1'),
+    color: colorSchema,
+  })).min(2).optional().describe('Gradient color stops (at least two)'),
+  gradientAngle: z.number().optional().describe('Gradient direction in degrees: 0 = left to right, 90 = top to bottom'),
+  gradientHandlePositions: z.array(z.object({ x: z.number(), y: z.number() })).length(3).optional()
+    .describe('Start, end and width handles in node-relative 0-1 coordinates (as returned by the REST API); overrides gradientAngle'),
+  gradientTransform: transformSchema.optional().describe('Raw 2x3 gradient transform; overrides handles and angle'),
+  imageUrl: z.string().optional().describe('IMAGE source: http(s) URL, data: URL or local file path (PNG, JPEG or GIF); over HTTP transport local files must be inside CAPTURE_DIR'),
+  imageHash: z.string().optional().describe('Hash of an image already in the file'),
+  scaleMode: z.enum(['FILL', 'FIT', 'CROP', 'TILE']).optional().describe('How the image fits the node (default: FILL)'),
+  scalingFactor: z.number().positive().optional().describe('Image scale for TILE'),
+  imageTransform: transformSchema.optional().describe('Raw 2x3 crop transform for CROP'),
+  rotation: z.number().optional().describe('Image rotation in degrees (multiples of 90)'),
+}).superRefine((paint, ctx) => {
+  // Mirrors the plugin's checks so bad paints fail before any node is touched
+  const check = (ok: unknown, path: string, message: string) => {
+    if (!ok) ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+  };
+  if (paint.type === 'SOLID') {
+    check(paint.color, 'color', 'SOLID paints need a color');
+  } else if (paint.type === 'IMAGE') {
+    check(paint.imageUrl || paint.imageHash, 'imageUrl', 'IMAGE paints need an imageUrl or imageHash');
+  } else {
+    check(paint.gradientStops, 'gradientStops', `${paint.type} paints need at least two gradientStops`);
+  }
 });
 
 export const setFillsSchema = z.object({
-  nodeId: z.string().describe('The node ID to update'),
-  fills: z.array(paintSchema).describe('Array of fill paints'),
+  nodeId: z.string().describe('The node ID'),
+  fills: z.array(paintSchema).describe('Array of fills: solid colors {r,g,b,a} (0-1), gradients with gradientStops, or images from imageUrl'),
 });
 
 export type SetFillsParams = z.infer<typeof setFillsSchema>;
@@ -38,35 +75,12 @@ export async function setFills(params: SetFillsParams) {
   };
 }
 
-export const setFillsToolDefinition = {
+export const setFillsToolDefinition = defineTool({
   name: 'set_fills',
-  description: 'Set fill colors/gradients on a node. Replaces all existing fills.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      nodeId: { type: 'string', description: 'The node ID' },
-      fills: {
-        type: 'array',
-        description: 'Array of fills. Each fill has type and color {r,g,b,a} with values 0-1',
-        items: {
-          type: 'object',
-          properties: {
-            type: { type: 'string', enum: ['SOLID', 'GRADIENT_LINEAR', 'GRADIENT_RADIAL', 'IMAGE'] },
-            color: {
-              type: 'object',
-              properties: {
-                r: { type: 'number', description: 'Red 0-1' },
-                g: { type: 'number', description: 'Green 0-1' },
-                b: { type: 'number', description: 'Blue 0-1' },
-                a: { type: 'number', description: 'Alpha 0-1' },
-              },
-            },
-            opacity: { type: 'number', description: 'Overall opacity 0-1' },
-            visible: { type: 'boolean', description: 'Fill visibility' },
-          },
-        },
-      },
-    },
-    required: ['nodeId', 'fills'],
-  },
-};
+  description: 'Set solid, gradient or image fills on a node. Replaces all existing fills. Image URLs are downloaded by the server and uploaded through the plugin.',
+  inputSchema: setFillsSchema,
+  outputSchema: nodeResultSchema,
+  annotations: { title: 'Set fills', destructiveHint: true, idempotentHint: true, openWorldHint: true },
+  pluginTarget: true,
+  handler: setFills,
+});
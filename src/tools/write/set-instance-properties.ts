@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:set-instance-properties');
+
+export const setInstancePropertiesSchema = z.object({
+  nodeId: z.string().describe('Instance node ID'),
+  properties: z.record(z.union([z.string(), z.boolean()])).describe('Property values keyed by property name'),
+});
+
+export type SetInstancePropertiesParams = z.infer<typeof setInstancePropertiesSchema>;
+
+export async function setInstanceProperties(params: SetInstancePropertiesParams) {
+  const { nodeId, properties } = params;
+  
+  logger.debug('Setting instance properties', { nodeId, properties });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.setInstanceProperties({ nodeId, properties });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    properties: result.properties,
+    message: `Set ${Object.keys(properties).length} propert(ies) on instance ${nodeId}`,
+  };
+}
+
+// Shared with get_selection
+export const instancePropertiesSchema = z.record(z.object({
+  type: z.enum(['BOOLEAN', 'TEXT', 'INSTANCE_SWAP', 'VARIANT']),
+  value: z.union([z.string(), z.boolean()]),
+})).describe('Component property values of the instance, keyed by property name');
+
+export const setInstancePropertiesToolDefinition = defineTool({
+  name: 'set_instance_properties',
+  description: 'Set component property values on an instance, e.g. { "Label": "Sign in", "Show icon": true, "Icon": "12:34", "Size": "Large" }. Names may omit the "#id" suffix. INSTANCE_SWAP values are component node IDs. Use get_selection to see an instance\'s current properties.',
+  inputSchema: setInstancePropertiesSchema,
+  outputSchema: nodeResultSchema.extend({
+    properties: instancePropertiesSchema,
+  }),
+  annotations: { title: 'Set instance properties', destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: setInstanceProperties,
+});
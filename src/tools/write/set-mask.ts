@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:set-mask');
+
+export const setMaskSchema = z.object({
+  nodeId: z.string().describe('Node to use as a mask'),
+  isMask: z.boolean().default(true).describe('Turn the mask on or off (default: true)'),
+  maskType: z.enum(['ALPHA', 'VECTOR', 'LUMINANCE']).optional().describe('ALPHA uses opacity, VECTOR the outline, LUMINANCE the brightness (default: ALPHA)'),
+});
+
+export type SetMaskParams = z.infer<typeof setMaskSchema>;
+
+export async function setMask(params: SetMaskParams) {
+  const { nodeId, isMask = true, maskType } = params;
+  
+  logger.debug('Setting mask', { nodeId, isMask, maskType });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.setMask({ nodeId, isMask, maskType });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    isMask: result.isMask,
+    maskType: result.maskType,
+    message: isMask ? `Node ${nodeId} now masks the layers above it` : `Removed mask from node ${nodeId}`,
+  };
+}
+
+export const setMaskToolDefinition = defineTool({
+  name: 'set_mask',
+  description: 'Use a node as a mask. A mask clips the sibling layers stacked above it in the same parent; group the mask and masked layers first if needed.',
+  inputSchema: setMaskSchema,
+  outputSchema: nodeResultSchema.extend({
+    isMask: z.boolean(),
+    maskType: z.string(),
+  }),
+  annotations: { title: 'Set mask', destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: setMask,
+});
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, messageResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:set-selection');
+
+export const setSelectionSchema = z.object({
+  nodeIds: z.array(z.string()).describe('Nodes to select; empty clears the selection'),
+});
+
+export type SetSelectionParams = z.infer<typeof setSelectionSchema>;
+
+export async function setSelection(params: SetSelectionParams) {
+  const { nodeIds } = params;
+  
+  logger.debug('Setting selection', { count: nodeIds.length });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.setSelection(nodeIds);
+  
+  return {
+    success: true,
+    nodeIds: result.nodeIds,
+    message: nodeIds.length ? `Selected ${nodeIds.length} node(s)` : 'Cleared selection',
+  };
+}
+
+export const setSelectionToolDefinition = defineTool({
+  name: 'set_selection',
+  description: 'Select nodes on the current page in Figma, e.g. to highlight generated results for the user.',
+  inputSchema: setSelectionSchema,
+  outputSchema: messageResultSchema.extend({
+    nodeIds: z.array(z.string()).describe('Selected node IDs'),
+  }),
+  annotations: { title: 'Set selection', destructiveHint: false, idempotentHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: setSelection,
+});
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { paintSchema } from './set-fills.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:set-strokes');
+
+export const setStrokesSchema = z.object({
+  nodeId: z.string().describe('The node ID'),
+  strokes: z.array(paintSchema).describe('Stroke paints, same format as fills'),
+  strokeWeight: z.number().min(0).optional().describe('Stroke weight in pixels'),
+});
+
+export type SetStrokesParams = z.infer<typeof setStrokesSchema>;
+
+export async function setStrokes(params: SetStrokesParams) {
+  const { nodeId, strokes, strokeWeight } = params;
+  
+  logger.debug('Setting strokes', { nodeId, strokeCount: strokes.length });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.setStrokes({ nodeId, strokes, strokeWeight });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    message: `Set ${strokes.length} stroke(s) on node ${nodeId}`,
+  };
+}
+
+export const setStrokesToolDefinition = defineTool({
+  name: 'set_strokes',
+  description: 'Set borders/outlines on a node. Replaces all existing strokes; pass an empty array to remove them.',
+  inputSchema: setStrokesSchema,
+  outputSchema: nodeResultSchema,
+  annotations: { title: 'Set strokes', destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: setStrokes,
+});
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:set-variant-properties');
+
+export const setVariantPropertiesSchema = z.object({
+  nodeId: z.string().describe('Instance node ID, or a variant component inside a component set'),
+  properties: z.record(z.string()).describe('Variant property values to set, e.g. { "Size": "Large" }'),
+});
+
+export type SetVariantPropertiesParams = z.infer<typeof setVariantPropertiesSchema>;
+
+export async function setVariantProperties(params: SetVariantPropertiesParams) {
+  const { nodeId, properties } = params;
+  
+  logger.debug('Setting variant properties', { nodeId, properties });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.setVariantProperties({ nodeId, properties });
+  
+  return {
+    success: true,
+    nodeId: result.nodeId,
+    variantProperties: result.variantProperties,
+    message: `Set variant properties on node ${nodeId}: ${Object.keys(properties).join(', ')}`,
+  };
+}
+
+export const setVariantPropertiesToolDefinition = defineTool({
+  name: 'set_variant_properties',
+  description: 'Set variant property values. On an instance this switches it to the matching variant; on a variant component inside a component set it changes which values that variant represents.',
+  inputSchema: setVariantPropertiesSchema,
+  outputSchema: nodeResultSchema.extend({
+    variantProperties: z.record(z.string()).describe('Variant property values of the node after the change'),
+  }),
+  annotations: { title: 'Set variant properties', destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: setVariantProperties,
+});
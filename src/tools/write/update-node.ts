@@ -1,26 +1,27 @@
 import { z } from 'zod';
 import { getPluginBridge } from '../../services/plugin-bridge/index.js';
 import { createLogger } from '../../lib/index.js';
+import { defineTool, nodeResultSchema } from '../registry.js';
 
 const logger = createLogger('tool:update-node');
 
 export const updateNodeSchema = z.object({
   nodeId: z.string().describe('The node ID to update'),
   properties: z.object({
-    name: z.string().optional(),
-    visible: z.boolean().optional(),
-    locked: z.boolean().optional(),
-    opacity: z.number().min(0).max(1).optional(),
-    x: z.number().optional(),
-    y: z.number().optional(),
-    width: z.number().positive().optional(),
-    height: z.number().positive().optional(),
-    rotation: z.number().optional(),
-    cornerRadius: z.number().min(0).optional(),
-    characters: z.string().optional(),
-    fontSize: z.number().positive().optional(),
-    fontFamily: z.string().optional(),
-    fontWeight: z.number().optional(),
+    name: z.string().optional().describe('Node name'),
+    visible: z.boolean().optional().describe('Visibility'),
+    locked: z.boolean().optional().describe('Lock state'),
+    opacity: z.number().min(0).max(1).optional().describe('Opacity 0-1'),
+    x: z.number().optional().describe('X position'),
+    y: z.number().optional().describe('Y position'),
+    width: z.number().positive().optional().describe('Width'),
+    height: z.number().positive().optional().describe('Height'),
+    rotation: z.number().optional().describe('Rotation in degrees'),
+    cornerRadius: z.number().min(0).optional().describe('Corner radius'),
+    characters: z.string().optional().describe('Text content (for text nodes)'),
+    fontSize: z.number().positive().optional().describe('Font size (for text nodes)'),
+    fontFamily: z.string().optional().describe('Font family (for text nodes)'),
+    fontWeight: z.number().optional().describe('Font weight (for text nodes)'),
     textAlignHorizontal: z.enum(['LEFT', 'CENTER', 'RIGHT', 'JUSTIFIED']).optional(),
     textAlignVertical: z.enum(['TOP', 'CENTER', 'BOTTOM']).optional(),
   }).describe('Properties to update'),
@@ -45,36 +46,12 @@ export async function updateNode(params: UpdateNodeParams) {
   };
 }
 
-export const updateNodeToolDefinition = {
+export const updateNodeToolDefinition = defineTool({
   name: 'update_node',
   description: 'Update properties of an existing Figma node. Can modify position, size, text, visibility, and more.',
-  inputSchema: {
-    type: 'object' as const,
-    properties: {
-      nodeId: { type: 'string', description: 'The node ID to update' },
-      properties: {
-        type: 'object',
-        description: 'Properties to update',
-        properties: {
-          name: { type: 'string', description: 'Node name' },
-          visible: { type: 'boolean', description: 'Visibility' },
-          locked: { type: 'boolean', description: 'Lock state' },
-          opacity: { type: 'number', description: 'Opacity 0-1' },
-          x: { type: 'number', description: 'X position' },
-          y: { type: 'number', description: 'Y position' },
-          width: { type: 'number', description: 'Width' },
-          height: { type: 'number', description: 'Height' },
-          rotation: { type: 'number', description: 'Rotation in degrees' },
-          cornerRadius: { type: 'number', description: 'Corner radius' },
-          characters: { type: 'string', description: 'Text content (for text nodes)' },
-          fontSize: { type: 'number', description: 'Font size (for text nodes)' },
-          fontFamily: { type: 'string', description: 'Font family (for text nodes)' },
-          fontWeight: { type: 'number', description: 'Font weight (for text nodes)' },
-          textAlignHorizontal: { type: 'string', enum: ['LEFT', 'CENTER', 'RIGHT', 'JUSTIFIED'] },
-          textAlignVertical: { type: 'string', enum: ['TOP', 'CENTER', 'BOTTOM'] },
-        },
-      },
-    },
-    required: ['nodeId', 'properties'],
-  },
-};
+  inputSchema: updateNodeSchema,
+  outputSchema: nodeResultSchema,
+  annotations: { title: 'Update node', destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: updateNode,
+});
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { stylePropertiesSchema, liveStyleSchema } from './create-style.js';
+import { defineTool, messageResultSchema } from '../registry.js';
+
+const logger = createLogger('tool:update-style');
+
+export const updateStyleSchema = stylePropertiesSchema.extend({
+  styleId: z.string().describe('Local style ID (from get_local_styles or create_style)'),
+  name: z.string().optional().describe('New style name'),
+});
+
+export type UpdateStyleParams = z.infer<typeof updateStyleSchema>;
+
+export async function updateStyle(params: UpdateStyleParams) {
+  const { styleId, name, description, paints, text, effects, layoutGrids } = params;
+  
+  logger.debug('Updating style', { styleId });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.updateStyle({
+    styleId,
+    name,
+    description,
+    paints,
+    text,
+    effects,
+    layoutGrids,
+  });
+  
+  return {
+    success: true,
+    style: result.style,
+    message: `Updated style "${result.style.name}"`,
+  };
+}
+
+export const updateStyleToolDefinition = defineTool({
+  name: 'update_style',
+  description: 'Update a local style: rename it, change its description, or replace its paints, text properties, effects or layout grids. Nodes using the style update automatically.',
+  inputSchema: updateStyleSchema,
+  outputSchema: messageResultSchema.extend({
+    style: liveStyleSchema,
+  }),
+  annotations: { title: 'Update style', destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: updateStyle,
+});
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, messageResultSchema } from '../registry.js';
+import { liveVariableCollectionSchema } from './create-variable-collection.js';
+
+const logger = createLogger('tool:update-variable-collection');
+
+export const updateVariableCollectionSchema = z.object({
+  collectionId: z.string().describe('Variable collection ID'),
+  name: z.string().optional().describe('New collection name'),
+  addModes: z.array(z.string()).optional().describe('Mode names to add'),
+  renameModes: z.record(z.string()).optional().describe('Mode ID or current name mapped to its new name, e.g. { "Mode 1": "Light" }'),
+  removeModes: z.array(z.string()).optional().describe('Mode IDs or names to remove'),
+});
+
+export type UpdateVariableCollectionParams = z.infer<typeof updateVariableCollectionSchema>;
+
+export async function updateVariableCollection(params: UpdateVariableCollectionParams) {
+  const { collectionId, name, addModes, renameModes, removeModes } = params;
+  
+  logger.debug('Updating variable collection', { collectionId });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.updateVariableCollection({
+    collectionId,
+    name,
+    addModes,
+    renameModes,
+    removeModes,
+  });
+  
+  return {
+    success: true,
+    collection: result.collection,
+    message: `Updated variable collection ${collectionId}`,
+  };
+}
+
+export const updateVariableCollectionToolDefinition = defineTool({
+  name: 'update_variable_collection',
+  description: 'Rename a variable collection and add, rename or remove its modes.',
+  inputSchema: updateVariableCollectionSchema,
+  outputSchema: messageResultSchema.extend({
+    collection: liveVariableCollectionSchema,
+  }),
+  annotations: { title: 'Update variable collection', destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: updateVariableCollection,
+});
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { getPluginBridge } from '../../services/plugin-bridge/index.js';
+import { createLogger } from '../../lib/index.js';
+import { defineTool, messageResultSchema } from '../registry.js';
+import { liveVariableSchema } from './create-variable.js';
+
+const logger = createLogger('tool:update-variable');
+
+const variableValueSchema = z.union([
+  z.boolean(),
+  z.number(),
+  z.string(),
+  z.object({
+    r: z.number().min(0).max(1),
+    g: z.number().min(0).max(1),
+    b: z.number().min(0).max(1),
+    a: z.number().min(0).max(1).optional(),
+  }),
+  z.object({
+    type: z.literal('VARIABLE_ALIAS'),
+    id: z.string(),
+  }),
+]);
+
+export const updateVariableSchema = z.object({
+  variableId: z.string().describe('Variable ID'),
+  name: z.string().optional().describe('New variable name'),
+  description: z.string().optional().describe('New description'),
+  valuesByMode: z.record(variableValueSchema).optional().describe('Values keyed by mode ID or mode name'),
+  scopes: z.array(z.string()).optional().describe('Variable scopes'),
+});
+
+export type UpdateVariableParams = z.infer<typeof updateVariableSchema>;
+
+export async function updateVariable(params: UpdateVariableParams) {
+  const { variableId, name, description, valuesByMode, scopes } = params;
+  
+  logger.debug('Updating variable', { variableId });
+  
+  const bridge = getPluginBridge();
+  const result = await bridge.updateVariable({
+    variableId,
+    name,
+    description,
+    valuesByMode,
+    scopes,
+  });
+  
+  return {
+    success: true,
+    variable: result.variable,
+    message: `Updated variable ${result.variable.name}`,
+  };
+}
+
+export const updateVariableToolDefinition = defineTool({
+  name: 'update_variable',
+  description: 'Rename a variable or change its description, scopes or per-mode values. Only the modes given in valuesByMode are changed; values may be aliases {"type": "VARIABLE_ALIAS", "id": "<variableId>"}.',
+  inputSchema: updateVariableSchema,
+  outputSchema: messageResultSchema.extend({
+    variable: liveVariableSchema,
+  }),
+  annotations: { title: 'Update variable', destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  pluginTarget: true,
+  handler: updateVariable,
+});
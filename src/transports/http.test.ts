@@ -0,0 +1,58 @@
+import type { Server } from 'node:http';
+import { afterEach, describe, expect, it } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { startHttpServer, MCP_PATH } from './http.js';
+
+const createMcpServer = () => new McpServer({ name: 'test', version: '0.0.0' });
+
+let nextPort = 39500;
+let server: Server | null = null;
+
+afterEach(() => {
+  server?.close();
+  server = null;
+});
+
+describe('startHttpServer', () => {
+  it('refuses a non-loopback bind without a token', () => {
+    expect(() => startHttpServer(createMcpServer, { port: nextPort++, host: '0.0.0.0' })).toThrow(/MCP_HTTP_TOKEN/);
+  });
+
+  it('serves a non-loopback bind with a token and requires it', async () => {
+    const port = nextPort++;
+    server = await startHttpServer(createMcpServer, { port, host: '0.0.0.0', token: 'secret' });
+
+    const response = await fetch(`http://127.0.0.1:${port}${MCP_PATH}`, { method: 'POST', body: '{}' });
+
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('request bodies', () => {
+  const post = (port: number, body: string) =>
+    fetch(`http://127.0.0.1:${port}${MCP_PATH}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body,
+    });
+
+  it('answers malformed JSON with 400 and a JSON-RPC parse error', async () => {
+    const port = nextPort++;
+    server = await startHttpServer(createMcpServer, { port, host: '127.0.0.1' });
+
+    const response = await post(port, '{"jsonrpc": "2.0",');
+
+    expect(response.status).toBe(400);
+    const body = await response.json() as { error: { code: number } };
+    expect(body.error.code).toBe(-32700);
+  });
+
+  it('answers bodies over the size limit with 413', async () => {
+    const port = nextPort++;
+    server = await startHttpServer(createMcpServer, { port, host: '127.0.0.1' });
+
+    const response = await post(port, JSON.stringify({ padding: 'x'.repeat(5 * 1024 * 1024) }));
+
+    expect(response.status).toBe(413);
+  });
+});
@@ -0,0 +1,211 @@
+import { createServer as createHttpServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../lib/index.js';
+
+const logger = createLogger('http-transport');
+
+export const MCP_PATH = '/mcp';
+export const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1', '[::1]'];
+
+export interface HttpTransportOptions {
+  port: number;
+  host: string;
+  token?: string; // Required as a Bearer token on every request when set
+  sessionIdleTimeoutMs?: number; // Streamable sessions idle this long are closed
+}
+
+// JSON-RPC error codes for requests the SDK never sees
+const PARSE_ERROR = -32700;
+const SERVER_ERROR = -32000;
+
+class RequestBodyError extends Error {
+  constructor(readonly status: number, readonly code: number, message: string) {
+    super(message);
+    this.name = 'RequestBodyError';
+  }
+}
+
+type Session =
+  | { kind: 'streamable'; server: McpServer; transport: StreamableHTTPServerTransport; lastActivity: number }
+  | { kind: 'sse'; server: McpServer; transport: SSEServerTransport };
+
+/**
+ * Serves MCP over Streamable HTTP at /mcp and the legacy SSE transport at
+ * /sse. Every client session gets its own McpServer; all sessions share the
+ * process's plugin bridge, so several clients can drive one Figma session.
+ */
+export function startHttpServer(createMcpServer: () => McpServer, options: HttpTransportOptions): Promise<Server> {
+  // Off loopback anyone who can reach the port could drive Figma and read files
+  if (!LOOPBACK_HOSTS.includes(options.host) && !options.token) {
+    throw new Error(`Refusing to serve MCP over HTTP on ${options.host} without a token; set MCP_HTTP_TOKEN or bind to 127.0.0.1`);
+  }
+
+  const sessions = new Map<string, Session>();
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+
+  // Streamable clients that vanish without sending DELETE would otherwise keep
+  // their session and McpServer forever; SSE sessions end with their stream.
+  const sweepTimer = setInterval(() => {
+    const now = Date.now();
+    for (const [id, session] of sessions) {
+      if (session.kind === 'streamable' && now - session.lastActivity > idleTimeoutMs) {
+        logger.info('Closing idle MCP HTTP session', { sessionId: id });
+        session.transport.close().catch(() => undefined);
+      }
+    }
+  }, Math.min(idleTimeoutMs, SESSION_SWEEP_INTERVAL_MS));
+  sweepTimer.unref();
+
+  const httpServer = createHttpServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      if (error instanceof RequestBodyError) {
+        sendJsonRpcError(res, error.status, error.message, error.code);
+        return;
+      }
+      logger.error('Failed to handle MCP HTTP request', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    });
+  });
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (!isAllowedHost(req, options.host)) {
+      sendJsonRpcError(res, 403, 'Host not allowed');
+      return;
+    }
+    if (options.token && !hasValidToken(req, options.token)) {
+      sendJsonRpcError(res, 401, 'Missing or invalid bearer token');
+      return;
+    }
+
+    const { pathname, searchParams } = new URL(req.url ?? '/', 'http://localhost');
+
+    if (pathname === MCP_PATH) {
+      await handleStreamableRequest(req, res);
+    } else if (pathname === SSE_PATH && req.method === 'GET') {
+      await openSseSession(res);
+    } else if (pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+      const session = sessions.get(searchParams.get('sessionId') ?? '');
+      if (session?.kind !== 'sse') {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+      await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+    } else {
+      sendJsonRpcError(res, 404, 'Not found');
+    }
+  }
+
+  async function handleStreamableRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+    const sessionId = req.headers['mcp-session-id'];
+
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (session?.kind !== 'streamable') {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+      session.lastActivity = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Missing mcp-session-id header; send an initialize request first');
+      return;
+    }
+
+    const server = createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { kind: 'streamable', server, transport, lastActivity: Date.now() });
+        logger.info('MCP HTTP session opened', { sessionId: id, sessions: sessions.size });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        logger.info('MCP HTTP session closed', { sessionId: transport.sessionId, sessions: sessions.size });
+        server.close().catch(() => undefined);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function openSseSession(res: ServerResponse): Promise<void> {
+    const server = createMcpServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    sessions.set(transport.sessionId, { kind: 'sse', server, transport });
+    logger.info('MCP SSE session opened', { sessionId: transport.sessionId, sessions: sessions.size });
+
+    res.on('close', () => {
+      sessions.delete(transport.sessionId);
+      logger.info('MCP SSE session closed', { sessionId: transport.sessionId, sessions: sessions.size });
+      server.close().catch(() => undefined);
+    });
+
+    await server.connect(transport);
+  }
+
+  httpServer.on('close', () => clearInterval(sweepTimer));
+
+  return new Promise((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve(httpServer);
+    });
+  });
+}
+
+// Guards loopback binds against DNS rebinding from web pages
+function isAllowedHost(req: IncomingMessage, bindHost: string): boolean {
+  if (!LOOPBACK_HOSTS.includes(bindHost)) return true;
+  const host = (req.headers.host ?? '').replace(/:\d+$/, '');
+  return LOOPBACK_HOSTS.includes(host);
+}
+
+function hasValidToken(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization ?? '';
+  const actual = Buffer.from(header.replace(/^Bearer\s+/i, ''));
+  const expected = Buffer.from(token);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RequestBodyError(413, SERVER_ERROR, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new RequestBodyError(400, PARSE_ERROR, 'Parse error: request body is not valid JSON');
+  }
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, code = SERVER_ERROR): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
@@ -0,0 +1 @@
+export { startHttpServer, MCP_PATH, SSE_PATH, type HttpTransportOptions } from './http.js';
@@ -32,6 +32,7 @@ export interface CapturedElement {
   computedStyles: ComputedStyles;
   children: CapturedElement[];
   textContent?: string;
+  svgMarkup?: string;
   attributes: Record<string, string>;
   isVisible: boolean;
   zIndex: number;
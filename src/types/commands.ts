@@ -9,11 +9,37 @@ export type PluginCommand =
   | CreateEllipseCommand
   | CreateTextCommand
   | CreateLineCommand
+  | CreateNodeFromSvgCommand
+  | CreateVectorCommand
   | CreateComponentCommand
   | CreateInstanceCommand
+  | CombineAsVariantsCommand
+  | AddVariantPropertyCommand
+  | RenameVariantPropertyCommand
+  | SetVariantPropertiesCommand
+  | AddComponentPropertyCommand
+  | EditComponentPropertyCommand
+  | DeleteComponentPropertyCommand
+  | SetInstancePropertiesCommand
+  | GetLocalVariablesCommand
+  | CreateVariableCollectionCommand
+  | UpdateVariableCollectionCommand
+  | DeleteVariableCollectionCommand
+  | CreateVariableCommand
+  | UpdateVariableCommand
+  | DeleteVariableCommand
+  | SetBoundVariablesCommand
+  | CreateImageCommand
+  | GetLocalStylesCommand
+  | CreateStyleCommand
+  | UpdateStyleCommand
+  | ApplyStyleCommand
   | UpdateNodeCommand
   | DeleteNodeCommand
   | GroupNodesCommand
+  | BooleanOperationCommand
+  | FlattenNodesCommand
+  | SetMaskCommand
   | SetFillsCommand
   | SetStrokesCommand
   | SetEffectsCommand
@@ -25,11 +51,19 @@ export type PluginCommand =
   | GetSelectionCommand
   | SetSelectionCommand
   | GetCurrentPageCommand
-  | CreatePageCommand;
+  | CreatePageCommand
+  | GetNodeCommand
+  | GetPageTreeCommand
+  | FindNodesCommand
+  | BatchCommand
+  | BeginTransactionCommand
+  | CommitTransactionCommand
+  | RollbackTransactionCommand;
 
 export interface BaseCommand {
   id: string;
   timestamp: number;
+  sessionId?: string; // MCP session that issued the command; scopes plugin transactions
 }
 
 export interface CreateFrameCommand extends BaseCommand {
@@ -42,6 +76,7 @@ export interface CreateFrameCommand extends BaseCommand {
     height: number;
     parentId?: string;
     fills?: PaintParam[];
+    boundVariables?: VariableBindings;
   };
 }
 
@@ -56,6 +91,7 @@ export interface CreateRectangleCommand extends BaseCommand {
     parentId?: string;
     fills?: PaintParam[];
     cornerRadius?: number;
+    boundVariables?: VariableBindings;
   };
 }
 
@@ -76,6 +112,7 @@ export interface CreateTextCommand extends BaseCommand {
   type: 'CREATE_TEXT';
   params: {
     characters: string;
+    name?: string;
     x?: number;
     y?: number;
     parentId?: string;
@@ -87,6 +124,7 @@ export interface CreateTextCommand extends BaseCommand {
     textAlignVertical?: 'TOP' | 'CENTER' | 'BOTTOM';
     width?: number;
     height?: number;
+    boundVariables?: VariableBindings;
   };
 }
 
@@ -104,6 +142,34 @@ export interface CreateLineCommand extends BaseCommand {
   };
 }
 
+export interface CreateNodeFromSvgCommand extends BaseCommand {
+  type: 'CREATE_NODE_FROM_SVG';
+  params: {
+    svg: string;
+    name?: string;
+    x?: number;
+    y?: number;
+    width?: number;
+    height?: number;
+    parentId?: string;
+  };
+}
+
+export interface CreateVectorCommand extends BaseCommand {
+  type: 'CREATE_VECTOR';
+  params: {
+    name?: string;
+    x?: number;
+    y?: number;
+    parentId?: string;
+    vectorPaths?: VectorPathParam[];
+    vectorNetwork?: VectorNetworkParam;
+    fills?: PaintParam[];
+    strokes?: PaintParam[];
+    strokeWeight?: number;
+  };
+}
+
 export interface CreateComponentCommand extends BaseCommand {
   type: 'CREATE_COMPONENT';
   params: {
@@ -113,19 +179,206 @@ export interface CreateComponentCommand extends BaseCommand {
     y?: number;
     width?: number;
     height?: number;
+    parentId?: string;
+    fills?: PaintParam[];
+    description?: string;
+    variantProperties?: Record<string, string>; // Names the component "Prop=Value, ..." for use in a component set
   };
 }
 
 export interface CreateInstanceCommand extends BaseCommand {
   type: 'CREATE_INSTANCE';
   params: {
-    componentId: string;
+    componentId?: string; // Local component node ID
+    componentKey?: string; // Library component key, imported on demand
+    name?: string;
     x?: number;
     y?: number;
     parentId?: string;
   };
 }
 
+export interface CombineAsVariantsCommand extends BaseCommand {
+  type: 'COMBINE_AS_VARIANTS';
+  params: {
+    componentIds: string[];
+    name?: string;
+    parentId?: string;
+  };
+}
+
+export interface AddVariantPropertyCommand extends BaseCommand {
+  type: 'ADD_VARIANT_PROPERTY';
+  params: {
+    componentSetId: string;
+    name: string;
+    defaultValue: string;
+  };
+}
+
+export interface RenameVariantPropertyCommand extends BaseCommand {
+  type: 'RENAME_VARIANT_PROPERTY';
+  params: {
+    componentSetId: string;
+    name: string;
+    newName: string;
+  };
+}
+
+export interface SetVariantPropertiesCommand extends BaseCommand {
+  type: 'SET_VARIANT_PROPERTIES';
+  params: {
+    nodeId: string; // Instance, or variant component inside a component set
+    properties: Record<string, string>;
+  };
+}
+
+export interface AddComponentPropertyCommand extends BaseCommand {
+  type: 'ADD_COMPONENT_PROPERTY';
+  params: {
+    nodeId: string; // Component or component set
+    name: string;
+    type: ComponentPropertyType;
+    defaultValue: string | boolean;
+    preferredValues?: InstanceSwapPreferredValue[];
+    linkedNodeIds?: string[]; // Layers whose visibility/text/main component the property controls
+  };
+}
+
+export interface EditComponentPropertyCommand extends BaseCommand {
+  type: 'EDIT_COMPONENT_PROPERTY';
+  params: {
+    nodeId: string;
+    propertyName: string;
+    name?: string;
+    defaultValue?: string | boolean;
+    preferredValues?: InstanceSwapPreferredValue[];
+  };
+}
+
+export interface DeleteComponentPropertyCommand extends BaseCommand {
+  type: 'DELETE_COMPONENT_PROPERTY';
+  params: {
+    nodeId: string;
+    propertyName: string;
+  };
+}
+
+export interface SetInstancePropertiesCommand extends BaseCommand {
+  type: 'SET_INSTANCE_PROPERTIES';
+  params: {
+    nodeId: string;
+    properties: Record<string, string | boolean>;
+  };
+}
+
+export interface GetLocalVariablesCommand extends BaseCommand {
+  type: 'GET_LOCAL_VARIABLES';
+  params: Record<string, never>;
+}
+
+export interface CreateVariableCollectionCommand extends BaseCommand {
+  type: 'CREATE_VARIABLE_COLLECTION';
+  params: {
+    name: string;
+    modes?: string[]; // First entry renames the default mode
+  };
+}
+
+export interface UpdateVariableCollectionCommand extends BaseCommand {
+  type: 'UPDATE_VARIABLE_COLLECTION';
+  params: {
+    collectionId: string;
+    name?: string;
+    addModes?: string[];
+    renameModes?: Record<string, string>; // Mode ID or name -> new name
+    removeModes?: string[]; // Mode IDs or names
+  };
+}
+
+export interface DeleteVariableCollectionCommand extends BaseCommand {
+  type: 'DELETE_VARIABLE_COLLECTION';
+  params: {
+    collectionId: string;
+  };
+}
+
+export interface CreateVariableCommand extends BaseCommand {
+  type: 'CREATE_VARIABLE';
+  params: {
+    collectionId: string;
+    name: string;
+    resolvedType: VariableResolvedType;
+    valuesByMode?: Record<string, VariableValueParam>; // Keyed by mode ID or mode name
+    description?: string;
+    scopes?: string[];
+  };
+}
+
+export interface UpdateVariableCommand extends BaseCommand {
+  type: 'UPDATE_VARIABLE';
+  params: {
+    variableId: string;
+    name?: string;
+    description?: string;
+    valuesByMode?: Record<string, VariableValueParam>;
+    scopes?: string[];
+  };
+}
+
+export interface DeleteVariableCommand extends BaseCommand {
+  type: 'DELETE_VARIABLE';
+  params: {
+    variableId: string;
+  };
+}
+
+export interface SetBoundVariablesCommand extends BaseCommand {
+  type: 'SET_BOUND_VARIABLES';
+  params: {
+    nodeId: string;
+    bindings: VariableBindings;
+    paintIndex?: number;
+  };
+}
+
+export interface CreateImageCommand extends BaseCommand {
+  type: 'CREATE_IMAGE';
+  params: {
+    bytes: string; // Base64-encoded PNG, JPEG or GIF
+  };
+}
+
+export interface GetLocalStylesCommand extends BaseCommand {
+  type: 'GET_LOCAL_STYLES';
+  params: Record<string, never>;
+}
+
+export interface CreateStyleCommand extends BaseCommand {
+  type: 'CREATE_STYLE';
+  params: StylePropertiesParam & {
+    styleType: StyleTypeParam;
+    name: string;
+  };
+}
+
+export interface UpdateStyleCommand extends BaseCommand {
+  type: 'UPDATE_STYLE';
+  params: StylePropertiesParam & {
+    styleId: string;
+  };
+}
+
+export interface ApplyStyleCommand extends BaseCommand {
+  type: 'APPLY_STYLE';
+  params: {
+    nodeId: string;
+    styleId?: string;
+    styleKey?: string;
+    target?: 'fill' | 'stroke' | 'text' | 'effect' | 'grid';
+  };
+}
+
 export interface UpdateNodeCommand extends BaseCommand {
   type: 'UPDATE_NODE';
   params: {
@@ -166,6 +419,34 @@ export interface GroupNodesCommand extends BaseCommand {
   };
 }
 
+export interface BooleanOperationCommand extends BaseCommand {
+  type: 'BOOLEAN_OPERATION';
+  params: {
+    operation: 'UNION' | 'SUBTRACT' | 'INTERSECT' | 'EXCLUDE';
+    nodeIds: string[];
+    name?: string;
+    parentId?: string;
+  };
+}
+
+export interface FlattenNodesCommand extends BaseCommand {
+  type: 'FLATTEN_NODES';
+  params: {
+    nodeIds: string[];
+    name?: string;
+    parentId?: string;
+  };
+}
+
+export interface SetMaskCommand extends BaseCommand {
+  type: 'SET_MASK';
+  params: {
+    nodeId: string;
+    isMask: boolean;
+    maskType?: 'ALPHA' | 'VECTOR' | 'LUMINANCE';
+  };
+}
+
 export interface SetFillsCommand extends BaseCommand {
   type: 'SET_FILLS';
   params: {
@@ -205,6 +486,7 @@ export interface ApplyAutoLayoutCommand extends BaseCommand {
     counterAxisSizing?: 'FIXED' | 'AUTO';
     primaryAxisAlign?: 'MIN' | 'CENTER' | 'MAX' | 'SPACE_BETWEEN';
     counterAxisAlign?: 'MIN' | 'CENTER' | 'MAX' | 'BASELINE';
+    boundVariables?: VariableBindings;
   };
 }
 
@@ -268,14 +550,179 @@ export interface CreatePageCommand extends BaseCommand {
   };
 }
 
+export interface GetNodeCommand extends BaseCommand {
+  type: 'GET_NODE';
+  params: {
+    nodeId: string;
+    depth?: number; // Child levels to include (default: 1)
+    properties?: string[]; // Node properties to serialize (default: common layout and style fields)
+  };
+}
+
+export interface GetPageTreeCommand extends BaseCommand {
+  type: 'GET_PAGE_TREE';
+  params: {
+    pageId?: string; // Default: current page
+    depth?: number;
+    properties?: string[];
+  };
+}
+
+export interface FindNodesCommand extends BaseCommand {
+  type: 'FIND_NODES';
+  params: {
+    types?: SceneNodeType[];
+    name?: string; // Case-insensitive glob, * and ?
+    nameRegex?: string;
+    componentId?: string; // Instances of this component or component set
+    componentKey?: string;
+    styleId?: string; // Fill, stroke, effect, text or grid style
+    variable?: string; // Bound variable ID or name
+    pluginDataKey?: string;
+    pluginDataValue?: string;
+    ancestorId?: string; // Search root (default: current page)
+    ancestorName?: string; // Glob matched against any ancestor
+    allPages?: boolean;
+    offset?: number;
+    limit?: number;
+  };
+}
+
+export interface BatchCommand extends BaseCommand {
+  type: 'BATCH';
+  params: {
+    commands: BatchItem[];
+    ids?: Record<string, string>; // Temp IDs resolved by earlier batches
+    failed?: string[]; // Temp IDs whose items failed in earlier batches
+    stopOnError?: boolean;
+  };
+}
+
+type BatchableCommand = Exclude<PluginCommand, BatchCommand | TransactionCommand>;
+
+// Sub-command of a BATCH. Node ID params (parentId, nodeId, componentId,
+// componentSetId, nodeIds, componentIds, ...) may name the tempId of an earlier
+// item instead of a real node ID
+export type BatchItem = {
+  [T in BatchableCommand['type']]: {
+    type: T;
+    tempId?: string;
+    params: Extract<BatchableCommand, { type: T }>['params'];
+  };
+}[BatchableCommand['type']];
+
+export interface BatchItemResult {
+  tempId?: string;
+  success: boolean;
+  result?: PluginResult;
+  error?: string;
+}
+
+export interface BatchResult {
+  results: BatchItemResult[];
+  ids: Record<string, string>; // tempId -> created node ID
+}
+
+// Transactions journal created and modified nodes in the plugin; nested begins
+// join the open transaction
+export interface BeginTransactionCommand extends BaseCommand {
+  type: 'BEGIN_TRANSACTION';
+  params: {
+    label?: string;
+  };
+}
+
+export interface CommitTransactionCommand extends BaseCommand {
+  type: 'COMMIT_TRANSACTION';
+  params: {
+    transactionId?: string; // Must match the open transaction when given
+  };
+}
+
+export interface RollbackTransactionCommand extends BaseCommand {
+  type: 'ROLLBACK_TRANSACTION';
+  params: {
+    transactionId?: string; // Default: the open transaction, else the last committed one
+  };
+}
+
+type TransactionCommand = BeginTransactionCommand | CommitTransactionCommand | RollbackTransactionCommand;
+
+export interface RollbackResult {
+  transactionId: string;
+  label?: string;
+  restored: string[];
+  deleted: string[];
+  skipped: { nodeId: string; reason: string }[];
+}
+
+// Declarative node spec for create_tree. Node fields reuse the create command params
+type TreeNodeParams<T extends PluginCommand['type']> = Omit<Extract<PluginCommand, { type: T }>['params'], 'parentId'>;
+
+export interface TreeNodeExtras {
+  key?: string; // Path segment in the returned ID map (default: name, then type)
+  cornerRadius?: number;
+  strokes?: PaintParam[];
+  strokeWeight?: number;
+  effects?: EffectParam[];
+  autoLayout?: Omit<ApplyAutoLayoutCommand['params'], 'nodeId'>; // FRAME only
+  constraints?: Omit<SetConstraintsCommand['params'], 'nodeId'>;
+  children?: TreeNodeSpec[]; // FRAME only
+}
+
+export type TreeNodeSpec = TreeNodeExtras & (
+  | ({ type: 'FRAME' } & TreeNodeParams<'CREATE_FRAME'>)
+  | ({ type: 'RECTANGLE' } & TreeNodeParams<'CREATE_RECTANGLE'>)
+  | ({ type: 'ELLIPSE' } & TreeNodeParams<'CREATE_ELLIPSE'>)
+  | ({ type: 'TEXT' } & TreeNodeParams<'CREATE_TEXT'>)
+  | ({ type: 'LINE' } & TreeNodeParams<'CREATE_LINE'>)
+  | ({ type: 'INSTANCE' } & TreeNodeParams<'CREATE_INSTANCE'>)
+  | ({ type: 'SVG' } & TreeNodeParams<'CREATE_NODE_FROM_SVG'>)
+);
+
 // Parameter types
+export type PaintTransform = [[number, number, number], [number, number, number]];
+
 export interface PaintParam {
-  type: 'SOLID' | 'GRADIENT_LINEAR' | 'GRADIENT_RADIAL' | 'IMAGE';
+  type: 'SOLID' | 'GRADIENT_LINEAR' | 'GRADIENT_RADIAL' | 'GRADIENT_ANGULAR' | 'GRADIENT_DIAMOND' | 'IMAGE';
   color?: { r: number; g: number; b: number; a?: number };
   opacity?: number;
   visible?: boolean;
   gradientStops?: { position: number; color: { r: number; g: number; b: number; a?: number } }[];
-  imageUrl?: string;
+  gradientAngle?: number; // Degrees, 0 = left to right, 90 = top to bottom
+  gradientHandlePositions?: { x: number; y: number }[]; // REST API style: start, end, width handles
+  gradientTransform?: PaintTransform;
+  imageUrl?: string; // http(s), data: URL or local path; resolved to imageHash by the server
+  imageHash?: string;
+  scaleMode?: 'FILL' | 'FIT' | 'CROP' | 'TILE';
+  scalingFactor?: number; // TILE only
+  imageTransform?: PaintTransform; // CROP only
+  rotation?: number; // Degrees, multiples of 90
+}
+
+export interface VectorPathParam {
+  windingRule: 'NONZERO' | 'EVENODD' | 'NONE';
+  data: string; // SVG path data using absolute M, L, Q, C and Z commands
+}
+
+export interface VectorNetworkParam {
+  vertices: {
+    x: number;
+    y: number;
+    strokeCap?: 'NONE' | 'ROUND' | 'SQUARE' | 'ARROW_LINES' | 'ARROW_EQUILATERAL';
+    strokeJoin?: 'MITER' | 'BEVEL' | 'ROUND';
+    cornerRadius?: number;
+  }[];
+  segments: {
+    start: number;
+    end: number;
+    tangentStart?: { x: number; y: number };
+    tangentEnd?: { x: number; y: number };
+  }[];
+  regions?: {
+    windingRule: 'NONZERO' | 'EVENODD';
+    loops: number[][];
+  }[];
 }
 
 export interface EffectParam {
@@ -287,6 +734,254 @@ export interface EffectParam {
   visible?: boolean;
 }
 
+export type StyleTypeParam = 'PAINT' | 'TEXT' | 'EFFECT' | 'GRID';
+
+export interface TextStyleParam {
+  fontFamily?: string;
+  fontWeight?: number;
+  fontStyle?: string; // Overrides fontWeight, e.g. "Semi Bold"
+  fontSize?: number;
+  lineHeight?: number | { value: number; unit: 'PIXELS' | 'PERCENT' } | { unit: 'AUTO' };
+  letterSpacing?: number | { value: number; unit: 'PIXELS' | 'PERCENT' };
+  paragraphSpacing?: number;
+  textCase?: 'ORIGINAL' | 'UPPER' | 'LOWER' | 'TITLE';
+  textDecoration?: 'NONE' | 'UNDERLINE' | 'STRIKETHROUGH';
+}
+
+export interface LayoutGridParam {
+  pattern: 'COLUMNS' | 'ROWS' | 'GRID';
+  sectionSize?: number;
+  count?: number;
+  gutterSize?: number;
+  offset?: number;
+  alignment?: 'MIN' | 'MAX' | 'CENTER' | 'STRETCH';
+  color?: { r: number; g: number; b: number; a?: number };
+  visible?: boolean;
+}
+
+export interface StylePropertiesParam {
+  name?: string;
+  description?: string;
+  paints?: PaintParam[];
+  text?: TextStyleParam;
+  effects?: EffectParam[];
+  layoutGrids?: LayoutGridParam[];
+}
+
+export interface LiveStyle {
+  id: string;
+  key: string;
+  name: string;
+  type: StyleTypeParam;
+  description: string;
+  remote: boolean;
+}
+
+export type SceneNodeType =
+  | 'FRAME'
+  | 'GROUP'
+  | 'SECTION'
+  | 'COMPONENT'
+  | 'COMPONENT_SET'
+  | 'INSTANCE'
+  | 'TEXT'
+  | 'RECTANGLE'
+  | 'ELLIPSE'
+  | 'LINE'
+  | 'POLYGON'
+  | 'STAR'
+  | 'VECTOR'
+  | 'BOOLEAN_OPERATION'
+  | 'SLICE';
+
+export interface NodeSummary {
+  id: string;
+  name: string;
+  type: string;
+  parentId: string | null;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  characters?: string; // TEXT, cut to 80 characters
+  mainComponentId?: string | null; // INSTANCE
+}
+
+// Node as serialized from the live document; carries the requested properties
+export interface LiveNode {
+  id: string;
+  name: string;
+  type: string;
+  parentId?: string | null;
+  childCount?: number;
+  children?: LiveNode[]; // Omitted below the requested depth
+  [property: string]: unknown;
+}
+
+export type ComponentPropertyType = 'BOOLEAN' | 'TEXT' | 'INSTANCE_SWAP' | 'VARIANT';
+
+export interface InstanceSwapPreferredValue {
+  type: 'COMPONENT' | 'COMPONENT_SET';
+  key: string;
+}
+
+export interface ComponentPropertyDefinition {
+  type: ComponentPropertyType;
+  defaultValue: string | boolean;
+  preferredValues?: InstanceSwapPreferredValue[];
+  variantOptions?: string[];
+}
+
+export interface SelectionNode {
+  id: string;
+  name: string;
+  type: string;
+  componentProperties?: Record<string, { type: ComponentPropertyType; value: string | boolean }>;
+  componentPropertyDefinitions?: Record<string, ComponentPropertyDefinition>;
+}
+
+export type VariableResolvedType = 'COLOR' | 'FLOAT' | 'STRING' | 'BOOLEAN';
+
+export type VariableValueParam =
+  | boolean
+  | number
+  | string // Hex string for COLOR variables
+  | { r: number; g: number; b: number; a?: number }
+  | { type: 'VARIABLE_ALIAS'; id: string };
+
+export type VariableBindingField =
+  | 'fills'
+  | 'strokes'
+  | 'cornerRadius' // Binds all four corners
+  | 'topLeftRadius'
+  | 'topRightRadius'
+  | 'bottomLeftRadius'
+  | 'bottomRightRadius'
+  | 'width'
+  | 'height'
+  | 'minWidth'
+  | 'maxWidth'
+  | 'minHeight'
+  | 'maxHeight'
+  | 'itemSpacing'
+  | 'counterAxisSpacing'
+  | 'paddingLeft'
+  | 'paddingRight'
+  | 'paddingTop'
+  | 'paddingBottom'
+  | 'strokeWeight'
+  | 'opacity'
+  | 'visible'
+  | 'characters'
+  | 'fontFamily'
+  | 'fontSize'
+  | 'fontStyle'
+  | 'fontWeight'
+  | 'letterSpacing'
+  | 'lineHeight'
+  | 'paragraphSpacing'
+  | 'paragraphIndent';
+
+// Variable ID or name per field; null removes the binding
+export type VariableBindings = Partial<Record<VariableBindingField, string | null>>;
+
+export interface LiveVariableCollection {
+  id: string;
+  name: string;
+  key: string;
+  modes: { modeId: string; name: string }[];
+  defaultModeId: string;
+  variableIds: string[];
+}
+
+export interface LiveVariable {
+  id: string;
+  name: string;
+  key: string;
+  collectionId: string;
+  resolvedType: VariableResolvedType;
+  description: string;
+  scopes: string[];
+  valuesByMode: Record<string, VariableValueParam>;
+}
+
+// Event types, pushed by the plugin without a preceding command
+export type PluginEvent =
+  | { type: 'SELECTION_CHANGE'; pageId: string; nodeIds: string[] }
+  | { type: 'PAGE_CHANGE'; pageId: string; pageName: string }
+  | {
+      type: 'DOCUMENT_CHANGE';
+      created: string[];
+      deleted: string[];
+      changed: { nodeId: string; properties: string[] }[];
+      styleChanges: number;
+      remote: boolean; // Includes edits by other collaborators
+      truncated: boolean; // Node lists are capped at 200 entries
+    };
+
+export type PluginEventType = PluginEvent['type'];
+
+export type BufferedPluginEvent = PluginEvent & {
+  seq: number;
+  receivedAt: number;
+  connectionId: string;
+  fileKey?: string;
+};
+
+export interface PluginEventMessage {
+  type: 'event';
+  event: PluginEvent;
+}
+
+// Connection types
+export interface PluginUser {
+  id: string | null;
+  name: string;
+}
+
+// Sent by the plugin right after connecting; nothing else is accepted until
+// the server answers with a welcome
+export interface PluginHelloMessage {
+  type: 'hello';
+  protocolVersion: number;
+  token: string;
+  capabilities: string[]; // Command types the plugin build can execute
+  fileKey?: string; // Only exposed to development and private plugins
+  fileName: string;
+  user?: PluginUser;
+}
+
+export interface PluginWelcomeMessage {
+  type: 'welcome';
+  protocolVersion: number;
+  connectionId: string;
+}
+
+export interface PluginHandshakeErrorMessage {
+  type: 'handshake_error';
+  code: 'PROTOCOL_MISMATCH' | 'INVALID_TOKEN' | 'HANDSHAKE_TIMEOUT';
+  message: string;
+}
+
+export interface PluginConnectionInfo {
+  connectionId: string;
+  fileKey?: string;
+  fileName?: string;
+  user?: PluginUser;
+  protocolVersion?: number;
+  capabilities?: string[];
+  connectedAt: number;
+  lastSeenAt: number;
+}
+
+// Selects the plugin connection a command is sent to
+export interface PluginTarget {
+  fileKey?: string;
+  connectionId?: string;
+  timeoutMs?: number; // Overrides the bridge's default command timeout
+  sessionId?: string; // MCP session the commands are sent for
+}
+
 // Response types
 export interface PluginResponse {
   id: string;
@@ -299,5 +994,7 @@ export type PluginResult =
   | { nodeId: string }
   | { nodeIds: string[] }
   | { page: { id: string; name: string } }
-  | { selection: { id: string; name: string; type: string }[] }
+  | { selection: SelectionNode[] }
+  | BatchResult
+  | RollbackResult
   | Record<string, unknown>;
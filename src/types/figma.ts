@@ -45,6 +45,9 @@ export interface FigmaNode {
   style?: TextStyle;
   // Component properties
   componentId?: string;
+  componentProperties?: Record<string, { type: 'BOOLEAN' | 'TEXT' | 'INSTANCE_SWAP' | 'VARIANT'; value: string | boolean }>;
+  componentPropertyDefinitions?: Record<string, { type: 'BOOLEAN' | 'TEXT' | 'INSTANCE_SWAP' | 'VARIANT'; defaultValue: string | boolean; variantOptions?: string[] }>;
+  componentPropertyReferences?: Record<string, string>;
 }
 
 export type NodeType =
@@ -136,6 +139,20 @@ export interface ComponentMetadata {
   name: string;
   description: string;
   documentationLinks?: { uri: string }[];
+  node_id?: string;
+  containing_frame?: {
+    nodeId?: string;
+    name?: string;
+    pageName?: string;
+    containingComponentSet?: { nodeId: string; name: string } | null;
+  };
+}
+
+export interface ComponentSetMetadata {
+  key: string;
+  name: string;
+  description: string;
+  node_id?: string;
 }
 
 export interface StyleMetadata {
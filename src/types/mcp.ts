@@ -148,6 +148,15 @@ export interface FileResource {
   mimeType: string;
 }
 
+// Image content returned to vision-capable clients
+export interface ImageTile {
+  data: string; // base64
+  mimeType: 'image/png' | 'image/jpeg';
+  width: number;
+  height: number;
+  region: { x: number; y: number; width: number; height: number }; // Source pixels this tile covers
+}
+
 // Store types for captures and analyses
 export interface CaptureStore {
   captures: Map<string, WebCapture>;